@@ -9,6 +9,9 @@ import ManageFaculty from '@/pages/ManageFaculty';
 import ManageSubjects from '@/pages/ManageSubjects';
 import AdminSettingsPage from '@/pages/AdminSettingsPage';
 import FacultyWorkload from '@/pages/FacultyWorkload';
+import ManageBellSchedules from '@/pages/ManageBellSchedules';
+import GenerateAllTimetables from '@/pages/GenerateAllTimetables';
+import Conflicts from '@/pages/Conflicts';
 import NotFound from '@/pages/NotFound';
 import Index from '@/pages/Index';
 import { AuthProvider } from '@/contexts/AuthContext';
@@ -33,6 +36,9 @@ function App() {
             <Route path="/manage-subjects" element={<ManageSubjects />} />
             <Route path="/admin-settings" element={<AdminSettingsPage />} />
             <Route path="/faculty-workload" element={<FacultyWorkload />} />
+            <Route path="/bell-schedules" element={<ManageBellSchedules />} />
+            <Route path="/generate-all" element={<GenerateAllTimetables />} />
+            <Route path="/conflicts" element={<Conflicts />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </Router>
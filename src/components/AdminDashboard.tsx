@@ -3,7 +3,7 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { CalendarPlus, Users, BookOpen, Settings, BarChart } from 'lucide-react';
+import { CalendarPlus, Users, BookOpen, Settings, BarChart, Clock, Layers, AlertTriangle } from 'lucide-react';
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
@@ -34,6 +34,52 @@ const AdminDashboard = () => {
           </CardFooter>
         </Card>
 
+        {/* Generate All Timetables Card */}
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5 text-primary" />
+              Generate All Timetables
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Generate the timetables of several classes together so shared faculty never clash.
+            </p>
+          </CardContent>
+          <CardFooter>
+            <Button
+              className="w-full"
+              onClick={() => navigate('/generate-all')}
+            >
+              Generate Together
+            </Button>
+          </CardFooter>
+        </Card>
+
+        {/* Conflicts Card */}
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-primary" />
+              Conflicts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Find double-booked teachers and rooms, and labs overlapping classes, across all timetables.
+            </p>
+          </CardContent>
+          <CardFooter>
+            <Button
+              className="w-full"
+              onClick={() => navigate('/conflicts')}
+            >
+              View Conflicts
+            </Button>
+          </CardFooter>
+        </Card>
+
         {/* Manage Faculty Card */}
         <Card className="hover:shadow-md transition-shadow">
           <CardHeader className="pb-2">
@@ -103,6 +149,29 @@ const AdminDashboard = () => {
           </CardFooter>
         </Card>
 
+        {/* Bell Schedules Card */}
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-primary" />
+              Bell Schedules
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Define periods, breaks, lunch and allowed lab blocks used by timetables.
+            </p>
+          </CardContent>
+          <CardFooter>
+            <Button
+              className="w-full"
+              onClick={() => navigate('/bell-schedules')}
+            >
+              Manage Bell Schedules
+            </Button>
+          </CardFooter>
+        </Card>
+
         {/* Settings Card */}
         <Card className="hover:shadow-md transition-shadow">
           <CardHeader className="pb-2">
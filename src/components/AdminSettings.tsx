@@ -6,6 +6,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Eye, EyeOff, Save, ArrowLeft } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import SchedulingPreferences from './SchedulingPreferences';
+import StorageIssues from './StorageIssues';
+import BackupRestore from './BackupRestore';
+import { deleteUser, ensureDefaultAdmin, getUsers, saveUser } from '@/utils/userUtils';
 
 const AdminSettings: React.FC = () => {
   const { toast } = useToast();
@@ -18,20 +22,9 @@ const AdminSettings: React.FC = () => {
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   
-  // Initialize admin credentials in localStorage if they don't exist
+  // Initialize admin credentials if they don't exist
   useEffect(() => {
-    const users = JSON.parse(localStorage.getItem('users') || '[]');
-    const adminExists = users.some((user: any) => user.role === 'admin');
-    
-    if (!adminExists) {
-      // Add default admin user if none exists
-      users.push({
-        username: 'admin',
-        password: 'admin123',
-        role: 'admin'
-      });
-      localStorage.setItem('users', JSON.stringify(users));
-    }
+    ensureDefaultAdmin();
   }, []);
   
   const handleUpdateCredentials = (e: React.FormEvent) => {
@@ -46,13 +39,10 @@ const AdminSettings: React.FC = () => {
       return;
     }
     
-    // Get current credentials from localStorage
-    const users = JSON.parse(localStorage.getItem('users') || '[]');
-    
     // Find the admin user
-    const adminIndex = users.findIndex((user: any) => user.role === 'admin');
+    const admin = getUsers().find(user => user.role === 'admin');
     
-    if (adminIndex === -1) {
+    if (!admin) {
       toast({
         title: "Error",
         description: "Admin user not found",
@@ -62,7 +52,7 @@ const AdminSettings: React.FC = () => {
     }
     
     // Check if current password is correct
-    if (users[adminIndex].password !== currentPassword) {
+    if (admin.password !== currentPassword) {
       toast({
         title: "Incorrect password",
         description: "The current password you entered is incorrect",
@@ -71,17 +61,16 @@ const AdminSettings: React.FC = () => {
       return;
     }
     
-    // Update credentials
-    if (username) {
-      users[adminIndex].username = username;
-    }
-    
-    if (newPassword) {
-      users[adminIndex].password = newPassword;
+    // Update credentials; users are stored by username, so a renamed admin replaces the old login
+    const updatedAdmin = {
+      ...admin,
+      username: username || admin.username,
+      password: newPassword || admin.password
+    };
+    if (updatedAdmin.username !== admin.username) {
+      deleteUser(admin.username);
     }
-    
-    // Save updated users back to localStorage
-    localStorage.setItem('users', JSON.stringify(users));
+    saveUser(updatedAdmin);
     
     toast({
       title: "Credentials updated",
@@ -214,6 +203,12 @@ const AdminSettings: React.FC = () => {
           </form>
         </CardContent>
       </Card>
+      
+      <SchedulingPreferences />
+      
+      <BackupRestore />
+      
+      <StorageIssues />
     </div>
   );
 };
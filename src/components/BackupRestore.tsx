@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { AlertCircle, Download, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  BACKUP_SECTION_LABELS,
+  BackupContents,
+  BackupSection,
+  BackupValidationError,
+  RestoreAction,
+  RestoreMode,
+  RestorePreview,
+  createBackupArchive,
+  previewRestore,
+  readBackupArchive,
+  restoreBackup
+} from '@/utils/backupUtils';
+
+const ACTION_LABELS: Record<RestoreAction, string> = {
+  add: 'Added',
+  replace: 'Replaced',
+  unchanged: 'Unchanged',
+  conflict: 'Conflict',
+  remove: 'Removed'
+};
+
+const ACTION_STYLES: Record<RestoreAction, string> = {
+  add: 'bg-green-50 text-green-700 hover:bg-green-50',
+  replace: 'bg-blue-50 text-blue-700 hover:bg-blue-50',
+  unchanged: '',
+  conflict: 'bg-amber-50 text-amber-700 hover:bg-amber-50',
+  remove: 'bg-red-50 text-red-700 hover:bg-red-50'
+};
+
+const ACTIONS: RestoreAction[] = ['add', 'replace', 'conflict', 'remove', 'unchanged'];
+
+// Export every collection and setting as one JSON archive, and restore one with a preview
+const BackupRestore: React.FC = () => {
+  const { toast } = useToast();
+  const { username } = useAuth();
+  const [contents, setContents] = useState<BackupContents | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [problems, setProblems] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const preview = useMemo(() => contents && previewRestore(contents, mode), [contents, mode]);
+
+  const handleExport = () => {
+    const archive = createBackupArchive();
+    const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `timetable-backup-${archive.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Backup exported",
+      description: `${archive.collections.timetables.length} timetables, ${archive.collections.subjects.length} subjects and ${archive.collections.faculty.length} faculty saved to ${link.download}`,
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setContents(null);
+    setProblems([]);
+    setFileName(file?.name || '');
+    if (!file) return;
+
+    try {
+      setContents(readBackupArchive(await file.text()));
+    } catch (error) {
+      setProblems(error instanceof BackupValidationError
+        ? error.problems
+        : [error instanceof Error ? error.message : 'The file could not be read.']);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!contents) return;
+
+    let result: RestorePreview;
+    try {
+      result = await restoreBackup(contents, mode, username || undefined);
+    } catch (error) {
+      toast({
+        title: "Backup not fully restored",
+        description: error instanceof Error ? error.message : "The backup could not be written",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const count = (action: RestoreAction) => Object.values(result).flat().filter(item => item.action === action).length;
+    toast({
+      title: "Backup restored",
+      description: `${count('add')} added, ${count('replace')} replaced, ${count('remove')} removed, ${count('conflict')} conflicts skipped`,
+    });
+
+    setContents(null);
+    setFileName('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup &amp; Restore</CardTitle>
+        <CardDescription>
+          Export every timetable, subject, faculty member, login, bell schedule and scheduling setting as one
+          JSON file, and restore it later or in another browser. The file includes the admin password but not
+          the history of timetables: a restore adds one revision to each timetable it writes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Button onClick={handleExport} className="flex items-center gap-2">
+          <Download className="h-4 w-4" /> Export Backup
+        </Button>
+
+        <div className="space-y-2">
+          <Label htmlFor="backup-file">Restore from a backup file</Label>
+          <Input id="backup-file" type="file" accept=".json,application/json" onChange={handleFileChange} />
+        </div>
+
+        {problems.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{fileName} cannot be restored</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {problems.map((problem, index) => <li key={index}>{problem}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {contents && preview && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}, exported {new Date(contents.exportedAt).toLocaleString()}
+            </p>
+
+            <RadioGroup
+              value={mode}
+              onValueChange={(value) => setMode(value as RestoreMode)}
+              className="flex flex-row gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="merge" id="restore-merge" />
+                <Label htmlFor="restore-merge">Merge into current data</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="replace" id="restore-replace" />
+                <Label htmlFor="restore-replace">Replace all current data</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="space-y-3">
+              {(Object.keys(BACKUP_SECTION_LABELS) as BackupSection[]).map(section => (
+                <div key={section} className="p-3 rounded-md border border-border space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{BACKUP_SECTION_LABELS[section]}</span>
+                    {ACTIONS.map(action => {
+                      const count = preview[section].filter(item => item.action === action).length;
+                      return count > 0 && (
+                        <Badge key={action} variant="outline" className={ACTION_STYLES[action]}>
+                          {ACTION_LABELS[action]} {count}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                  {preview[section]
+                    .filter(item => item.action !== 'unchanged')
+                    .map(item => (
+                      <div key={`${item.action}-${item.key}`} className="text-sm">
+                        <span className="text-muted-foreground">{ACTION_LABELS[item.action]}:</span> {item.label}
+                        {item.reason && <span className="text-amber-700"> — {item.reason}</span>}
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button className="flex items-center gap-2">
+                  <Upload className="h-4 w-4" /> Restore Backup
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Restore Backup</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {mode === 'replace'
+                      ? 'All current data is replaced by the backup. Records not in the backup are removed.'
+                      : 'Records of the backup are added or replace those with the same id; conflicts are skipped.'}
+                    {' '}Periods per day and scheduling preferences are taken from the backup. Timetables written
+                    get a "Restored from backup" revision; the history of removed ones is deleted.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleRestore}>Restore</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BackupRestore;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -28,31 +28,47 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { 
   YearType, 
   SemesterType, 
   BranchType, 
   Day, 
   FreeHourType, 
+  Subject,
   SubjectTeacherPair,
   TimetableFormData,
   Timetable,
-  TimetableEntry
+  TimetableEntry,
+  TimeSlot
 } from '@/utils/types';
-import { generateTimetable, saveTimetable, countNonLabSubjectsForTeacher, doesTimetableExist } from '@/utils/timetableUtils';
+import { generateTimetableWithReport, generateCandidateTimetables, saveTimetable, countNonLabSubjectsForTeacher, doesTimetableExist, GenerationResult } from '@/utils/timetableUtils';
+import { SchedulingConflict, hitSearchLimit } from '@/utils/timetableSolver';
+import { generateSeed } from '@/utils/seededRandom';
 import { getFaculty } from '@/utils/facultyUtils';
-import { getFilteredSubjects, subjectTeacherPairExists } from '@/utils/subjectsUtils';
+import { getFilteredSubjects, subjectTeacherPairExists, formatSubjectHours, getSubjectHours, DEFAULT_LECTURE_HOURS } from '@/utils/subjectsUtils';
 import { isFacultyAvailableForSubjects, validateSubjectTeacherPairs } from '@/utils/facultyWorkloadUtils';
 import ManualSchedulingGrid from '@/components/ManualSchedulingGrid';
+import GenerationReport from '@/components/timetable/GenerationReport';
+import CandidateComparison from '@/components/timetable/CandidateComparison';
+import { DEFAULT_BELL_SCHEDULE_ID, getBellScheduleForTimetable, getBellSchedules, getLabBlocks, getTeachingPeriods } from '@/utils/bellScheduleUtils';
+import { saveTimetableDraft } from '@/utils/timetableDraftUtils';
+import { FOUR_CONTINUOUS_DAYS, WEEK_DAYS, getShortDayLabel } from '@/utils/dayUtils';
+
+// Lab batches a class can be split into for batch rotation
+const LAB_BATCHES = ['B1', 'B2', 'B3', 'B4'];
 
 interface CreateTimetableFormProps {
   existingTimetable?: Timetable;
   initialMode?: 'auto' | 'manual';
+  // Cell of the manual grid to open at, e.g. a conflict to fix
+  focusCell?: { day: Day; timeSlot: TimeSlot };
 }
 
-const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimetable, initialMode = 'auto' }) => {
+const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimetable, initialMode = 'auto', focusCell }) => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { username } = useAuth();
   const isEditMode = !!existingTimetable;
   
   const [schedulingMode, setSchedulingMode] = useState<'auto' | 'manual'>(initialMode);
@@ -79,14 +95,17 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
       dayOptions: {
         fourContinuousDays: false,
         useCustomDays: false,
-        selectedDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday'] as Day[]
+        selectedDays: FOUR_CONTINUOUS_DAYS
       },
       enableBatchRotation: true,
-      fourthYearSixDays: false
+      fourthYearSixDays: false,
+      bellScheduleId: DEFAULT_BELL_SCHEDULE_ID
     }
   );
   
-  const [availableSubjects, setAvailableSubjects] = useState([]);
+  const [bellSchedules] = useState(() => getBellSchedules());
+  
+  const [availableSubjects, setAvailableSubjects] = useState<Subject[]>([]);
   const [availableFaculty, setAvailableFaculty] = useState([]);
   
   const [newSubject, setNewSubject] = useState('');
@@ -96,12 +115,23 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
   const [multipleTeachers, setMultipleTeachers] = useState(false);
   const [batchNumber, setBatchNumber] = useState('');
   
+  // L-T-P hours for the new pair; empty means the default
+  const [lectureHours, setLectureHours] = useState('');
+  const [tutorialHours, setTutorialHours] = useState('');
+  const [practicalHours, setPracticalHours] = useState('');
+  // Periods of one lab session; empty means all practical hours in one session
+  const [labDuration, setLabDuration] = useState('');
+  
   const [newFreeHourType, setNewFreeHourType] = useState<FreeHourType>('Library');
   const [customFreeHourType, setCustomFreeHourType] = useState('');
   const [mergeFreeSlots, setMergeFreeSlots] = useState(false);
+  // Periods a week for the new free hour; empty takes the periods left over
+  const [freeHourQuota, setFreeHourQuota] = useState('');
+  const [preferFreeAtEnd, setPreferFreeAtEnd] = useState(false);
   
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [currentStep, setCurrentStep] = useState(0);
+  // Opening at a cell skips straight to the scheduling step
+  const [currentStep, setCurrentStep] = useState(focusCell ? 2 : 0);
   
   const [manualTimetableEntries, setManualTimetableEntries] = useState<TimetableEntry[]>([]);
   
@@ -109,6 +139,17 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
   
   const [facultyWorkload, setFacultyWorkload] = useState({});
   
+  const [generationConflicts, setGenerationConflicts] = useState<SchedulingConflict[]>([]);
+  // Auto-generated timetable waiting for the admin to review its report and save it
+  const [pendingGeneration, setPendingGeneration] = useState<GenerationResult | null>(null);
+  // Number of candidate timetables generated per click, and the candidates to compare
+  const [candidateCount, setCandidateCount] = useState(3);
+  const [candidates, setCandidates] = useState<GenerationResult[]>([]);
+  // Form data the pending generation and candidates were built from
+  const generatedFrom = useRef<TimetableFormData | null>(null);
+  // Note kept with the revision saved for the change
+  const [revisionNote, setRevisionNote] = useState('');
+  
   useEffect(() => {
     const faculty = getFaculty();
     
@@ -126,6 +167,16 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
     setAvailableFaculty(faculty);
   }, []);
 
+  // A generation built from older form data, e.g. other subject-teacher pairs, cannot be saved
+  useEffect(() => {
+    if (generatedFrom.current !== formData) {
+      generatedFrom.current = null;
+      setPendingGeneration(null);
+      setCandidates([]);
+      setGenerationConflicts([]);
+    }
+  }, [formData]);
+
   useEffect(() => {
     if (formData.year && formData.branch) {
       setAvailableSubjects(getFilteredSubjects(
@@ -281,7 +332,11 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
       teacherName: newTeacher,
       teacherNames: teacherNames,
       isLab: isLabSubject,
-      batchNumber: isLabSubject ? batchNumber : undefined
+      batchNumber: isLabSubject ? batchNumber : undefined,
+      lectureHours: isLabSubject ? undefined : parseHours(lectureHours),
+      tutorialHours: isLabSubject ? undefined : parseHours(tutorialHours),
+      practicalHours: parseHours(practicalHours),
+      labDuration: isLabSubject ? parseHours(labDuration) || undefined : undefined
     };
     
     setFormData(prev => ({
@@ -307,6 +362,30 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
     setIsLabSubject(false);
     setMultipleTeachers(false);
     setBatchNumber('');
+    setLectureHours('');
+    setTutorialHours('');
+    setPracticalHours('');
+    setLabDuration('');
+  };
+
+  // Parse an hours input; empty or invalid input falls back to the default
+  const parseHours = (value: string): number | undefined => {
+    const hours = parseInt(value, 10);
+    return isNaN(hours) || hours < 0 ? undefined : hours;
+  };
+
+  // Prefill the L-T-P hours from the subject master when a subject is picked,
+  // derived from its credit hours when it has no L-T-P structure
+  const handleSubjectSelect = (subjectName: string) => {
+    setNewSubject(subjectName);
+    
+    const subject = availableSubjects.find(s => s.name === subjectName);
+    const hours = subject ? getSubjectHours(subject) : undefined;
+    const isTheory = !!subject && !subject.isLab;
+    setLectureHours(hours && isTheory ? hours.lectureHours.toString() : '');
+    setTutorialHours(hours && isTheory ? hours.tutorialHours.toString() : '');
+    setPracticalHours(hours?.practicalHours?.toString() ?? '');
+    setLabDuration(subject?.labDuration?.toString() ?? '');
   };
 
   const handleRemoveSubjectTeacherPair = (id: string) => {
@@ -326,10 +405,13 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
       return;
     }
     
+    const quota = parseInt(freeHourQuota, 10);
     const newFreeHour = {
       type: newFreeHourType,
       customType: newFreeHourType === 'Others' ? customFreeHourType : undefined,
-      mergeSlots: mergeFreeSlots
+      mergeSlots: mergeFreeSlots,
+      weeklyQuota: quota > 0 ? quota : undefined,
+      preferEndOfDay: preferFreeAtEnd
     };
     
     setFormData(prev => ({
@@ -340,6 +422,8 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
     setNewFreeHourType('Library');
     setCustomFreeHourType('');
     setMergeFreeSlots(false);
+    setFreeHourQuota('');
+    setPreferFreeAtEnd(false);
   };
 
   const handleRemoveFreeHour = (index: number) => {
@@ -361,6 +445,22 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
     }));
   };
 
+  // Periods of a shorter day; empty or the full schedule removes the override
+  const handleDayPeriodsChange = (day: Day, value: string) => {
+    const periods = parseInt(value, 10);
+    const fullDay = getTeachingPeriods(getBellScheduleForTimetable(formData)).length;
+    
+    setFormData(prev => {
+      const dayPeriods = { ...prev.dayPeriods };
+      if (isNaN(periods) || periods >= fullDay) {
+        delete dayPeriods[day];
+      } else {
+        dayPeriods[day] = Math.max(1, periods);
+      }
+      return { ...prev, dayPeriods };
+    });
+  };
+
   const toggleCustomDay = (day: Day) => {
     setFormData(prev => {
       const isSelected = prev.dayOptions.selectedDays.includes(day);
@@ -430,60 +530,144 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
     setCurrentStep(prev => prev - 1);
   };
 
-  const handleGenerateTimetable = () => {
+  const handleSeedChange = (value: string) => {
+    const seed = parseInt(value, 10);
+    setFormData(prev => ({ ...prev, seed: isNaN(seed) ? undefined : seed }));
+  };
+
+  const handleRegenerateWithNewSeed = () => {
+    const reseededFormData = { ...formData, seed: generateSeed() };
+    setFormData(reseededFormData);
+    handleGenerateTimetable(reseededFormData);
+  };
+
+  // Keep the form for "Generate All Timetables", which solves several classes together
+  const handleSaveDraft = () => {
     if (!validateCurrentStep()) {
       return;
     }
     
+    saveTimetableDraft(formData);
+    toast({
+      title: "Draft saved",
+      description: "Generate it together with other classes from Generate All Timetables",
+    });
+    navigate('/generate-all');
+  };
+
+  const saveGeneratedTimetable = async (newTimetable: Timetable) => {
+    if (isEditMode && existingTimetable) {
+      newTimetable.id = existingTimetable.id;
+      newTimetable.createdAt = existingTimetable.createdAt;
+      newTimetable.facultyDetails = existingTimetable.facultyDetails || {};
+    }
+    
+    const saveResult = await saveTimetable(newTimetable, {
+      author: username || undefined,
+      note: revisionNote || (isEditMode ? undefined : "Created")
+    });
+    
+    if (!saveResult.success) {
+      toast({
+        title: "Error",
+        description: saveResult.message || "An error occurred while saving the timetable.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    toast({
+      title: isEditMode ? "Timetable updated" : "Timetable created",
+      description: isEditMode 
+        ? "The timetable has been successfully updated" 
+        : "The timetable has been successfully generated",
+    });
+    
+    navigate(`/view-timetable/${newTimetable.id}`);
+  };
+
+  // Keep the locked cells of the manual grid and generate everything else
+  const handleFillUnlockedCells = () => {
+    if (!validateCurrentStep()) {
+      return;
+    }
+    
+    setGenerationConflicts([]);
+    setPendingGeneration(null);
+    setCandidates([]);
+    
     try {
-      let newTimetable;
+      generatedFrom.current = formData;
+      const result = generateTimetableWithReport(formData, {
+        excludeTimetableId: existingTimetable?.id,
+        lockedEntries: manualTimetableEntries.filter(entry => entry.isLocked)
+      });
       
+      setPendingGeneration(result);
+      setGenerationConflicts(result.report.conflicts);
+    } catch (error) {
+      console.error("Error generating timetable:", error);
+      toast({
+        title: "Error",
+        description: "An error occurred while generating the timetable. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleGenerateTimetable = async (generationData: TimetableFormData = formData) => {
+    if (!validateCurrentStep()) {
+      return;
+    }
+    
+    setGenerationConflicts([]);
+    setPendingGeneration(null);
+    setCandidates([]);
+    
+    try {
       if (schedulingMode === 'auto') {
-        newTimetable = generateTimetable(formData);
-      } else {
-        if (manualTimetableEntries.length === 0) {
+        // Auto-generated timetables are saved only after the admin reviews the report.
+        // Cells locked in the timetable being edited are kept.
+        generatedFrom.current = generationData;
+        const results = generateCandidateTimetables(generationData, candidateCount, {
+          excludeTimetableId: existingTimetable?.id,
+          lockedEntries: existingTimetable?.entries.filter(entry => entry.isLocked)
+        });
+        
+        // Several candidates are compared first; a single one goes straight to review
+        if (results.length > 1) {
+          setCandidates(results);
+        } else {
+          setPendingGeneration(results[0]);
+          setGenerationConflicts(results[0].report.conflicts);
+        }
+        
+        if (results.every(result => !result.report.complete)) {
           toast({
-            title: "Manual scheduling incomplete",
-            description: "Please complete the manual scheduling before generating the timetable",
+            title: "Timetable is incomplete",
+            description: "Some subjects could not be fully placed. See the report below.",
             variant: "destructive",
           });
-          return;
         }
-        
-        newTimetable = {
-          id: uuidv4(),
-          formData: formData,
-          entries: manualTimetableEntries,
-          createdAt: new Date().toISOString(),
-          facultyDetails: {} // Adding missing property
-        };
-      }
-      
-      if (isEditMode && existingTimetable) {
-        newTimetable.id = existingTimetable.id;
-        newTimetable.createdAt = existingTimetable.createdAt;
-        newTimetable.facultyDetails = existingTimetable.facultyDetails || {};
+        return;
       }
       
-      const saveResult = saveTimetable(newTimetable);
-      
-      if (!saveResult.success) {
+      if (manualTimetableEntries.length === 0) {
         toast({
-          title: "Error",
-          description: saveResult.message || "An error occurred while saving the timetable.",
+          title: "Manual scheduling incomplete",
+          description: "Please complete the manual scheduling before generating the timetable",
           variant: "destructive",
         });
         return;
       }
       
-      toast({
-        title: isEditMode ? "Timetable updated" : "Timetable created",
-        description: isEditMode 
-          ? "The timetable has been successfully updated" 
-          : "The timetable has been successfully generated",
+      await saveGeneratedTimetable({
+        id: uuidv4(),
+        formData: formData,
+        entries: manualTimetableEntries,
+        createdAt: new Date().toISOString(),
+        facultyDetails: {} // Adding missing property
       });
-      
-      navigate(`/view-timetable/${newTimetable.id}`);
     } catch (error) {
       console.error("Error generating timetable:", error);
       toast({
@@ -545,6 +729,14 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
     );
   };
 
+  // Continue with the candidate the admin picked from the comparison
+  const handlePickCandidate = (index: number) => {
+    const result = candidates[index];
+    setPendingGeneration(result);
+    setGenerationConflicts(result.report.conflicts);
+    setCandidates([]);
+  };
+
   const handleFreeHourTypeChange = (value: string) => {
     setNewFreeHourType(value as FreeHourType);
   };
@@ -694,6 +886,45 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                     />
                     {errors.roomNumber && <p className="text-sm text-destructive">{errors.roomNumber}</p>}
                   </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="bellScheduleId">Bell Schedule</Label>
+                    <Select 
+                      value={formData.bellScheduleId || DEFAULT_BELL_SCHEDULE_ID} 
+                      onValueChange={(value) => handleSelectChange('bellScheduleId', value)}
+                    >
+                      <SelectTrigger id="bellScheduleId">
+                        <SelectValue placeholder="Select Bell Schedule" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {bellSchedules.map(schedule => (
+                          <SelectItem key={schedule.id} value={schedule.id}>{schedule.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label>Periods per Day</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Shorten a day to its first periods, e.g. 4 for a Saturday that ends at lunch. Leave a day empty to use the whole bell schedule.
+                  </p>
+                  <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                    {WEEK_DAYS.map(day => (
+                      <div key={day} className="space-y-1">
+                        <Label htmlFor={`dayPeriods-${day}`} className="text-xs">{day}</Label>
+                        <Input
+                          id={`dayPeriods-${day}`}
+                          type="number"
+                          min={1}
+                          value={formData.dayPeriods?.[day] ?? ''}
+                          onChange={(e) => handleDayPeriodsChange(day, e.target.value)}
+                          placeholder={String(getTeachingPeriods(getBellScheduleForTimetable(formData)).length)}
+                        />
+                      </div>
+                    ))}
+                  </div>
                 </div>
                 
                 <Separator />
@@ -779,17 +1010,19 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                           This is required for proper scheduling of lab sessions.
                         </li>
                         <li>
-                          Each non-lab subject will receive 4 periods per week (either as individual hours or as 2-hour blocks).
+                          Each non-lab subject receives its lecture and tutorial hours per week (L-T-P from Manage Subjects, 4 lectures if not set).
+                          Hours can be overridden for this timetable below.
                         </li>
                         <li>
-                          Lab subjects will be scheduled in merged time slots: 9:30-1:00, 10:20-1:00, or 2:00-4:30.
+                          Lab subjects will be scheduled in the lab blocks of the bell schedule: {getLabBlocks(getBellScheduleForTimetable(formData)).map(block => block.timeSlot).join(', ')}.
                         </li>
                         <li>
                           Each teacher can be assigned a maximum of 3 non-lab subjects <strong>across all timetables</strong>.
                           Lab subjects do not count towards this limit.
                         </li>
                         <li>
-                          To use batch rotation for labs, create lab subjects with matching names but different batch numbers (B1/B2).
+                          To use batch rotation for labs, create each lab subject for every batch (B1, B2, ...) with its batch number.
+                          Batches rotate round-robin so every batch does every lab once a week, with the labs running in parallel.
                         </li>
                         <li>
                           Lab subjects can have up to 2 teachers assigned to them.
@@ -822,7 +1055,7 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                       <Label htmlFor="newSubject">Subject</Label>
                       <Select
                         value={newSubject}
-                        onValueChange={setNewSubject}
+                        onValueChange={handleSubjectSelect}
                       >
                         <SelectTrigger id="newSubject">
                           <SelectValue placeholder="Select Subject" />
@@ -875,8 +1108,9 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                                 <SelectValue placeholder="Select Batch" />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="B1">B1</SelectItem>
-                                <SelectItem value="B2">B2</SelectItem>
+                                {LAB_BATCHES.map(batch => (
+                                  <SelectItem key={batch} value={batch}>{batch}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
@@ -919,6 +1153,56 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                     )}
                   </div>
                   
+                  <div className="grid grid-cols-4 gap-4 mb-4 max-w-xl">
+                    <div className="space-y-2">
+                      <Label htmlFor="lectureHours">Lectures / week</Label>
+                      <Input
+                        id="lectureHours"
+                        type="number"
+                        min="0"
+                        value={isLabSubject ? '' : lectureHours}
+                        onChange={(e) => setLectureHours(e.target.value)}
+                        placeholder={isLabSubject ? '0' : DEFAULT_LECTURE_HOURS.toString()}
+                        disabled={isLabSubject}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="tutorialHours">Tutorials / week</Label>
+                      <Input
+                        id="tutorialHours"
+                        type="number"
+                        min="0"
+                        value={isLabSubject ? '' : tutorialHours}
+                        onChange={(e) => setTutorialHours(e.target.value)}
+                        placeholder="0"
+                        disabled={isLabSubject}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="practicalHours">Practicals / week</Label>
+                      <Input
+                        id="practicalHours"
+                        type="number"
+                        min="0"
+                        value={practicalHours}
+                        onChange={(e) => setPracticalHours(e.target.value)}
+                        placeholder="0"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="labDuration">Periods / lab session</Label>
+                      <Input
+                        id="labDuration"
+                        type="number"
+                        min="1"
+                        value={isLabSubject ? labDuration : ''}
+                        onChange={(e) => setLabDuration(e.target.value)}
+                        placeholder={isLabSubject ? (practicalHours || 'All') : '-'}
+                        disabled={!isLabSubject}
+                      />
+                    </div>
+                  </div>
+                  
                   <div className="flex justify-end">
                     <Button 
                       onClick={handleAddSubjectTeacherPair}
@@ -957,6 +1241,9 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                                 ) : (
                                   <span className="text-sm text-gray-600">{pair.teacherName}</span>
                                 )}
+                                <span className="ml-2 text-xs text-gray-500">
+                                  L-T-P {formatSubjectHours(pair)}
+                                </span>
                               </span>
                             </div>
                             <Button
@@ -1075,6 +1362,27 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                               />
                               <Label htmlFor="mergeFreeSlots">Merge consecutive slots</Label>
                             </div>
+                            
+                            <div className="space-y-2">
+                              <Label htmlFor="freeHourQuota">Periods per week</Label>
+                              <Input
+                                id="freeHourQuota"
+                                type="number"
+                                min={1}
+                                value={freeHourQuota}
+                                onChange={(e) => setFreeHourQuota(e.target.value)}
+                                placeholder="Any left over"
+                              />
+                            </div>
+                            
+                            <div className="flex items-center space-x-2 pt-7">
+                              <Checkbox 
+                                id="preferFreeAtEnd" 
+                                checked={preferFreeAtEnd} 
+                                onCheckedChange={(checked) => setPreferFreeAtEnd(checked === true)}
+                              />
+                              <Label htmlFor="preferFreeAtEnd">Prefer last periods of the day</Label>
+                            </div>
                           </div>
                           
                           <div className="flex justify-end">
@@ -1103,6 +1411,16 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                                           Merged
                                         </span>
                                       )}
+                                      {freeHour.weeklyQuota && (
+                                        <span className="ml-2 px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 text-xs">
+                                          {freeHour.weeklyQuota} / week
+                                        </span>
+                                      )}
+                                      {freeHour.preferEndOfDay && (
+                                        <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs">
+                                          End of day
+                                        </span>
+                                      )}
                                     </div>
                                     <Button
                                       variant="ghost"
@@ -1124,6 +1442,49 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                         </CardContent>
                       </Card>
                       
+                      <Card className="border-dashed">
+                        <CardHeader className="p-4">
+                          <CardTitle className="text-base">Generation Seed</CardTitle>
+                          <CardDescription>
+                            The same seed and settings always produce the same timetable. Leave empty for a random seed.
+                            When several candidates are generated, each next candidate uses the next seed.
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent className="p-4 pt-0">
+                          <div className="flex items-end gap-4">
+                            <div className="space-y-2 flex-1">
+                              <Label htmlFor="seed">Seed</Label>
+                              <Input
+                                id="seed"
+                                type="number"
+                                value={formData.seed ?? ''}
+                                onChange={(e) => handleSeedChange(e.target.value)}
+                                placeholder="Random"
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="candidateCount">Candidates to compare</Label>
+                              <Select
+                                value={String(candidateCount)}
+                                onValueChange={(value) => setCandidateCount(parseInt(value, 10))}
+                              >
+                                <SelectTrigger id="candidateCount" className="w-24">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {[1, 2, 3, 4, 5].map(count => (
+                                    <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <Button variant="outline" onClick={handleRegenerateWithNewSeed}>
+                              Regenerate with new seed
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                      
                       {formData.year === '4th Year' && (
                         <Card className="border-dashed">
                           <CardHeader className="p-4">
@@ -1164,17 +1525,17 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                               
                               {formData.dayOptions.useCustomDays && (
                                 <div className="grid grid-cols-3 md:grid-cols-6 gap-2 mt-2">
-                                  {['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map((day) => (
+                                  {WEEK_DAYS.map((day) => (
                                     <div 
                                       key={day} 
                                       className={`flex items-center justify-center p-2 rounded border cursor-pointer transition-colors ${
-                                        formData.dayOptions.selectedDays.includes(day as Day)
+                                        formData.dayOptions.selectedDays.includes(day)
                                           ? 'bg-primary text-primary-foreground'
                                           : 'bg-background hover:bg-muted'
                                       }`}
-                                      onClick={() => toggleCustomDay(day as Day)}
+                                      onClick={() => toggleCustomDay(day)}
                                     >
-                                      {day.substring(0, 3)}
+                                      {getShortDayLabel(day)}
                                     </div>
                                   ))}
                                 </div>
@@ -1208,7 +1569,19 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
                             freeHours={formData.freeHours}
                             dayOptions={formData.dayOptions}
                             branch={formData.branch}
+                            bellScheduleId={formData.bellScheduleId}
+                            dayPeriods={formData.dayPeriods}
+                            focusCell={focusCell}
+                            timetableId={existingTimetable?.id}
                           />
+                          <div className="flex items-center justify-between mt-4">
+                            <p className="text-sm text-muted-foreground">
+                              Lock the cells you want to keep, then let the generator fill the rest.
+                            </p>
+                            <Button variant="outline" onClick={handleFillUnlockedCells}>
+                              Fill Unlocked Cells
+                            </Button>
+                          </div>
                         </CardContent>
                       </Card>
                     </div>
@@ -1217,11 +1590,66 @@ const CreateTimetableForm: React.FC<CreateTimetableFormProps> = ({ existingTimet
               </CardContent>
             </Card>
             
+            {isEditMode && (
+              <div className="space-y-2 mt-4">
+                <Label htmlFor="revisionNote">Revision note (optional)</Label>
+                <Input
+                  id="revisionNote"
+                  value={revisionNote}
+                  onChange={(e) => setRevisionNote(e.target.value)}
+                  placeholder="What changed and why, shown in the timetable history"
+                />
+              </div>
+            )}
+            
+            {generationConflicts.length > 0 && (
+              <Alert variant="destructive" className="mt-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {hitSearchLimit(generationConflicts)
+                    ? 'No complete timetable found within the search limit'
+                    : 'No complete timetable is possible'}
+                </AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1 mt-2">
+                    {generationConflicts.map((conflict, index) => (
+                      <li key={index}>{conflict.message}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            
+            {candidates.length > 0 && (
+              <CandidateComparison
+                candidates={candidates}
+                onPick={handlePickCandidate}
+                onDiscard={() => setCandidates([])}
+              />
+            )}
+            
+            {pendingGeneration && (
+              <GenerationReport
+                report={pendingGeneration.report}
+                saveLabel={isEditMode ? "Save Changes" : "Save Timetable"}
+                onSave={() => saveGeneratedTimetable(pendingGeneration.timetable)}
+                onDiscard={() => {
+                  setPendingGeneration(null);
+                  setGenerationConflicts([]);
+                }}
+              />
+            )}
+            
             <div className="flex justify-between mt-4">
               <Button variant="outline" onClick={handlePrevStep}>Previous Step</Button>
-              <Button onClick={handleGenerateTimetable}>
-                {isEditMode ? "Update Timetable" : "Generate Timetable"}
-              </Button>
+              <div className="flex gap-2">
+                {!isEditMode && schedulingMode === 'auto' && (
+                  <Button variant="outline" onClick={handleSaveDraft}>Save as Draft</Button>
+                )}
+                <Button onClick={() => handleGenerateTimetable()}>
+                  {isEditMode ? "Update Timetable" : "Generate Timetable"}
+                </Button>
+              </div>
             </div>
           </TabsContent>
         </Tabs>
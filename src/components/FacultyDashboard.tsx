@@ -17,6 +17,7 @@ import { Calendar, FileDown, Info, Printer } from 'lucide-react';
 // Import custom hooks and utilities
 import { useAuth } from '@/contexts/AuthContext'; // For authentication context
 import { getTimetablesForFaculty } from '@/utils/timetableUtils'; // Timetable data utilities
+import { isTaughtBy } from '@/utils/facultyLabUtils'; // Matching faculty to their classes
 import { Timetable } from '@/utils/types'; // Type definitions
 import TimetableView from './TimetableView'; // Custom timetable view component
 import { useToast } from '@/hooks/use-toast'; // Toast notification system
@@ -40,33 +41,48 @@ const FacultyDashboard: React.FC = () => {
   // State for tracking the currently selected timetable
   const [selectedTimetable, setSelectedTimetable] = useState<Timetable | null>(null);
   
+  // State for tracking whether the timetables are still being read
+  const [loading, setLoading] = useState<boolean>(!!username);
+  
   // Effect hook to load timetables when username changes
 useEffect(() => {
   if (username) {
     console.log("Fetching timetables for faculty:", username);
     
-    // Fetch all timetables assigned to this faculty member
-    const facultyTimetables = getTimetablesForFaculty(username);
-    console.log("Found timetables:", facultyTimetables);
+    setLoading(true);
     
-    // Show notification if no timetables are found
-    if (facultyTimetables.length === 0) {
+    // Fetch all timetables assigned to this faculty member
+    getTimetablesForFaculty(username).then(facultyTimetables => {
+      // Show notification if no timetables are found
+      if (facultyTimetables.length === 0) {
+        toast({
+          title: "No timetables found",
+          description: `No timetables were found for faculty: ${username}`,
+          variant: "default",
+        });
+      }
+      
+      // Update timetables state
+      setTimetables(facultyTimetables);
+      
+      // Set the first timetable as selected by default if available
+      if (facultyTimetables.length > 0) {
+        setSelectedTimetable(facultyTimetables[0]);
+      } else {
+        setSelectedTimetable(null);
+      }
+      setLoading(false);
+    }).catch(error => {
+      console.error("Error loading timetables:", error);
       toast({
-        title: "No timetables found",
-        description: `No timetables were found for faculty: ${username}`,
-        variant: "default",
+        title: "Error",
+        description: "Your timetables could not be loaded. Please reload the page.",
+        variant: "destructive",
       });
-    }
-    
-    // Update timetables state
-    setTimetables(facultyTimetables);
-    
-    // Set the first timetable as selected by default if available
-    if (facultyTimetables.length > 0) {
-      setSelectedTimetable(facultyTimetables[0]);
-    } else {
+      setTimetables([]);
       setSelectedTimetable(null);
-    }
+      setLoading(false);
+    });
   }
 }, [username, toast]); // Dependencies: runs when username or toast changes
   
@@ -217,7 +233,13 @@ const handlePrint = () => {
         </div>
       </div>
       
-      {timetables.length === 0 ? (
+      {loading ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground p-6">Loading your timetables...</p>
+          </CardContent>
+        </Card>
+      ) : timetables.length === 0 ? (
         <Card>
           <CardContent className="pt-6">
             <div className="flex flex-col items-center justify-center text-center p-6 space-y-3">
@@ -259,7 +281,7 @@ const handlePrint = () => {
                     </div>
                     <div>
                       <span className="font-medium">Classes:</span> {timetable.entries.filter(entry => 
-                        entry.teacherName === username && !entry.isBreak && !entry.isLunch
+                        isTaughtBy(entry, username) && !entry.isBreak && !entry.isLunch
                       ).length}
                     </div>
                   </div>
@@ -1,7 +1,9 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { 
   Select, 
   SelectContent, 
@@ -10,7 +12,24 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { Lock, Unlock, GripVertical, Undo2, Redo2 } from 'lucide-react';
+import { DragDropContext, Draggable, Droppable, DropResult } from '@hello-pangea/dnd';
+import { v4 as uuidv4 } from 'uuid';
 import { getTimetables, isTeacherAvailable } from "@/utils/timetableUtils";
+import {
+  expandTimeSlot,
+  getBellScheduleForDay,
+  getBellScheduleForTimetable,
+  getLabBlocks,
+  getLabRuns,
+  getSlotKind,
+  getTeachingPeriods,
+  timeSlotsOverlap
+} from "@/utils/bellScheduleUtils";
+import { isFacultyUnavailable } from "@/utils/facultyUtils";
+import { formatTeacherNames, getTeacherNames, isTaughtBy } from "@/utils/facultyLabUtils";
+import { getLabDuration } from "@/utils/subjectsUtils";
+import { FOUR_CONTINUOUS_DAYS, getTimetableDays } from "@/utils/dayUtils";
 import { 
   TimetableEntry, 
   SubjectTeacherPair, 
@@ -26,9 +45,31 @@ import {
  * 
  * A React component that provides a grid interface for manual timetable scheduling.
  * Allows users to assign subjects, teachers, and free hours to specific time slots.
+ * Labs are placed as blocks of consecutive periods, one or two batches side by side.
+ * Subjects can be dragged from a palette into cells, and cells dragged onto each other to swap.
  * Handles teacher conflicts and maintains schedule consistency.
  */
 
+// A lab placed in a block; its day and time slot come from the block
+type LabPlacement = Omit<TimetableEntry, 'day' | 'timeSlot'>;
+
+// Select value for a block without a second batch
+const NO_SECOND_BATCH = 'none';
+
+// Default for initialEntries; a shared array so the grid is not rebuilt on every render
+const NO_ENTRIES: TimetableEntry[] = [];
+
+// A step of the editing session: what was changed and the entries it left
+interface GridChange {
+  label: string;
+  entries: TimetableEntry[];
+}
+
+// Drag and drop ids: a cell is "cell|<day>|<time slot>"; a dragged item is a palette
+// pair "pair|<pair id>", a cell's entry "entry|<day>|<time slot>" or a lab block "lab|<group id>"
+const DND_SEPARATOR = '|';
+const getCellDroppableId = (day: Day, timeSlot: TimeSlot): string => ['cell', day, timeSlot].join(DND_SEPARATOR);
+
 interface ManualSchedulingGridProps {
   // List of subject-teacher pairs available for scheduling
   subjectTeacherPairs: SubjectTeacherPair[];
@@ -48,12 +89,20 @@ interface ManualSchedulingGridProps {
   };
   // Branch/Department (optional)
   branch?: BranchType;
+  // Bell schedule the grid rows follow (optional, defaults to the standard schedule)
+  bellScheduleId?: string;
+  // Periods of shorter days, e.g. { Saturday: 4 } (optional)
+  dayPeriods?: Partial<Record<Day, number>>;
+  // Cell to highlight and scroll to, e.g. when opened from the conflicts page (optional)
+  focusCell?: { day: Day; timeSlot: TimeSlot };
+  // Stored timetable being edited, whose saved entries are not clashes with other classes (optional)
+  timetableId?: string;
 }
 
 const ManualSchedulingGrid: React.FC<ManualSchedulingGridProps> = ({ 
   subjectTeacherPairs, 
   year,
-  initialEntries = [],
+  initialEntries = NO_ENTRIES,
   onEntriesChange,
   freeHours = [
     { type: 'Library' as FreeHourType },
@@ -63,62 +112,73 @@ const ManualSchedulingGrid: React.FC<ManualSchedulingGridProps> = ({
   dayOptions = {
     fourContinuousDays: false,
     useCustomDays: false,
-    selectedDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday'] as Day[]
+    selectedDays: FOUR_CONTINUOUS_DAYS
   },
-  branch
+  branch,
+  bellScheduleId,
+  dayPeriods,
+  focusCell,
+  timetableId
 }) => {
   const [entries, setEntries] = useState<TimetableEntry[]>([]);
   const { toast } = useToast();
   
-  // Dynamic day selection based on year and options
-  let days: Day[];
+  // Lab block placement: the labs of up to two batches, the start of the block and its length
+  const [labPairIds, setLabPairIds] = useState<[string, string]>(['', NO_SECOND_BATCH]);
+  const [labDay, setLabDay] = useState<Day | ''>('');
+  const [labStart, setLabStart] = useState<TimeSlot | ''>('');
+  const [labLength, setLabLength] = useState('');
+  // Lab block being moved with the placement controls
+  const [movingGroupId, setMovingGroupId] = useState<string | null>(null);
   
-  if (year === '4th Year') {
-    // Special handling for 4th year schedule
-    days = dayOptions.useCustomDays 
-      ? dayOptions.selectedDays     // Use custom selected days
-      : dayOptions.fourContinuousDays 
-        ? ['Monday', 'Tuesday', 'Wednesday', 'Thursday'] as Day[]  // 4 continuous days
-        : ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as Day[];  // Full week
-  } else {
-    // Regular 6-day schedule for other years
-    days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as Day[];
-  }
-    
-  // Define standard time slots with breaks and lunch
-  const timeSlots: TimeSlot[] = [
-    '9:30-10:20',   // 1st period
-    '10:20-11:10',  // 2nd period
-    '11:10-11:20',  // Morning break
-    '11:20-12:10',  // 3rd period
-    '12:10-1:00',   // 4th period
-    '1:00-2:00',    // Lunch break
-    '2:00-2:50',    // 5th period
-    '2:50-3:40',    // 6th period
-    '3:40-4:30',    // 7th period
-    '4:30-5:20'     // 8th period
-  ];
+  // Changes of this editing session; historyIndex is the step shown in the grid.
+  // Undone steps are kept for redo until a new change is made.
+  const [history, setHistory] = useState<GridChange[]>([]);
+  const [historyIndex, setHistoryIndex] = useState(0);
+  // Entries last handed to onEntriesChange; they come back as initialEntries
+  const reportedEntries = useRef<TimetableEntry[]>();
+  // Days, bell schedule, year and shorter days (the periods of each day) the grid was last built for
+  const builtLayout = useRef<{
+    days: Day[];
+    bellScheduleId?: string;
+    year: YearType;
+    dayPeriods?: Partial<Record<Day, number>>;
+  }>();
+  // Grid table, and whether it has been scrolled to the focused cell
+  const tableRef = useRef<HTMLTableElement>(null);
+  const scrolledToFocus = useRef(false);
   
-  // Time slot order mapping for sorting and comparison
-  const timeOrder: Record<TimeSlot, number> = {
-    '9:30-10:20': 0,
-    '10:20-11:10': 1,
-    '11:10-11:20': 2,  // Break
-    '11:20-12:10': 3,
-    '12:10-1:00': 4,
-    '1:00-2:00': 5,    // Lunch
-    '2:00-2:50': 6,
-    '2:50-3:40': 7,
-    '3:40-4:30': 8,
-    '4:30-5:20': 9,
-    // Special slots for lab sessions
-    '9:30-1:00': 10,
-    '10:20-1:00': 11,
-    '2:00-4:30': 12
-  };
+  // Dynamic day selection based on year and options
+  const days = useMemo<Day[]>(() => getTimetableDays({ year, dayOptions }), [year, dayOptions]);
+    
+  // Time slots, breaks and lunch come from the bell schedule
+  const schedule = getBellScheduleForTimetable({ bellScheduleId, year });
+  const timeSlots: TimeSlot[] = schedule.slots.map(slot => slot.timeSlot);
+  const teachingPeriods = getTeachingPeriods(schedule);
+  // Schedule of a day, shorter on days with fewer periods
+  const getDaySchedule = (day: Day) => getBellScheduleForDay({ bellScheduleId, year, dayPeriods }, day);
+  const getDayTimeSlots = (day: Day): TimeSlot[] => getDaySchedule(day).slots.map(slot => slot.timeSlot);
+  const isSlotOfDay = (day: Day, timeSlot: TimeSlot): boolean => getDayTimeSlots(day).includes(timeSlot);
   
-  // Initialize grid entries from existing data or create empty grid
+  const labPairs = subjectTeacherPairs.filter(pair => pair.isLab);
+  
+  // Initialize grid entries from existing data or create empty grid.
+  // The session history starts over whenever the grid is rebuilt.
   useEffect(() => {
+    // Our own entries handed back by the parent need no rebuild
+    const layoutChanged = builtLayout.current?.days !== days ||
+      builtLayout.current?.bellScheduleId !== bellScheduleId ||
+      builtLayout.current?.year !== year ||
+      builtLayout.current?.dayPeriods !== dayPeriods;
+    if (!layoutChanged && initialEntries === reportedEntries.current) return;
+    builtLayout.current = { days, bellScheduleId, year, dayPeriods };
+    
+    const startSession = (gridEntries: TimetableEntry[], label: string) => {
+      setEntries(gridEntries);
+      setHistory([{ label, entries: gridEntries }]);
+      setHistoryIndex(0);
+    };
+    
     if (initialEntries && initialEntries.length > 0) {
       console.log("Using existing entries:", initialEntries.length);
       
@@ -129,9 +189,9 @@ const ManualSchedulingGrid: React.FC<ManualSchedulingGridProps> = ({
       
       // Create grid with existing entries or empty slots
       days.forEach(day => {
-        timeSlots.forEach(timeSlot => {
+        getDayTimeSlots(day).forEach(timeSlot => {
           const existingEntry = filteredEntries.find(
-            entry => entry.day === day && entry.timeSlot === timeSlot
+            entry => !entry.isLab && entry.day === day && entry.timeSlot === timeSlot
           );
           
           if (existingEntry) {
@@ -146,7 +206,15 @@ const ManualSchedulingGrid: React.FC<ManualSchedulingGridProps> = ({
         });
       });
       
-      setEntries(initialGridEntries);
+      // Labs are kept as blocks, also those of a single period; labs generated
+      // without a group share one per block so they move and clear together
+      filteredEntries
+        .filter(entry => entry.isLab)
+        .forEach(entry => initialGridEntries.push(
+          entry.labGroupId ? entry : { ...entry, labGroupId: `${entry.day}-${entry.timeSlot}` }
+        ));
+      
+      startSession(initialGridEntries, 'Opened timetable');
       return;
     }
     
@@ -154,7 +222,7 @@ const ManualSchedulingGrid: React.FC<ManualSchedulingGridProps> = ({
     const initialGridEntries: TimetableEntry[] = [];
     
     days.forEach(day => {
-      timeSlots.forEach(timeSlot => {
+      getDayTimeSlots(day).forEach(timeSlot => {
         initialGridEntries.push({
           day,
           timeSlot,
@@ -163,33 +231,305 @@ const ManualSchedulingGrid: React.FC<ManualSchedulingGridProps> = ({
       });
     });
     
-    setEntries(initialGridEntries);
-  }, [initialEntries, days, year, dayOptions]);
+    startSession(initialGridEntries, 'Empty grid');
+  }, [initialEntries, days, bellScheduleId, year, dayPeriods]);
   
   // Save entries whenever they change
   useEffect(() => {
     if (entries.length > 0) {
+      reportedEntries.current = entries;
       onEntriesChange(entries);
     }
   }, [entries, onEntriesChange]);
+  
+  // Undo with Ctrl+Z, redo with Ctrl+Shift+Z or Ctrl+Y (Cmd on macOS).
+  // Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      if ((event.target as HTMLElement).closest?.('input, textarea, [contenteditable="true"]')) return;
+      
+      const key = event.key.toLowerCase();
+      const step = key === 'z' && !event.shiftKey ? -1 : (key === 'z' || key === 'y') ? 1 : 0;
+      const index = historyIndex + step;
+      if (step === 0 || index < 0 || index >= history.length) return;
+      
+      event.preventDefault();
+      setHistoryIndex(index);
+      setEntries(history[index].entries);
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, historyIndex]);
+  
+  // Bring the focused cell into view once the grid is built
+  useEffect(() => {
+    if (!focusCell || scrolledToFocus.current || entries.length === 0) return;
+    
+    const cell = tableRef.current?.querySelector('[data-focused="true"]');
+    if (cell) {
+      cell.scrollIntoView({ block: 'center' });
+      scrolledToFocus.current = true;
+    }
+  }, [focusCell, entries]);
+  
+  // Show new entries and add them to the session history, dropping undone steps
+  const recordChange = (label: string, nextEntries: TimetableEntry[]) => {
+    setEntries(nextEntries);
+    setHistory(prev => [...prev.slice(0, historyIndex + 1), { label, entries: nextEntries }]);
+    setHistoryIndex(historyIndex + 1);
+  };
+  
+  // Go back or forward to a step of the session history
+  const handleGoToChange = (index: number) => {
+    if (index < 0 || index >= history.length) return;
+    
+    setHistoryIndex(index);
+    setEntries(history[index].entries);
+  };
 
-  // Check for teacher scheduling conflicts
-  const checkTeacherConflicts = (day: Day, timeSlot: TimeSlot, teacherName: string): boolean => {
-    // Check conflicts in current timetable
-    const conflictInCurrentTimetable = entries.some(entry => 
-      entry.day === day && 
-      entry.timeSlot === timeSlot && 
-      entry.teacherName === teacherName &&
-      !entry.isBreak &&
-      !entry.isLunch
+  // Check for teacher scheduling conflicts; returns why a teacher of the entry or pair cannot take the slot.
+  // Ignored entries are the ones being moved, so they do not clash with themselves.
+  const checkTeacherConflicts = (
+    day: Day,
+    timeSlot: TimeSlot,
+    assignment: Pick<TimetableEntry, 'teacherName' | 'teacherNames'>,
+    ignoredEntries: TimetableEntry[] = []
+  ): string | undefined => {
+    // Every teacher of a shared subject or lab must be free
+    for (const teacherName of getTeacherNames(assignment)) {
+      // Times the faculty marked as unavailable
+      if (isFacultyUnavailable(teacherName, day, timeSlot)) {
+        return `${teacherName} is unavailable on ${day} at ${timeSlot}.`;
+      }
+      
+      // Check conflicts in current timetable
+      const conflictInCurrentTimetable = entries.some(entry => 
+        entry.day === day && 
+        timeSlotsOverlap(entry.timeSlot, timeSlot) && 
+        isTaughtBy(entry, teacherName) &&
+        !ignoredEntries.includes(entry) &&
+        !entry.isBreak &&
+        !entry.isLunch
+      );
+      
+      if (conflictInCurrentTimetable) {
+        return `${teacherName} already has a class scheduled at this time slot.`;
+      }
+      
+      // Check conflicts in other timetables; the saved copy of this one is not another class
+      if (!isTeacherAvailable(teacherName, day, timeSlot, timetableId)) {
+        return `${teacherName} already has a class scheduled at this time slot in another class.`;
+      }
+    }
+    
+    return undefined;
+  };
+  
+  // Lab of a subject-teacher pair as placed in a block
+  const toLabPlacement = (pair: SubjectTeacherPair): LabPlacement => ({
+    subjectName: pair.subjectName,
+    teacherName: pair.teacherName,
+    teacherNames: getTeacherNames(pair),
+    batchNumber: pair.batchNumber
+  });
+  
+  // Lab entries of a block, one per batch
+  const getLabGroupEntries = (labGroupId: string): TimetableEntry[] => {
+    return entries.filter(entry => entry.labGroupId === labGroupId);
+  };
+  
+  // Lab blocks covering a period cell, including single-period blocks on the cell's own slot
+  const getLabsForCell = (day: Day, timeSlot: TimeSlot): TimetableEntry[] => {
+    return entries.filter(entry =>
+      entry.day === day &&
+      entry.isLab &&
+      !!entry.labGroupId &&
+      expandTimeSlot(entry.timeSlot, schedule).includes(timeSlot)
     );
-
-    if (conflictInCurrentTimetable) {
-      return true;
+  };
+  
+  // Whether an entry is the subject or free hour of a cell rather than a lab block over it
+  const isCellEntry = (entry: TimetableEntry, day: Day, timeSlot: TimeSlot): boolean => {
+    return entry.day === day && entry.timeSlot === timeSlot && !entry.labGroupId;
+  };
+  
+  // Place labs as one block of consecutive periods starting at the given period.
+  // The block is stored as one entry per batch on the combined slot, all sharing
+  // the labGroupId; placing an existing group again moves it.
+  // Returns false, after telling the user why, when the block cannot be placed.
+  const placeLabBlock = (
+    day: Day,
+    start: TimeSlot,
+    length: number,
+    labs: LabPlacement[],
+    labGroupId: string = uuidv4()
+  ): boolean => {
+    const showConflict = (description: string) => {
+      toast({
+        title: "Scheduling Conflict",
+        description,
+        variant: "destructive"
+      });
+    };
+    
+    const block = getLabRuns(getDaySchedule(day), length).find(run => run.periods[0] === start);
+    if (!block) {
+      showConflict(`No ${length}-period lab block starts at ${start} without crossing a break or lunch.`);
+      return false;
+    }
+    
+    const batches = labs.map(lab => lab.batchNumber).filter(Boolean);
+    const sharedBatch = batches.find((batch, index) => batches.indexOf(batch) !== index);
+    if (sharedBatch) {
+      showConflict(`Both labs are for ${sharedBatch}; labs side by side must be for different batches.`);
+      return false;
     }
     
-    // Check conflicts in other timetables
-    return !isTeacherAvailable(teacherName, day, timeSlot);
+    const teachers = labs.flatMap(getTeacherNames);
+    const sharedTeacher = teachers.find((teacher, index) => teachers.indexOf(teacher) !== index);
+    if (sharedTeacher) {
+      showConflict(`${sharedTeacher} cannot take both batches at the same time.`);
+      return false;
+    }
+    
+    const occupied = entries.find(entry =>
+      entry.day === day &&
+      entry.labGroupId !== labGroupId &&
+      (entry.subjectName || entry.isFree) &&
+      block.periods.some(period => timeSlotsOverlap(period, entry.timeSlot))
+    );
+    if (occupied) {
+      showConflict(`${day} ${occupied.timeSlot} already has ${occupied.subjectName || occupied.freeType}. Clear it first.`);
+      return false;
+    }
+    
+    for (const lab of labs) {
+      const conflict = checkTeacherConflicts(day, block.timeSlot, lab, getLabGroupEntries(labGroupId));
+      if (conflict) {
+        showConflict(conflict);
+        return false;
+      }
+    }
+    
+    const isMove = entries.some(entry => entry.labGroupId === labGroupId);
+    const labNames = labs.map(lab => lab.subjectName).join(' and ');
+    
+    // The cells under the block are emptied, so nothing is left behind a lab
+    recordChange(`${isMove ? 'Moved' : 'Placed'} ${labNames} on ${day} ${block.timeSlot}`, [
+      ...entries
+        .filter(entry => entry.labGroupId !== labGroupId)
+        .map(entry => block.periods.some(period => isCellEntry(entry, day, period)) ? { day, timeSlot: entry.timeSlot } : entry),
+      ...labs.map(lab => ({
+        ...lab,
+        day,
+        timeSlot: block.timeSlot,
+        isLab: true,
+        isLabGroup: true,
+        labGroupId,
+        isFree: false,
+        freeType: undefined
+      }))
+    ]);
+    
+    toast({
+      title: "Lab Block Placed",
+      description: `${labNames} placed on ${day} ${block.timeSlot}.`,
+      variant: "default"
+    });
+    return true;
+  };
+  
+  // Place or move a lab block with the placement controls
+  const handlePlaceLabBlock = () => {
+    const length = parseInt(labLength, 10);
+    if (!labDay || !labStart || isNaN(length) || length < 1) {
+      toast({
+        title: "Incomplete Lab Block",
+        description: "Select the day, the start period and the number of periods of the block.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (movingGroupId) {
+      if (placeLabBlock(labDay, labStart, length, getLabGroupEntries(movingGroupId), movingGroupId)) {
+        setMovingGroupId(null);
+      }
+      return;
+    }
+    
+    const pairs = labPairIds
+      .map(id => labPairs.find(pair => pair.id === id))
+      .filter((pair): pair is SubjectTeacherPair => !!pair);
+    
+    if (pairs.length === 0) {
+      toast({
+        title: "Incomplete Lab Block",
+        description: "Select the lab to place.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    placeLabBlock(labDay, labStart, length, pairs.map(toLabPlacement));
+  };
+  
+  // Pick the lab of a batch; the first lab's duration sets the block length
+  const handleLabPairChange = (index: 0 | 1, pairId: string) => {
+    setLabPairIds(prev => {
+      const next: [string, string] = [...prev];
+      next[index] = pairId;
+      return next;
+    });
+    
+    const pair = labPairs.find(p => p.id === pairId);
+    const duration = index === 0 && pair ? getLabDuration(pair) : undefined;
+    if (duration) {
+      setLabLength(duration.toString());
+    }
+  };
+  
+  // Load a lab block into the placement controls to move it as a unit
+  const handleMoveLabBlock = (labGroupId: string) => {
+    const [lab] = getLabGroupEntries(labGroupId);
+    if (!lab) return;
+    
+    const periods = expandTimeSlot(lab.timeSlot, schedule);
+    setMovingGroupId(labGroupId);
+    setLabDay(lab.day);
+    setLabStart(periods[0]);
+    setLabLength(periods.length.toString());
+  };
+  
+  // Remove a lab block with all its batches
+  const handleClearLabBlock = (labGroupId: string) => {
+    if (movingGroupId === labGroupId) {
+      setMovingGroupId(null);
+    }
+    
+    const labNames = getLabGroupEntries(labGroupId).map(lab => lab.subjectName).join(' and ');
+    recordChange(`Cleared ${labNames}`, entries.filter(entry => entry.labGroupId !== labGroupId));
+    
+    toast({
+      title: "Lab Block Cleared",
+      description: "The lab block has been cleared.",
+      variant: "default"
+    });
+  };
+  
+  // Lock or unlock every batch of a lab block
+  const handleToggleLabBlockLock = (labGroupId: string) => {
+    const labs = getLabGroupEntries(labGroupId);
+    const isLocked = labs.every(entry => entry.isLocked);
+    
+    recordChange(
+      `${isLocked ? 'Unlocked' : 'Locked'} ${labs.map(lab => lab.subjectName).join(' and ')}`,
+      entries.map(entry =>
+        entry.labGroupId === labGroupId ? { ...entry, isLocked: !isLocked } : entry
+      )
+    );
   };
   
   // Handle changes to grid cells (subject or free hour assignment)
@@ -201,222 +541,676 @@ const ManualSchedulingGrid: React.FC<ManualSchedulingGridProps> = ({
       const [subjectId, teacherName] = value.split('|');
       const subject = subjectTeacherPairs.find(s => s.id === subjectId);
       
+      // Labs take a block of their duration starting at this cell, or else
+      // the lab block of the bell schedule that starts here
+      if (subject?.isLab) {
+        const length = getLabDuration(subject) ||
+          getLabBlocks(getDaySchedule(day)).find(block => block.periods[0] === timeSlot)?.periods.length;
+        if (!length) {
+          toast({
+            title: "Lab length unknown",
+            description: `${subject.subjectName} has no practical hours or session length, and no lab block of the bell schedule starts at ${timeSlot}. Set its length or use Place Lab Block.`,
+            variant: "destructive"
+          });
+          return;
+        }
+        placeLabBlock(day, timeSlot, length, [toLabPlacement(subject)]);
+        return;
+      }
+      
       if (subject) {
         // Check for teacher conflicts
-        if (checkTeacherConflicts(day, timeSlot, subject.teacherName)) {
+        const conflict = checkTeacherConflicts(day, timeSlot, subject);
+        if (conflict) {
           toast({
             title: "Scheduling Conflict",
-            description: `${subject.teacherName} already has a class scheduled at this time slot in another class.`,
+            description: conflict,
             variant: "destructive"
           });
           return;
         }
         
         // Update entries with new subject
-        setEntries(prevEntries => {
-          const newEntries = prevEntries.map(entry => {
-            if (entry.day === day && entry.timeSlot === timeSlot) {
-              return {
-                ...entry,
-                subjectName: subject.subjectName,
-                teacherName: subject.teacherName,
-                isLab: subject.isLab,
-                batchNumber: subject.batchNumber,
-                isFree: false,
-                freeType: undefined
-              };
-            }
-            return entry;
-          });
-          
-          // Show success toast
-          setTimeout(() => {
-            toast({
-              title: "Subject Assigned",
-              description: `${subject.subjectName} with ${subject.teacherName} has been assigned to this slot.`,
-              variant: "default"
-            });
-          }, 100);
-          
-          return newEntries;
-        });
-      }
-    } else if (type === 'free') {
-      // Handle free hour assignment
-      setEntries(prevEntries => {
-        const newEntries = prevEntries.map(entry => {
-          if (entry.day === day && entry.timeSlot === timeSlot) {
+        const newEntries = entries.map(entry => {
+          if (isCellEntry(entry, day, timeSlot)) {
             return {
               ...entry,
-              subjectName: undefined,
-              teacherName: undefined,
-              isLab: false,
-              batchNumber: undefined,
-              isFree: true,
-              freeType: value as FreeHourType
+              subjectName: subject.subjectName,
+              teacherName: subject.teacherName,
+              teacherNames: getTeacherNames(subject),
+              isLab: subject.isLab,
+              batchNumber: subject.batchNumber,
+              isFree: false,
+              freeType: undefined
             };
           }
           return entry;
         });
+        recordChange(`Assigned ${subject.subjectName} to ${day} ${timeSlot}`, newEntries);
         
         // Show success toast
-        setTimeout(() => {
-          toast({
-            title: "Free Hour Added",
-            description: `${value} has been added to this slot.`,
-            variant: "default"
-          });
-        }, 100);
-        
-        return newEntries;
-      });
-    }
-  };
-  
-  // Clear a cell's contents
-  const handleClearCell = (day: Day, timeSlot: TimeSlot) => {
-    setEntries(prevEntries => {
-      const newEntries = prevEntries.map(entry => {
-        if (entry.day === day && entry.timeSlot === timeSlot) {
+        toast({
+          title: "Subject Assigned",
+          description: `${subject.subjectName} with ${subject.teacherName} has been assigned to this slot.`,
+          variant: "default"
+        });
+      }
+    } else if (type === 'free') {
+      // Handle free hour assignment
+      const newEntries = entries.map(entry => {
+        if (isCellEntry(entry, day, timeSlot)) {
           return {
-            day,
-            timeSlot,
-            // Reset all properties
+            ...entry,
+            subjectName: undefined,
+            teacherName: undefined,
+            teacherNames: undefined,
+            isLab: false,
+            batchNumber: undefined,
+            isFree: true,
+            freeType: value as FreeHourType
           };
         }
         return entry;
       });
+      recordChange(`Added ${value} to ${day} ${timeSlot}`, newEntries);
       
+      // Show success toast
       toast({
-        title: "Cell Cleared",
-        description: "This time slot has been cleared.",
+        title: "Free Hour Added",
+        description: `${value} has been added to this slot.`,
         variant: "default"
       });
-      
-      return newEntries;
+    }
+  };
+  
+  // Clear a cell's contents
+  const handleClearCell = (day: Day, timeSlot: TimeSlot) => {
+    const newEntries = entries.map(entry => {
+      if (isCellEntry(entry, day, timeSlot)) {
+        return {
+          day,
+          timeSlot,
+          // Reset all properties
+        };
+      }
+      return entry;
+    });
+    recordChange(`Cleared ${day} ${timeSlot}`, newEntries);
+    
+    toast({
+      title: "Cell Cleared",
+      description: "This time slot has been cleared.",
+      variant: "default"
     });
   };
   
+  // Move a cell's entry onto another cell, swapping the two when the target is filled.
+  // Both teachers must be free at the cell they move to, otherwise the move is rejected.
+  const handleSwapCells = (fromDay: Day, fromTimeSlot: TimeSlot, toDay: Day, toTimeSlot: TimeSlot) => {
+    if (fromDay === toDay && fromTimeSlot === toTimeSlot) return;
+    
+    const source = getEntry(fromDay, fromTimeSlot);
+    const target = getEntry(toDay, toTimeSlot);
+    if (!source) return;
+    
+    const moves = [
+      { entry: source, day: toDay, timeSlot: toTimeSlot },
+      { entry: target, day: fromDay, timeSlot: fromTimeSlot }
+    ];
+    
+    for (const move of moves) {
+      if (!move.entry) continue;
+      
+      const conflict = checkTeacherConflicts(
+        move.day,
+        move.timeSlot,
+        move.entry,
+        [source, target].filter((entry): entry is TimetableEntry => !!entry)
+      );
+      if (conflict) {
+        toast({
+          title: "Move Rejected",
+          description: `${move.entry.subjectName} cannot move to ${move.day} ${move.timeSlot}: ${conflict}`,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    
+    const sourceName = source.subjectName || source.freeType;
+    const targetName = target?.subjectName || target?.freeType;
+    
+    recordChange(
+      targetName
+        ? `Swapped ${sourceName} and ${targetName}`
+        : `Moved ${sourceName} to ${toDay} ${toTimeSlot}`,
+      entries.map(entry => {
+        if (isCellEntry(entry, fromDay, fromTimeSlot)) {
+          return { ...(target || {}), day: fromDay, timeSlot: fromTimeSlot };
+        }
+        if (isCellEntry(entry, toDay, toTimeSlot)) {
+          return { ...source, day: toDay, timeSlot: toTimeSlot };
+        }
+        return entry;
+      })
+    );
+  };
+  
+  // Handle a drop: palette pairs are assigned, cells are moved or swapped and
+  // lab blocks move to start at the target cell
+  const handleDragEnd = (result: DropResult) => {
+    const { draggableId, destination } = result;
+    if (!destination) return;
+    
+    const [, toDay, toTimeSlot] = destination.droppableId.split(DND_SEPARATOR) as ['cell', Day, TimeSlot];
+    const [kind, ...ids] = draggableId.split(DND_SEPARATOR);
+    
+    const coveringLabs = getLabsForCell(toDay, toTimeSlot);
+    if (coveringLabs.length > 0 && !(kind === 'lab' && coveringLabs.every(lab => lab.labGroupId === ids[0]))) {
+      toast({
+        title: "Move Rejected",
+        description: `${toDay} ${toTimeSlot} is taken by a lab block. Move or clear the block first.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (kind === 'pair') {
+      const pair = subjectTeacherPairs.find(p => p.id === ids[0]);
+      if (pair) {
+        handleCellChange(toDay, toTimeSlot, `${pair.id}|${pair.teacherName}`, 'subject');
+      }
+    } else if (kind === 'entry') {
+      handleSwapCells(ids[0] as Day, ids[1] as TimeSlot, toDay, toTimeSlot);
+    } else if (kind === 'lab') {
+      const labs = getLabGroupEntries(ids[0]);
+      if (labs.length > 0) {
+        const length = expandTimeSlot(labs[0].timeSlot, schedule).length;
+        placeLabBlock(toDay, toTimeSlot, length, labs, ids[0]);
+      }
+    }
+  };
+  
+  // Lock or unlock a cell; locked cells are kept when the rest is generated automatically
+  const handleToggleLock = (day: Day, timeSlot: TimeSlot) => {
+    const cell = getEntry(day, timeSlot);
+    
+    recordChange(`${cell?.isLocked ? 'Unlocked' : 'Locked'} ${day} ${timeSlot}`, entries.map(entry => {
+      if (isCellEntry(entry, day, timeSlot)) {
+        return { ...entry, isLocked: !entry.isLocked };
+      }
+      return entry;
+    }));
+  };
+  
   // Get entry for a specific day and time slot
   const getEntry = (day: Day, timeSlot: TimeSlot): TimetableEntry | undefined => {
-    return entries.find(entry => entry.day === day && entry.timeSlot === timeSlot);
+    return entries.find(entry => isCellEntry(entry, day, timeSlot));
+  };
+  
+  // Rows a cell spans: a lab block is drawn once over its consecutive periods,
+  // and 0 for the cells it covers below its first period
+  const getRowSpan = (day: Day, rowIndex: number): number => {
+    // The rows after the end of a shorter day are one empty cell
+    if (!isSlotOfDay(day, timeSlots[rowIndex])) {
+      if (rowIndex > 0 && !isSlotOfDay(day, timeSlots[rowIndex - 1])) return 0;
+      
+      let span = 1;
+      while (rowIndex + span < timeSlots.length && !isSlotOfDay(day, timeSlots[rowIndex + span])) span++;
+      return span;
+    }
+    
+    const labs = getSlotKind(schedule, timeSlots[rowIndex]) === 'period'
+      ? getLabsForCell(day, timeSlots[rowIndex])
+      : [];
+    if (labs.length === 0) return 1;
+    
+    const hasSameLabs = (index: number): boolean => {
+      if (index < 0 || index >= timeSlots.length || getSlotKind(schedule, timeSlots[index]) !== 'period') return false;
+      const other = getLabsForCell(day, timeSlots[index]);
+      return other.length === labs.length && other.every(entry => labs.includes(entry));
+    };
+    
+    if (hasSameLabs(rowIndex - 1)) return 0;
+    
+    let span = 1;
+    while (hasSameLabs(rowIndex + span)) span++;
+    return span;
+  };
+  
+  // Subject or free hour of a cell as a card that can be dragged to another cell
+  const renderEntryCard = (day: Day, timeSlot: TimeSlot) => {
+    const entry = getEntry(day, timeSlot);
+    if (!entry?.subjectName && !(entry?.isFree && entry.freeType)) return null;
+    
+    return (
+      <Draggable draggableId={['entry', day, timeSlot].join(DND_SEPARATOR)} index={0}>
+        {(provided) => (
+          <div
+            ref={provided.innerRef}
+            {...provided.draggableProps}
+            {...provided.dragHandleProps}
+            className={`p-1 rounded text-sm cursor-grab ${entry.isFree ? 'bg-blue-50' : entry.isLab ? 'bg-green-50' : 'bg-white'}`}
+          >
+            {entry.isFree ? (
+              <div className="italic text-blue-600">{entry.freeType}</div>
+            ) : (
+              <>
+                <div className="font-medium">{entry.subjectName}</div>
+                {entry.isTutorial && (
+                  <div className="text-xs text-amber-700">Tutorial</div>
+                )}
+                <div className="text-xs text-muted-foreground">{formatTeacherNames(entry)}</div>
+                {entry.batchNumber && (
+                  <div className="text-xs text-primary">({entry.batchNumber})</div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </Draggable>
+    );
   };
   
-  // Check if a time slot is a break or lunch period
-  const isSpecialTimeSlot = (timeSlot: TimeSlot): boolean => {
-    return timeSlot === '11:10-11:20' || timeSlot === '1:00-2:00';
+  // Lab block shown over the periods it covers, with its batches and controls
+  const renderLabBlock = (labs: TimetableEntry[]) => {
+    const labGroupId = labs[0].labGroupId!;
+    const isLocked = labs.every(lab => lab.isLocked);
+    
+    return (
+      <div className="space-y-2">
+        <Draggable draggableId={['lab', labGroupId].join(DND_SEPARATOR)} index={0}>
+          {(provided) => (
+            <div
+              ref={provided.innerRef}
+              {...provided.draggableProps}
+              {...provided.dragHandleProps}
+              className={`p-1 rounded text-sm bg-green-50 cursor-grab ${movingGroupId === labGroupId ? 'ring-2 ring-primary' : ''}`}
+            >
+              {labs.map((lab, idx) => (
+                <React.Fragment key={idx}>
+                  {idx > 0 && <div className="my-1 border-t border-dashed" />}
+                  <div className="font-medium">{lab.subjectName}</div>
+                  <div className="text-xs text-muted-foreground">{formatTeacherNames(lab)}</div>
+                  {lab.batchNumber && (
+                    <div className="text-xs text-primary">({lab.batchNumber})</div>
+                  )}
+                </React.Fragment>
+              ))}
+              <div className="text-xs text-muted-foreground mt-1">{labs[0].timeSlot}</div>
+            </div>
+          )}
+        </Draggable>
+        
+        <div className="flex gap-1">
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="flex-1 h-6 text-xs"
+            onClick={() => handleMoveLabBlock(labGroupId)}
+          >
+            Move
+          </Button>
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="flex-1 h-6 text-xs"
+            onClick={() => handleClearLabBlock(labGroupId)}
+          >
+            Clear
+          </Button>
+          <Button 
+            variant={isLocked ? "default" : "outline"} 
+            size="sm" 
+            className="h-6 px-2"
+            title={isLocked ? "Unlock lab block" : "Lock lab block"}
+            onClick={() => handleToggleLabBlockLock(labGroupId)}
+          >
+            {isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+          </Button>
+        </div>
+      </div>
+    );
   };
   
+  // Movable lab block being placed again, if any
+  const movingLabs = movingGroupId ? getLabGroupEntries(movingGroupId) : [];
+  
   return (
-    <div className="overflow-x-auto">
-      <table className="min-w-full border-collapse border">
-        <thead>
-          <tr className="bg-muted">
-            <th className="border p-2 text-sm font-medium">Time / Day</th>
-            {days.map(day => (
-              <th key={day} className="border p-2 text-sm font-medium">
-                {day}
-              </th>
-            ))}
-          </tr>
-        </thead>
-        <tbody>
-          {timeSlots.map((timeSlot) => (
-            <tr 
-              key={timeSlot} 
-              className={`
-                ${timeSlot === '11:10-11:20' ? 'bg-gray-100' : ''} 
-                ${timeSlot === '1:00-2:00' ? 'bg-gray-100' : ''}
-              `}
+    <DragDropContext onDragEnd={handleDragEnd}>
+      <div className="space-y-4">
+        {/* Undo, redo and the changes of this editing session */}
+        <div className="flex flex-col md:flex-row gap-3">
+          <div className="flex items-start gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              title="Undo (Ctrl+Z)"
+              disabled={historyIndex === 0}
+              onClick={() => handleGoToChange(historyIndex - 1)}
             >
-              <td className="border p-2 text-sm font-medium whitespace-nowrap">
-                {timeSlot}
-              </td>
-              {days.map(day => (
-                <td key={`${day}-${timeSlot}`} className="border p-2">
-                  {timeSlot === '11:10-11:20' ? (
-                    <div className="text-center text-sm font-medium text-muted-foreground italic">Break</div>
-                  ) : timeSlot === '1:00-2:00' ? (
-                    <div className="text-center text-sm font-medium text-muted-foreground italic">Lunch</div>
-                  ) : (
-                    <div className="space-y-2">
-                      {getEntry(day, timeSlot)?.subjectName && (
-                        <div className={`p-1 rounded text-sm ${getEntry(day, timeSlot)?.isLab ? 'bg-green-50' : ''}`}>
-                          <div className="font-medium">{getEntry(day, timeSlot)?.subjectName}</div>
-                          <div className="text-xs text-muted-foreground">{getEntry(day, timeSlot)?.teacherName}</div>
-                          {getEntry(day, timeSlot)?.batchNumber && (
-                            <div className="text-xs text-primary">({getEntry(day, timeSlot)?.batchNumber})</div>
-                          )}
-                        </div>
-                      )}
-                      
-                      {getEntry(day, timeSlot)?.isFree && getEntry(day, timeSlot)?.freeType && (
-                        <div className="p-1 rounded bg-blue-50 text-sm">
-                          <div className="italic text-blue-600">{getEntry(day, timeSlot)?.freeType}</div>
+              <Undo2 className="h-4 w-4 mr-1" /> Undo
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Redo (Ctrl+Shift+Z)"
+              disabled={historyIndex >= history.length - 1}
+              onClick={() => handleGoToChange(historyIndex + 1)}
+            >
+              <Redo2 className="h-4 w-4 mr-1" /> Redo
+            </Button>
+          </div>
+          {history.length > 1 && (
+            <ol className="flex-1 max-h-32 overflow-y-auto border rounded-lg p-2 text-xs space-y-1">
+              {history.map((change, index) => (
+                <li
+                  key={index}
+                  className={`flex items-center justify-between gap-2 px-1 rounded ${
+                    index === historyIndex ? 'bg-primary/10 font-medium' : index > historyIndex ? 'text-muted-foreground line-through' : ''
+                  }`}
+                >
+                  <span>{change.label}</span>
+                  {index !== historyIndex && (
+                    <button
+                      type="button"
+                      className="text-primary hover:underline whitespace-nowrap"
+                      onClick={() => handleGoToChange(index)}
+                    >
+                      {index < historyIndex ? 'Revert to here' : 'Redo to here'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+        
+        {/* Palette of subjects to drag into the cells */}
+        {subjectTeacherPairs.length > 0 && (
+          <Droppable droppableId="palette" direction="horizontal" isDropDisabled>
+            {(provided) => (
+              <div
+                ref={provided.innerRef}
+                {...provided.droppableProps}
+                className="flex flex-wrap gap-2 p-3 border rounded-lg bg-muted/40"
+              >
+                {subjectTeacherPairs.map((pair, index) => (
+                  <Draggable key={pair.id} draggableId={['pair', pair.id].join(DND_SEPARATOR)} index={index}>
+                    {(dragProvided, snapshot) => {
+                      const card = (
+                        <div className={`flex items-center gap-1 px-2 py-1 rounded border text-xs ${pair.isLab ? 'bg-green-50' : 'bg-white'}`}>
+                          <GripVertical className="h-3 w-3 text-muted-foreground" />
+                          <span className="font-medium">{pair.subjectName}</span>
+                          <span className="text-muted-foreground">({pair.teacherName})</span>
+                          {pair.isLab && pair.batchNumber && <span className="text-primary">({pair.batchNumber})</span>}
                         </div>
-                      )}
+                      );
                       
-                      <Select
-                        onValueChange={(value) => handleCellChange(day, timeSlot, value, 'subject')}
-                        value=""
-                      >
+                      return (
+                        <>
+                          <div
+                            ref={dragProvided.innerRef}
+                            {...dragProvided.draggableProps}
+                            {...dragProvided.dragHandleProps}
+                            className="cursor-grab"
+                          >
+                            {card}
+                          </div>
+                          {/* Keep a copy in the palette while the card is dragged out */}
+                          {snapshot.isDragging && card}
+                        </>
+                      );
+                    }}
+                  </Draggable>
+                ))}
+                {provided.placeholder}
+              </div>
+            )}
+          </Droppable>
+        )}
+        
+        {(labPairs.length > 0 || movingLabs.length > 0) && (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <div className="text-sm font-medium">
+                {movingLabs.length > 0
+                  ? `Move ${movingLabs.map(lab => lab.subjectName).join(' and ')}`
+                  : 'Place Lab Block'}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+                {movingLabs.length === 0 && (
+                  <>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Lab</Label>
+                      <Select value={labPairIds[0]} onValueChange={(value) => handleLabPairChange(0, value)}>
                         <SelectTrigger className="text-xs h-8">
-                          <SelectValue placeholder="Assign subject" />
+                          <SelectValue placeholder="Select lab" />
                         </SelectTrigger>
                         <SelectContent>
-                          {subjectTeacherPairs && subjectTeacherPairs.map((pair) => (
-                            <SelectItem key={pair.id} value={`${pair.id}|${pair.teacherName}`}>
+                          {labPairs.map(pair => (
+                            <SelectItem key={pair.id} value={pair.id}>
                               {pair.subjectName} ({pair.teacherName})
-                              {pair.isLab && pair.batchNumber && ` (${pair.batchNumber})`}
+                              {pair.batchNumber && ` (${pair.batchNumber})`}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
-                      
-                      <Select
-                        onValueChange={(value) => handleCellChange(day, timeSlot, value, 'free')}
-                        value=""
-                      >
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Second batch</Label>
+                      <Select value={labPairIds[1]} onValueChange={(value) => handleLabPairChange(1, value)}>
                         <SelectTrigger className="text-xs h-8">
-                          <SelectValue placeholder="Assign free hour" />
+                          <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {freeHours.map((freeHour, index) => (
-                            <SelectItem 
-                              key={index} 
-                              value={freeHour.type === 'Others' && freeHour.customType 
-                                ? freeHour.customType 
-                                : freeHour.type
-                              }
-                            >
-                              {freeHour.type === 'Others' && freeHour.customType 
-                                ? freeHour.customType 
-                                : freeHour.type
-                              }
-                            </SelectItem>
-                          ))}
+                          <SelectItem value={NO_SECOND_BATCH}>None</SelectItem>
+                          {labPairs
+                            .filter(pair => pair.id !== labPairIds[0])
+                            .map(pair => (
+                              <SelectItem key={pair.id} value={pair.id}>
+                                {pair.subjectName} ({pair.teacherName})
+                                {pair.batchNumber && ` (${pair.batchNumber})`}
+                              </SelectItem>
+                            ))}
                         </SelectContent>
                       </Select>
-                      
-                      {(getEntry(day, timeSlot)?.subjectName || getEntry(day, timeSlot)?.isFree) && (
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          className="w-full h-6 text-xs"
-                          onClick={() => handleClearCell(day, timeSlot)}
-                        >
-                          Clear
-                        </Button>
-                      )}
                     </div>
-                  )}
-                </td>
+                  </>
+                )}
+                <div className="space-y-1">
+                  <Label className="text-xs">Day</Label>
+                  <Select value={labDay} onValueChange={(value) => setLabDay(value as Day)}>
+                    <SelectTrigger className="text-xs h-8">
+                      <SelectValue placeholder="Select day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {days.map(day => (
+                        <SelectItem key={day} value={day}>{day}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Starts at</Label>
+                  <Select value={labStart} onValueChange={(value) => setLabStart(value as TimeSlot)}>
+                    <SelectTrigger className="text-xs h-8">
+                      <SelectValue placeholder="Select period" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(labDay ? getTeachingPeriods(getDaySchedule(labDay)) : teachingPeriods).map(period => (
+                        <SelectItem key={period} value={period}>{period}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="labLength" className="text-xs">Periods</Label>
+                  <Input
+                    id="labLength"
+                    type="number"
+                    min="1"
+                    className="text-xs h-8"
+                    value={labLength}
+                    onChange={(e) => setLabLength(e.target.value)}
+                    disabled={movingLabs.length > 0}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                {movingLabs.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => setMovingGroupId(null)}>
+                    Cancel
+                  </Button>
+                )}
+                <Button size="sm" onClick={handlePlaceLabBlock}>
+                  {movingLabs.length > 0 ? 'Move Lab Block' : 'Place Lab Block'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+        
+        <div className="overflow-x-auto">
+          <table ref={tableRef} className="min-w-full border-collapse border">
+            <thead>
+              <tr className="bg-muted">
+                <th className="border p-2 text-sm font-medium">Time / Day</th>
+                {days.map(day => (
+                  <th key={day} className="border p-2 text-sm font-medium">
+                    {day}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {timeSlots.map((timeSlot, rowIndex) => (
+                <tr 
+                  key={timeSlot} 
+                  className={getSlotKind(schedule, timeSlot) !== 'period' ? 'bg-gray-100' : ''}
+                >
+                  <td className="border p-2 text-sm font-medium whitespace-nowrap">
+                    {timeSlot}
+                  </td>
+                  {days.map(day => {
+                    const rowSpan = getRowSpan(day, rowIndex);
+                    if (rowSpan === 0) return null;
+                    
+                    // No classes after the end of a shorter day
+                    if (!isSlotOfDay(day, timeSlot)) {
+                      return (
+                        <td key={`${day}-${timeSlot}`} rowSpan={rowSpan} className="border p-2 bg-gray-100" />
+                      );
+                    }
+                    
+                    const labs = getSlotKind(schedule, timeSlot) === 'period' ? getLabsForCell(day, timeSlot) : [];
+                    // A lab block is focused when any of its periods is
+                    const isFocused = !!focusCell && focusCell.day === day &&
+                      timeSlotsOverlap(labs.length > 0 ? labs[0].timeSlot : timeSlot, focusCell.timeSlot);
+                    
+                    return (
+                      <td
+                        key={`${day}-${timeSlot}`}
+                        rowSpan={rowSpan}
+                        data-focused={isFocused}
+                        className={`border p-2 ${isFocused ? 'ring-2 ring-inset ring-red-500 bg-red-50' : ''}`}
+                      >
+                        {getSlotKind(schedule, timeSlot) === 'break' ? (
+                          <div className="text-center text-sm font-medium text-muted-foreground italic">Break</div>
+                        ) : getSlotKind(schedule, timeSlot) === 'lunch' ? (
+                          <div className="text-center text-sm font-medium text-muted-foreground italic">Lunch</div>
+                        ) : (
+                          <Droppable droppableId={getCellDroppableId(day, timeSlot)}>
+                            {(provided, snapshot) => (
+                              <div
+                                ref={provided.innerRef}
+                                {...provided.droppableProps}
+                                className={`space-y-2 rounded ${snapshot.isDraggingOver ? 'bg-primary/10' : ''}`}
+                              >
+                                {labs.length > 0 ? renderLabBlock(labs) : (
+                                  <>
+                                    {renderEntryCard(day, timeSlot)}
+                                    
+                                    <Select
+                                      onValueChange={(value) => handleCellChange(day, timeSlot, value, 'subject')}
+                                      value=""
+                                    >
+                                      <SelectTrigger className="text-xs h-8">
+                                        <SelectValue placeholder="Assign subject" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {subjectTeacherPairs && subjectTeacherPairs.map((pair) => (
+                                          <SelectItem key={pair.id} value={`${pair.id}|${pair.teacherName}`}>
+                                            {pair.subjectName} ({pair.teacherName})
+                                            {pair.isLab && pair.batchNumber && ` (${pair.batchNumber})`}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                    
+                                    <Select
+                                      onValueChange={(value) => handleCellChange(day, timeSlot, value, 'free')}
+                                      value=""
+                                    >
+                                      <SelectTrigger className="text-xs h-8">
+                                        <SelectValue placeholder="Assign free hour" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {freeHours.map((freeHour, index) => (
+                                          <SelectItem 
+                                            key={index} 
+                                            value={freeHour.type === 'Others' && freeHour.customType 
+                                              ? freeHour.customType 
+                                              : freeHour.type
+                                            }
+                                          >
+                                            {freeHour.type === 'Others' && freeHour.customType 
+                                              ? freeHour.customType 
+                                              : freeHour.type
+                                            }
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                    
+                                    {(getEntry(day, timeSlot)?.subjectName || getEntry(day, timeSlot)?.isFree) && (
+                                      <div className="flex gap-1">
+                                        <Button 
+                                          variant="outline" 
+                                          size="sm" 
+                                          className="flex-1 h-6 text-xs"
+                                          onClick={() => handleClearCell(day, timeSlot)}
+                                        >
+                                          Clear
+                                        </Button>
+                                        <Button 
+                                          variant={getEntry(day, timeSlot)?.isLocked ? "default" : "outline"} 
+                                          size="sm" 
+                                          className="h-6 px-2"
+                                          title={getEntry(day, timeSlot)?.isLocked ? "Unlock cell" : "Lock cell"}
+                                          onClick={() => handleToggleLock(day, timeSlot)}
+                                        >
+                                          {getEntry(day, timeSlot)?.isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                                        </Button>
+                                      </div>
+                                    )}
+                                  </>
+                                )}
+                                <div className="hidden">{provided.placeholder}</div>
+                              </div>
+                            )}
+                          </Droppable>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
               ))}
-            </tr>
-          ))}
-        </tbody>
-      </table>
-    </div>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </DragDropContext>
   );
 };
 
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RotateCcw, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { SoftConstraintKind, SoftConstraintSettings } from '@/utils/types';
+import {
+  DEFAULT_SOFT_CONSTRAINT_SETTINGS,
+  SOFT_CONSTRAINT_KINDS,
+  SOFT_CONSTRAINT_LABELS,
+  getSoftConstraintSettings,
+  saveSoftConstraintSettings
+} from '@/utils/timetableScoreUtils';
+
+// Weights and limits of the soft constraints the generator tries to meet
+const SchedulingPreferences: React.FC = () => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<SoftConstraintSettings>(() => getSoftConstraintSettings());
+
+  const handleWeightChange = (kind: SoftConstraintKind, value: string) => {
+    const weight = parseInt(value, 10);
+    setSettings(prev => ({
+      ...prev,
+      weights: { ...prev.weights, [kind]: isNaN(weight) ? 0 : Math.max(0, weight) }
+    }));
+  };
+
+  const handleLimitChange = (field: 'maxConsecutivePeriods' | 'heavyLectureHours', value: string) => {
+    const limit = parseInt(value, 10);
+    setSettings(prev => ({ ...prev, [field]: isNaN(limit) ? 1 : Math.max(1, limit) }));
+  };
+
+  const handleSave = () => {
+    saveSoftConstraintSettings(settings);
+    toast({
+      title: "Preferences saved",
+      description: "New timetables are generated and scored with these preferences",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scheduling Preferences</CardTitle>
+        <CardDescription>
+          Soft constraints the generator tries to meet. A higher weight makes a preference count more
+          in the quality score; 0 ignores it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {SOFT_CONSTRAINT_KINDS.map(kind => (
+          <div key={kind} className="flex items-center justify-between gap-4">
+            <Label htmlFor={`weight-${kind}`}>{SOFT_CONSTRAINT_LABELS[kind]}</Label>
+            <Input
+              id={`weight-${kind}`}
+              type="number"
+              min={0}
+              value={settings.weights[kind]}
+              onChange={(e) => handleWeightChange(kind, e.target.value)}
+              className="w-24"
+            />
+          </div>
+        ))}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="maxConsecutivePeriods">Longest back-to-back run for a teacher</Label>
+            <Input
+              id="maxConsecutivePeriods"
+              type="number"
+              min={1}
+              value={settings.maxConsecutivePeriods}
+              onChange={(e) => handleLimitChange('maxConsecutivePeriods', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="heavyLectureHours">Weekly lectures of a heavy subject</Label>
+            <Input
+              id="heavyLectureHours"
+              type="number"
+              min={1}
+              value={settings.heavyLectureHours}
+              onChange={(e) => handleLimitChange('heavyLectureHours', e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setSettings(DEFAULT_SOFT_CONSTRAINT_SETTINGS)}
+            className="flex items-center gap-2"
+          >
+            <RotateCcw className="h-4 w-4" /> Reset to Defaults
+          </Button>
+          <Button onClick={handleSave} className="flex items-center gap-2">
+            <Save className="h-4 w-4" /> Save Preferences
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SchedulingPreferences;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { getStorageIssues } from '@/utils/storageUtils';
+import { CURRENT_SCHEMA_VERSION } from '@/utils/storageSchema';
+
+// Saved records that could not be upgraded to the current schema when the app started
+const StorageIssues: React.FC = () => {
+  const issues = getStorageIssues();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Saved Data
+          <Badge variant="outline">Schema version {CURRENT_SCHEMA_VERSION}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Saved records are upgraded to the current schema when the app starts. Records that fail
+          are left out of every page but kept in storage unchanged; saving a record with the same
+          name or id replaces them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {issues.length === 0 ? (
+          <div className="flex items-center gap-3 text-green-700">
+            <CheckCircle2 className="h-5 w-5" />
+            All saved records were loaded.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {issues.map(issue => (
+              <div
+                key={`${issue.collection}-${issue.key}`}
+                className="flex items-start gap-2 p-3 rounded-md border border-red-200 bg-red-50 text-sm text-red-700"
+              >
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <div>
+                  <span className="font-medium">{issue.collection} · {issue.key}</span>
+                  <span> — {issue.message}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StorageIssues;
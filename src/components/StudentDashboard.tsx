@@ -40,21 +40,30 @@ const StudentDashboard: React.FC = () => {
   useEffect(() => {
     if (studentFilters.year && studentFilters.branch && studentFilters.semester) {
       setLoading(true);
-      // Force a fresh fetch of timetables from localStorage
-      const filteredTimetables = filterTimetables(
+      // Fetch the class's timetables from storage through the class index
+      filterTimetables(
         studentFilters.year as YearType, 
         studentFilters.branch as BranchType, 
         studentFilters.semester as SemesterType
-      );
-
-      if (filteredTimetables.length > 0) {
-        setTimetable(filteredTimetables[0]);
-      } else {
+      ).then(filteredTimetables => {
+        if (filteredTimetables.length > 0) {
+          setTimetable(filteredTimetables[0]);
+        } else {
+          setTimetable(null);
+        }
+        setLoading(false);
+      }).catch(error => {
+        console.error("Error loading timetable:", error);
+        toast({
+          title: "Error",
+          description: "Your timetable could not be loaded. Please reload the page.",
+          variant: "destructive"
+        });
         setTimetable(null);
-      }
-      setLoading(false);
+        setLoading(false);
+      });
     }
-  }, [studentFilters]);
+  }, [studentFilters, toast]);
 
   /**
    * Handles the print functionality for the timetable
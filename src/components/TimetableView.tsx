@@ -1,19 +1,25 @@
 
 import React from 'react';
 import { Timetable, TimetableEntry, Day, TimeSlot } from '@/utils/types';
-import { formatTeacherNames, normalizeTeacherData } from '@/utils/facultyLabUtils';
+import { formatTeacherNames, isTaughtBy, normalizeTeacherData } from '@/utils/facultyLabUtils';
 import MultiTeacherDisplay from './MultiTeacherDisplay';
+import { Lock, Unlock } from 'lucide-react';
+import { expandTimeSlot, getBellScheduleForDay, getBellScheduleForTimetable, getSlotKind } from '@/utils/bellScheduleUtils';
+import { getFreeHourLabel, isSameFreeBlock } from '@/utils/freeHourUtils';
+import { getTimetableDays } from '@/utils/dayUtils';
 
 /**
  * Interface defining the props required by the TimetableView component
  * @property {Timetable} timetable - The timetable data to be displayed
  * @property {string} facultyFilter - Optional filter to show only entries for a specific faculty member
  * @property {boolean} printMode - Optional flag to adjust styling for print layout
+ * @property {Function} onToggleLock - Optional handler that shows lock buttons and toggles the entries of a cell
  */
 interface TimetableViewProps {
   timetable: Timetable;
   facultyFilter?: string;
   printMode?: boolean;
+  onToggleLock?: (cellEntries: TimetableEntry[]) => void;
 }
 
 /**
@@ -21,7 +27,7 @@ interface TimetableViewProps {
  * 
  * This component renders a complete timetable grid with days as columns and time slots as rows.
  * It handles various display scenarios including:
- * - Regular subject entries
+ * - Regular subject entries (lectures and tutorials)
  * - Lab sessions (which may span multiple time slots)
  * - Break and lunch periods
  * - Free periods
@@ -30,39 +36,24 @@ interface TimetableViewProps {
  * The component intelligently determines which days to display based on the year and configuration,
  * and properly formats entries with teacher information and batch details when applicable.
  */
-const TimetableView: React.FC<TimetableViewProps> = ({ timetable, facultyFilter, printMode }) => {
-  // Define standard days and time slots for the timetable grid
-  const days: Day[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const timeSlots: TimeSlot[] = [
-    '9:30-10:20', 
-    '10:20-11:10', 
-    '11:10-11:20', // Break
-    '11:20-12:10', 
-    '12:10-1:00', 
-    '1:00-2:00',   // Lunch
-    '2:00-2:50', 
-    '2:50-3:40', 
-    '3:40-4:30'
-  ];
+const TimetableView: React.FC<TimetableViewProps> = ({ timetable, facultyFilter, printMode, onToggleLock }) => {
+  // The rows come from the timetable's bell schedule
+  const schedule = getBellScheduleForTimetable(timetable.formData);
+  const timeSlots: TimeSlot[] = schedule.slots.map(slot => slot.timeSlot);
   
-  // Determine which days to show based on year and dayOptions
-  let visibleDays: Day[];
+  // Days to show, based on year and dayOptions
+  const visibleDays = getTimetableDays(timetable.formData);
   
-  if (timetable.formData.year === '4th Year') {
-    // For 4th year, use the selected day options
-    visibleDays = timetable.formData.dayOptions.useCustomDays 
-      ? timetable.formData.dayOptions.selectedDays
-      : timetable.formData.dayOptions.fourContinuousDays 
-        ? ['Monday', 'Tuesday', 'Wednesday', 'Thursday']
-        : days;
-  } else {
-    // For 1st to 3rd year, always use all 6 days
-    visibleDays = days;
-  }
+  // Slots of each day; shorter days end before the last rows
+  const daySlots = new Map(visibleDays.map(day => [
+    day,
+    getBellScheduleForDay(timetable.formData, day).slots.map(slot => slot.timeSlot)
+  ]));
+  const isSlotOfDay = (day: Day, rowIndex: number): boolean => !!daySlots.get(day)?.includes(timeSlots[rowIndex]);
   
   // Filter entries for faculty view if needed
   const entries = facultyFilter
-    ? timetable.entries.filter(entry => entry.teacherName === facultyFilter)
+    ? timetable.entries.filter(entry => isTaughtBy(entry, facultyFilter))
     : timetable.entries;
   
   /**
@@ -87,27 +78,82 @@ const TimetableView: React.FC<TimetableViewProps> = ({ timetable, facultyFilter,
 
   /**
    * Special helper to check if a time slot contains lab entries
-   * Handles lab time slots that span multiple regular slots (e.g., 9:30-1:00)
+   * Handles lab time slots that span any run of regular slots (e.g., 9:30-1:00 or 2:00-3:40)
    * @param day - The day to check
    * @param timeSlot - The specific time slot to check
    * @returns Array of lab entries that include this time slot
    */
   const getLabsForTimeSlot = (day: Day, timeSlot: TimeSlot): TimetableEntry[] => {
-    // First check for lab entries that span multiple slots (like 9:30-1:00)
+    // Lab entries on a combined slot (like 9:30-1:00) whose periods include this time slot
     const labEntries = entries.filter(entry => 
       entry.day === day && 
-      (entry.timeSlot === '9:30-1:00' || entry.timeSlot === '2:00-4:30') &&
+      entry.timeSlot !== timeSlot &&
       (entry.isLab || entry.isLabGroup) &&
-      // Check if the current timeSlot falls within the lab's time range
-      ((entry.timeSlot === '9:30-1:00' && 
-        ['9:30-10:20', '10:20-11:10', '11:20-12:10', '12:10-1:00'].includes(timeSlot)) ||
-       (entry.timeSlot === '2:00-4:30' && 
-        ['2:00-2:50', '2:50-3:40', '3:40-4:30'].includes(timeSlot)))
+      getSlotKind(schedule, entry.timeSlot) === undefined &&
+      expandTimeSlot(entry.timeSlot, schedule).includes(timeSlot)
     );
     
     return labEntries;
   };
   
+  /**
+   * Merged free hour shown from a row: the free periods of the same merging free
+   * hour that follow it without a break or lunch in between
+   * @param day - The day for this cell
+   * @param rowIndex - Index of the cell's time slot
+   * @returns Entries of the merged free hour, empty when the cell is not one
+   */
+  const getFreeBlock = (day: Day, rowIndex: number): TimetableEntry[] => {
+    const entry = getEntry(day, timeSlots[rowIndex]);
+    if (!entry?.isFree || !entry.mergeSlots) return [];
+    
+    const block = [entry];
+    while (rowIndex + block.length < timeSlots.length) {
+      const next = getEntry(day, timeSlots[rowIndex + block.length]);
+      if (!isSameFreeBlock(entry, next)) break;
+      block.push(next!);
+    }
+    return block;
+  };
+  
+  /**
+   * Number of rows a cell spans. Labs covering consecutive periods and merging
+   * free hours are drawn as one cell; a break or lunch between the periods splits the cell.
+   * The rows after the end of a shorter day are one empty cell.
+   * @param day - The day for this cell
+   * @param rowIndex - Index of the cell's time slot
+   * @returns The row span, or 0 when the cell is covered by the cell above
+   */
+  const getRowSpan = (day: Day, rowIndex: number): number => {
+    if (!isSlotOfDay(day, rowIndex)) {
+      if (rowIndex > 0 && !isSlotOfDay(day, rowIndex - 1)) return 0;
+      
+      let span = 1;
+      while (rowIndex + span < timeSlots.length && !isSlotOfDay(day, rowIndex + span)) span++;
+      return span;
+    }
+    
+    const labs = getSlotKind(schedule, timeSlots[rowIndex]) === 'period'
+      ? getLabsForTimeSlot(day, timeSlots[rowIndex])
+      : [];
+    if (labs.length === 0) {
+      if (rowIndex > 0 && isSameFreeBlock(getEntry(day, timeSlots[rowIndex - 1]), getEntry(day, timeSlots[rowIndex]))) return 0;
+      return Math.max(1, getFreeBlock(day, rowIndex).length);
+    }
+    
+    const hasSameLabs = (index: number): boolean => {
+      if (index < 0 || index >= timeSlots.length || getSlotKind(schedule, timeSlots[index]) !== 'period') return false;
+      const other = getLabsForTimeSlot(day, timeSlots[index]);
+      return other.length === labs.length && other.every(entry => labs.includes(entry));
+    };
+    
+    if (hasSameLabs(rowIndex - 1)) return 0;
+    
+    let span = 1;
+    while (hasSameLabs(rowIndex + span)) span++;
+    return span;
+  };
+  
   /**
    * Function to render the content for each timetable cell
    * Handles different types of entries (regular subjects, labs, breaks, etc.)
@@ -117,11 +163,12 @@ const TimetableView: React.FC<TimetableViewProps> = ({ timetable, facultyFilter,
    */
   const renderCellContent = (day: Day, timeSlot: TimeSlot) => {
     // First check for breaks and lunch
-    if (timeSlot === '11:10-11:20') {
+    const slotKind = getSlotKind(schedule, timeSlot);
+    if (slotKind === 'break') {
       return <div className="font-medium text-muted-foreground italic">Break</div>;
     }
     
-    if (timeSlot === '1:00-2:00') {
+    if (slotKind === 'lunch') {
       return <div className="font-medium text-muted-foreground italic">Lunch</div>;
     }
     
@@ -182,19 +229,18 @@ const TimetableView: React.FC<TimetableViewProps> = ({ timetable, facultyFilter,
     
     // Handle free periods with custom types
     if (entry.isFree) {
-      let freeType = entry.freeType;
-      if (entry.freeType === 'Others' && entry.customFreeType) {
-        freeType = entry.customFreeType;
-      }
-      return <div className="italic text-blue-600">{freeType}</div>;
+      return <div className="italic text-blue-600">{getFreeHourLabel(entry)}</div>;
     }
     
-    // For regular subjects
+    // For regular subjects (tutorials are marked apart from lectures)
     if (entry.subjectName) {
       const normalizedEntry = normalizeTeacherData(entry);
       return (
-        <div>
+        <div className={entry.isTutorial ? 'bg-amber-50 p-1 rounded' : ''}>
           <div className="font-medium">{entry.subjectName}</div>
+          {entry.isTutorial && (
+            <div className="text-xs font-medium text-amber-700">Tutorial</div>
+          )}
           <MultiTeacherDisplay entry={normalizedEntry} />
           {entry.batchNumber && (
             <div className="text-xs text-primary">({entry.batchNumber})</div>
@@ -207,6 +253,51 @@ const TimetableView: React.FC<TimetableViewProps> = ({ timetable, facultyFilter,
     return null;
   };
   
+  /**
+   * Entries shown in a cell: the labs covering it, a merged free hour or the single entry placed in it
+   * @param day - The day for this cell
+   * @param timeSlot - The time slot for this cell
+   * @returns Array of entries in the cell
+   */
+  const getCellEntries = (day: Day, timeSlot: TimeSlot): TimetableEntry[] => {
+    const labEntries = getLabsForTimeSlot(day, timeSlot);
+    if (labEntries.length > 0) return labEntries;
+    
+    const freeBlock = getFreeBlock(day, timeSlots.indexOf(timeSlot));
+    if (freeBlock.length > 0) return freeBlock;
+    
+    const entry = getEntry(day, timeSlot);
+    return entry && (entry.subjectName || entry.isFree) ? [entry] : [];
+  };
+  
+  /**
+   * Lock marker for a cell, a toggle button when locking is enabled
+   * @param day - The day for this cell
+   * @param timeSlot - The time slot for this cell
+   * @returns JSX for the lock marker or null
+   */
+  const renderLockControl = (day: Day, timeSlot: TimeSlot) => {
+    if (printMode) return null;
+    
+    const cellEntries = getCellEntries(day, timeSlot);
+    const isLocked = cellEntries.length > 0 && cellEntries.every(entry => entry.isLocked);
+    
+    if (onToggleLock && cellEntries.length > 0) {
+      return (
+        <button
+          type="button"
+          className={`mt-1 print:hidden ${isLocked ? 'text-primary' : 'text-muted-foreground/50 hover:text-muted-foreground'}`}
+          title={isLocked ? 'Unlock cell' : 'Lock cell'}
+          onClick={() => onToggleLock(cellEntries)}
+        >
+          {isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+        </button>
+      );
+    }
+    
+    return isLocked ? <Lock className="h-3 w-3 mt-1 mx-auto text-primary print:hidden" /> : null;
+  };
+  
   // Debug function to check if there are lab entries
   const debugLabEntries = () => {
     const labEntries = entries.filter(entry => entry.isLab || entry.isLabGroup);
@@ -233,8 +324,8 @@ const TimetableView: React.FC<TimetableViewProps> = ({ timetable, facultyFilter,
           </tr>
         </thead>
         <tbody>
-          {timeSlots.map((timeSlot) => {
-            const isBreakOrLunch = timeSlot === '11:10-11:20' || timeSlot === '1:00-2:00';
+          {timeSlots.map((timeSlot, rowIndex) => {
+            const isBreakOrLunch = getSlotKind(schedule, timeSlot) !== 'period';
             
             return (
               <tr 
@@ -244,14 +335,28 @@ const TimetableView: React.FC<TimetableViewProps> = ({ timetable, facultyFilter,
                 <td className="border p-2 text-sm font-medium whitespace-nowrap">
                   {timeSlot}
                 </td>
-                {visibleDays.map(day => (
-                  <td 
-                    key={`${day}-${timeSlot}`} 
-                    className={`border p-2 text-center ${isBreakOrLunch ? 'bg-gray-100' : ''}`}
-                  >
-                    {renderCellContent(day, timeSlot)}
-                  </td>
-                ))}
+                {visibleDays.map(day => {
+                  const rowSpan = getRowSpan(day, rowIndex);
+                  if (rowSpan === 0) return null;
+                  
+                  // No classes after the end of a shorter day
+                  if (!isSlotOfDay(day, rowIndex)) {
+                    return (
+                      <td key={`${day}-${timeSlot}`} rowSpan={rowSpan} className="border p-2 bg-gray-100" />
+                    );
+                  }
+                  
+                  return (
+                    <td 
+                      key={`${day}-${timeSlot}`} 
+                      rowSpan={rowSpan}
+                      className={`border p-2 text-center ${isBreakOrLunch ? 'bg-gray-100' : ''}`}
+                    >
+                      {renderCellContent(day, timeSlot)}
+                      {!isBreakOrLunch && renderLockControl(day, timeSlot)}
+                    </td>
+                  );
+                })}
               </tr>
             );
           })}
@@ -1,13 +1,20 @@
 
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { getTimetableById } from '@/utils/timetableUtils';
+import { generateTimetableWithReport, getTimetableById, restoreTimetableRevision, saveTimetable, GenerationResult } from '@/utils/timetableUtils';
+import { LoadedTimetableRevision } from '@/utils/timetableRevisionUtils';
+import { generateSeed } from '@/utils/seededRandom';
+import { Timetable, TimetableEntry } from '@/utils/types';
+import { useToast } from '@/hooks/use-toast';
 import TimetableView from './TimetableView';
 import { useAuth } from '@/contexts/AuthContext';
 import TimetableNotFound from './timetable/TimetableNotFound';
 import TimetableActions from './timetable/TimetableActions';
 import TimetableHeaderInfo from './timetable/TimetableHeaderInfo';
 import TimetableFacultyDetails from './timetable/TimetableFacultyDetails';
+import GenerationReport from './timetable/GenerationReport';
+import TimetableScoreCard from './timetable/TimetableScoreCard';
+import TimetableHistory from './timetable/TimetableHistory';
 
 /**
  * ViewTimetable Component
@@ -19,6 +26,10 @@ import TimetableFacultyDetails from './timetable/TimetableFacultyDetails';
  * - The actual timetable grid
  * - Faculty details section
  * 
+ * Admins can lock cells and regenerate the rest of the timetable from here,
+ * and see the quality score of the timetable against the scheduling preferences.
+ * They also see the saved revisions of the timetable, compare them and restore an older one.
+ * 
  * The component handles fetching the timetable data based on the URL parameter
  * and provides appropriate UI for both successful retrieval and not-found cases.
  */
@@ -26,44 +37,181 @@ const ViewTimetable: React.FC = () => {
   // Get timetable ID from URL parameters
   const { id } = useParams<{ id: string }>();
   // Get current user role for permission-based UI
-  const { userRole } = useAuth();
+  const { userRole, username } = useAuth();
+  const { toast } = useToast();
   // Reference to the printable content for PDF export
   const printRef = useRef<HTMLDivElement>(null);
   
   // Fetch the timetable data using the ID from URL
-  const timetable = id ? getTimetableById(id) : null;
+  const [timetable, setTimetable] = useState<Timetable | undefined>(() => id ? getTimetableById(id) : undefined);
+  // Regenerated timetable waiting for the admin to review and save it
+  const [pendingGeneration, setPendingGeneration] = useState<GenerationResult | null>(null);
+  
+  useEffect(() => {
+    setTimetable(id ? getTimetableById(id) : undefined);
+    setPendingGeneration(null);
+  }, [id]);
   
   // Show not found component if timetable doesn't exist
   if (!timetable) {
     return <TimetableNotFound />;
   }
   
+  // Lock or unlock the entries of a cell and store the change right away
+  const handleToggleLock = async (cellEntries: TimetableEntry[]) => {
+    const lock = !cellEntries.every(entry => entry.isLocked);
+    const updated: Timetable = {
+      ...timetable,
+      entries: timetable.entries.map(entry =>
+        cellEntries.includes(entry) ? { ...entry, isLocked: lock || undefined } : entry
+      )
+    };
+    
+    const saveResult = await saveTimetable(updated, {
+      author: username || undefined,
+      note: lock ? "Locked cells" : "Unlocked cells"
+    });
+    if (!saveResult.success) {
+      toast({
+        title: "Error",
+        description: saveResult.message || "An error occurred while saving the timetable.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setTimetable(updated);
+  };
+  
+  // Generate the unlocked cells again with a fresh seed
+  const handleRegenerateUnlocked = () => {
+    try {
+      const result = generateTimetableWithReport(
+        { ...timetable.formData, seed: generateSeed() },
+        {
+          excludeTimetableId: timetable.id,
+          lockedEntries: timetable.entries.filter(entry => entry.isLocked)
+        }
+      );
+      setPendingGeneration(result);
+    } catch (error) {
+      console.error("Error generating timetable:", error);
+      toast({
+        title: "Error",
+        description: "An error occurred while generating the timetable. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Replace the stored timetable with the regenerated one
+  const handleSaveRegenerated = async () => {
+    if (!pendingGeneration) return;
+    
+    const updated: Timetable = {
+      ...pendingGeneration.timetable,
+      id: timetable.id,
+      createdAt: timetable.createdAt,
+      facultyDetails: timetable.facultyDetails || {}
+    };
+    
+    const saveResult = await saveTimetable(updated, {
+      author: username || undefined,
+      note: "Regenerated the unlocked cells"
+    });
+    if (!saveResult.success) {
+      toast({
+        title: "Error",
+        description: saveResult.message || "An error occurred while saving the timetable.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setTimetable(updated);
+    setPendingGeneration(null);
+    toast({
+      title: "Timetable updated",
+      description: "The unlocked cells have been regenerated",
+    });
+  };
+  
+  // Make an older revision the current timetable
+  const handleRestoreRevision = async (revision: LoadedTimetableRevision) => {
+    const saveResult = await restoreTimetableRevision(revision, username || undefined);
+    if (!saveResult.success || !revision.timetable) {
+      toast({
+        title: "Error",
+        description: saveResult.message || "An error occurred while restoring the revision.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setTimetable(revision.timetable);
+    toast({
+      title: "Revision restored",
+      description: `The timetable as saved on ${new Date(revision.createdAt).toLocaleString()} is the current version`,
+    });
+  };
+  
+  // While a regenerated timetable is under review it is shown in place of the stored one
+  const displayedTimetable = pendingGeneration ? pendingGeneration.timetable : timetable;
+  
   return (
     <div className="space-y-6">
       {/* Action buttons for navigation, editing and printing */}
-      <TimetableActions 
-        timetable={timetable}
+      <TimetableActions
+        timetable={displayedTimetable}
         printRef={printRef}
         userRole={userRole}
         timetableId={id}
+        onRegenerateUnlocked={handleRegenerateUnlocked}
       />
       
+      {/* Report of the regenerated timetable, saved only on confirmation */}
+      {pendingGeneration && (
+        <GenerationReport
+          report={pendingGeneration.report}
+          saveLabel="Save Regenerated Timetable"
+          onSave={handleSaveRegenerated}
+          onDiscard={() => setPendingGeneration(null)}
+        />
+      )}
+      
       {/* Main timetable content container (referenced for printing) */}
       <div className="border rounded-lg p-6 bg-white print:border-none" ref={printRef}>
         {/* Header with class, department and date information */}
         <div className="mb-6">
-          <TimetableHeaderInfo timetable={timetable} />
+          <TimetableHeaderInfo timetable={displayedTimetable} />
         </div>
         
-        {/* The actual timetable grid display */}
-        <TimetableView 
-          timetable={timetable} 
+        {/* The actual timetable grid display; admins can lock cells */}
+        <TimetableView
+          timetable={displayedTimetable}
           printMode={false}
+          onToggleLock={userRole === 'admin' && !pendingGeneration ? handleToggleLock : undefined}
         />
-
+        
         {/* Faculty details shown in both print and normal view */}
-        <TimetableFacultyDetails timetable={timetable} printMode={false} />
+        <TimetableFacultyDetails timetable={displayedTimetable} printMode={false} />
       </div>
+      
+      {/* Soft constraint score; a regenerated timetable is compared with the stored one */}
+      {userRole === 'admin' && (
+        <TimetableScoreCard
+          timetable={displayedTimetable}
+          compareTo={pendingGeneration ? timetable : undefined}
+        />
+      )}
+      
+      {/* Saved revisions; restoring waits until a regenerated timetable is saved or discarded */}
+      {userRole === 'admin' && (
+        <TimetableHistory
+          timetable={timetable}
+          onRestore={!pendingGeneration ? handleRestoreRevision : undefined}
+        />
+      )}
     </div>
   );
 };
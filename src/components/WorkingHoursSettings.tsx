@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RotateCcw, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { YearType } from '@/utils/types';
+import {
+  DEFAULT_PERIODS_PER_DAY,
+  getBellSchedules,
+  getPeriodsPerDay,
+  getTeachingPeriods,
+  savePeriodsPerDay
+} from '@/utils/bellScheduleUtils';
+
+const YEARS: YearType[] = ['1st Year', '2nd Year', '3rd Year', '4th Year'];
+
+// Teaching periods a day of every year, e.g. 8 to use the standard 4:30-5:20 period
+const WorkingHoursSettings: React.FC = () => {
+  const { toast } = useToast();
+  const [periodsPerDay, setPeriodsPerDay] = useState<Record<YearType, number>>(() => getPeriodsPerDay());
+
+  // No bell schedule has more periods than this
+  const maxPeriods = Math.max(...getBellSchedules().map(schedule => getTeachingPeriods(schedule).length));
+
+  const handlePeriodsChange = (year: YearType, value: string) => {
+    const periods = parseInt(value, 10);
+    setPeriodsPerDay(prev => ({
+      ...prev,
+      [year]: isNaN(periods) ? 1 : Math.min(maxPeriods, Math.max(1, periods))
+    }));
+  };
+
+  const handleSave = () => {
+    savePeriodsPerDay(periodsPerDay);
+    toast({
+      title: "Working hours saved",
+      description: "Timetables of each year now use its periods per day",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Working Hours</CardTitle>
+        <CardDescription>
+          Teaching periods a day of each year, counted from the first period of its bell schedule.
+          Set a year to 8 to use the 4:30-5:20 period of the standard schedule. Saved timetables
+          follow the new setting, so entries in periods a year no longer has are not shown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {YEARS.map(year => (
+            <div key={year} className="space-y-2">
+              <Label htmlFor={`periods-${year}`}>{year}</Label>
+              <Input
+                id={`periods-${year}`}
+                type="number"
+                min={1}
+                max={maxPeriods}
+                value={periodsPerDay[year]}
+                onChange={(e) => handlePeriodsChange(year, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setPeriodsPerDay(DEFAULT_PERIODS_PER_DAY)}
+            className="flex items-center gap-2"
+          >
+            <RotateCcw className="h-4 w-4" /> Reset to Defaults
+          </Button>
+          <Button onClick={handleSave} className="flex items-center gap-2">
+            <Save className="h-4 w-4" /> Save Working Hours
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkingHoursSettings;
@@ -0,0 +1,204 @@
+
+// Import necessary modules from React, UI components and utils
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { GenerationResult } from '@/utils/timetableUtils';
+import { getTimetableMetrics, scoreTimetable, TimetableMetrics } from '@/utils/timetableScoreUtils';
+import TimetableView from '../TimetableView';
+
+// Define the props interface for the CandidateComparison component
+interface CandidateComparisonProps {
+  candidates: GenerationResult[]; // Candidate timetables generated from the same form data
+  onPick: (index: number) => void; // Continue with the chosen candidate
+  onDiscard: () => void; // Drop all candidates
+}
+
+// A row of the metrics table: its label, how to show a value and which value is best
+interface MetricRow {
+  label: string;
+  format: (metrics: TimetableMetrics) => string;
+  value: (metrics: TimetableMetrics) => number;
+  higherIsBetter: boolean;
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  {
+    label: 'Faculty idle gaps',
+    format: metrics => `${metrics.facultyIdleGaps} periods`,
+    value: metrics => metrics.facultyIdleGaps,
+    higherIsBetter: false
+  },
+  {
+    label: 'Subject spread',
+    format: metrics => `${Math.round(metrics.subjectSpread)}%`,
+    value: metrics => metrics.subjectSpread,
+    higherIsBetter: true
+  },
+  {
+    label: 'Lab placement',
+    format: metrics => `${metrics.labSessions} labs on ${metrics.labDays} days, ${metrics.morningLabs} in the morning`,
+    value: metrics => metrics.labDays,
+    higherIsBetter: true
+  },
+  {
+    label: 'Free hours at end of day',
+    format: metrics => `${metrics.freeHoursAtEnd} of ${metrics.freeHours}`,
+    value: metrics => metrics.freeHours > 0 ? metrics.freeHoursAtEnd / metrics.freeHours : 1,
+    higherIsBetter: true
+  }
+];
+
+// CandidateComparison Component
+// Lists the quality metrics of every candidate and shows two of them side by
+// side so the admin can pick the one to save
+const CandidateComparison: React.FC<CandidateComparisonProps> = ({ candidates, onPick, onDiscard }) => {
+  const [shown, setShown] = useState<[number, number]>([0, Math.min(1, candidates.length - 1)]);
+
+  const summaries = useMemo(() => candidates.map(candidate => ({
+    score: scoreTimetable(candidate.timetable).score,
+    metrics: getTimetableMetrics(candidate.timetable),
+    placed: candidate.report.items.reduce((sum, item) => sum + item.placedPeriods, 0),
+    requested: candidate.report.items.reduce((sum, item) => sum + item.requestedPeriods, 0)
+  })), [candidates]);
+
+  // Best value of a row over all candidates, highlighted in the table
+  const bestValue = (row: MetricRow): number => {
+    const values = summaries.map(summary => row.value(summary.metrics));
+    return row.higherIsBetter ? Math.max(...values) : Math.min(...values);
+  };
+
+  const bestScore = Math.max(...summaries.map(summary => summary.score));
+
+  const renderPane = (pane: 0 | 1) => {
+    const index = shown[pane];
+    return (
+      <div className="space-y-2 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <Select
+            value={String(index)}
+            onValueChange={(value) => setShown(prev => {
+              const next: [number, number] = [...prev];
+              next[pane] = parseInt(value, 10);
+              return next;
+            })}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((_, candidateIndex) => (
+                <SelectItem key={candidateIndex} value={String(candidateIndex)}>
+                  Candidate {candidateIndex + 1}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => onPick(index)}>Use Candidate {index + 1}</Button>
+        </div>
+        <div className="overflow-x-auto border rounded-lg p-2 bg-white">
+          <TimetableView timetable={candidates[index].timetable} printMode={false} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle>Compare Candidates</CardTitle>
+        <CardDescription>
+          {candidates.length} timetables were generated from the same settings. Compare them and pick one to review and save.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                {candidates.map((candidate, index) => (
+                  <TableHead key={index} className="text-center">
+                    Candidate {index + 1}
+                    <div className="text-xs font-normal">Seed {candidate.timetable.seed}</div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="font-medium">Quality score</TableCell>
+                {summaries.map((summary, index) => (
+                  <TableCell key={index} className={`text-center ${summary.score === bestScore ? 'font-semibold text-green-700' : ''}`}>
+                    {Math.round(summary.score)}
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">Periods placed</TableCell>
+                {summaries.map((summary, index) => (
+                  <TableCell key={index} className="text-center">
+                    {summary.placed < summary.requested ? (
+                      <Badge variant="outline" className="bg-red-50 text-red-700 hover:bg-red-50">
+                        {summary.placed} / {summary.requested}
+                      </Badge>
+                    ) : (
+                      `${summary.placed} / ${summary.requested}`
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+              {METRIC_ROWS.map(row => {
+                const best = bestValue(row);
+                return (
+                  <TableRow key={row.label}>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    {summaries.map((summary, index) => (
+                      <TableCell
+                        key={index}
+                        className={`text-center ${row.value(summary.metrics) === best ? 'font-semibold text-green-700' : ''}`}
+                      >
+                        {row.format(summary.metrics)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+              <TableRow>
+                <TableCell />
+                {candidates.map((_, index) => (
+                  <TableCell key={index} className="text-center">
+                    <Button variant="outline" size="sm" onClick={() => onPick(index)}>Use</Button>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Split view of two candidates */}
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          {renderPane(0)}
+          {renderPane(1)}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onDiscard}>Discard All</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Export the component as default
+export default CandidateComparison;
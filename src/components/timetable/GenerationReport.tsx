@@ -0,0 +1,104 @@
+
+// Import necessary modules from React, UI components and utils
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { GenerationReport as GenerationReportData } from '@/utils/timetableUtils';
+
+// Define the props interface for the GenerationReport component
+interface GenerationReportProps {
+  report: GenerationReportData; // Report of the generated timetable
+  title?: string; // Optional card title, e.g. the class when several are generated
+  saveLabel?: string; // Label of the save button
+  onSave?: () => void; // Save the generated timetable; buttons are hidden without it
+  onDiscard?: () => void; // Drop the generated timetable
+}
+
+// GenerationReport Component
+// Lists requested vs. placed periods per subject after auto-generation so the
+// admin can review what is missing before saving
+const GenerationReport: React.FC<GenerationReportProps> = ({
+  report,
+  title = 'Generation Report',
+  saveLabel = 'Save Timetable',
+  onSave,
+  onDiscard
+}) => {
+  const shortItems = report.items.filter(item => item.placedPeriods < item.requestedPeriods);
+
+  return (
+    <Card className={`mt-4 ${report.complete ? '' : 'border-destructive'}`}>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>
+          {report.complete
+            ? 'Every subject received all of its periods.'
+            : `${shortItems.length} subject${shortItems.length === 1 ? '' : 's'} could not be fully placed. Saving keeps the missing periods as free hours.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Subject</TableHead>
+              <TableHead>Teacher</TableHead>
+              <TableHead className="text-center">Requested</TableHead>
+              <TableHead className="text-center">Placed</TableHead>
+              <TableHead>Reason</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.items.map(item => {
+              const isShort = item.placedPeriods < item.requestedPeriods;
+              return (
+                <TableRow key={item.pairId} className={isShort ? 'bg-red-50' : ''}>
+                  <TableCell className="font-medium">
+                    {item.subjectName}
+                    {item.batchNumber && <span className="text-xs ml-1">({item.batchNumber})</span>}
+                  </TableCell>
+                  <TableCell>{item.teacherNames.join(' & ')}</TableCell>
+                  <TableCell className="text-center">{item.requestedPeriods}</TableCell>
+                  <TableCell className="text-center">
+                    {isShort ? (
+                      <Badge variant="outline" className="bg-red-50 text-red-700 hover:bg-red-50">
+                        {item.placedPeriods}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-green-50 text-green-700 hover:bg-green-50">
+                        {item.placedPeriods}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {item.reasons.join(' ')}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {onSave && (
+          <div className="flex justify-end gap-2">
+            {onDiscard && <Button variant="outline" onClick={onDiscard}>Discard</Button>}
+            <Button variant={report.complete ? 'default' : 'destructive'} onClick={onSave}>
+              {report.complete ? saveLabel : `${saveLabel} Anyway`}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Export the component as default
+export default GenerationReport;
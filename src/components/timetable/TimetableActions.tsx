@@ -2,7 +2,7 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Pencil } from 'lucide-react';
+import { ArrowLeft, Pencil, RefreshCw } from 'lucide-react';
 import TimetablePDFExport from './TimetablePDFExport';
 import { Timetable } from '@/utils/types';
 import { UserRole } from '@/utils/types';
@@ -13,12 +13,14 @@ import { UserRole } from '@/utils/types';
  * @property {React.RefObject<HTMLDivElement>} printRef - Reference to the printable timetable content
  * @property {UserRole} userRole - Optional user role to determine edit permissions
  * @property {string} timetableId - Optional ID of the timetable for edit navigation
+ * @property {Function} onRegenerateUnlocked - Optional handler regenerating the cells that are not locked
  */
 interface TimetableActionsProps {
   timetable: Timetable;
   printRef: React.RefObject<HTMLDivElement>;
   userRole?: UserRole;
   timetableId?: string;
+  onRegenerateUnlocked?: () => void;
 }
 
 /**
@@ -27,6 +29,7 @@ interface TimetableActionsProps {
  * This component renders action buttons for timetable operations including:
  * - Navigation back to dashboard
  * - Edit button (only visible to admin users)
+ * - Regenerate button for the unlocked cells (only visible to admin users)
  * - Print/Export functionality
  * 
  * The component is typically displayed at the top of the timetable view page
@@ -36,7 +39,8 @@ const TimetableActions: React.FC<TimetableActionsProps> = ({
   timetable, 
   printRef, 
   userRole,
-  timetableId 
+  timetableId,
+  onRegenerateUnlocked
 }) => {
   // Hook for programmatic navigation
   const navigate = useNavigate();
@@ -89,6 +93,17 @@ const TimetableActions: React.FC<TimetableActionsProps> = ({
             Edit
           </Button>
         )}
+        {/* Regenerate everything except the locked cells (admin only) */}
+        {userRole === 'admin' && onRegenerateUnlocked && (
+          <Button 
+            variant="outline" 
+            onClick={onRegenerateUnlocked}
+            className="flex items-center gap-1"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Regenerate Unlocked
+          </Button>
+        )}
         {/* PDF Export component with timetable data and print reference */}
         <TimetablePDFExport timetable={timetable} printRef={printRef} />
       </div>
@@ -4,10 +4,14 @@ import React, { useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { FileDown, Printer } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { Timetable } from '@/utils/types';
+import { Timetable, TimeSlot, TimetableEntry } from '@/utils/types';
 import TimetableHeaderInfo from './TimetableHeaderInfo';
 import TimetableView from '../TimetableView';
 import TimetableFacultyDetails from './TimetableFacultyDetails';
+import { expandTimeSlot, getBellScheduleForDay, getBellScheduleForTimetable, getPeriodSegments, getTeachingPeriods } from '@/utils/bellScheduleUtils';
+import { getFreeHourLabel, isSameFreeBlock } from '@/utils/freeHourUtils';
+import { formatTeacherNames } from '@/utils/facultyLabUtils';
+import { WEEK_DAYS } from '@/utils/dayUtils';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 
 interface TimetableDownloadButtonProps {
@@ -181,17 +185,8 @@ const handleDownloadPDF = () => {
   // Helper function to generate time slot headers
   // Helper function to generate table headers for timetable time slots
 const generateTimeSlotHeaders = (timetable: Timetable) => {
-    const timeSlots = new Set<string>();
-    timetable.entries.forEach(entry => timeSlots.add(entry.timeSlot));
-    
-    const sortedTimeSlots = Array.from(timeSlots).sort((a, b) => {
-      const timeA = a.split('-')[0];
-      const timeB = b.split('-')[0];
-      return timeA.localeCompare(timeB);
-    });
-    
-    return sortedTimeSlots
-      .filter(slot => !slot.includes('11:10-11:20') && !slot.includes('1:00-2:00'))
+    // Teaching periods of the timetable's bell schedule (breaks and lunch are left out)
+    return getTeachingPeriods(getBellScheduleForTimetable(timetable.formData))
       .map(slot => `<th>${slot}</th>`)
       .join('');
   };
@@ -199,32 +194,44 @@ const generateTimeSlotHeaders = (timetable: Timetable) => {
   // Helper function to generate timetable rows
   // Helper function to generate timetable rows with proper formatting and styling
 const generateTimetableRows = (timetable: Timetable) => {
-    const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const timeSlots = new Set<string>();
-    timetable.entries.forEach(entry => timeSlots.add(entry.timeSlot));
+    const schedule = getBellScheduleForTimetable(timetable.formData);
+    const sortedTimeSlots = getTeachingPeriods(schedule);
+    const segments = getPeriodSegments(schedule);
     
-    const sortedTimeSlots = Array.from(timeSlots)
-      .filter(slot => !slot.includes('11:10-11:20') && !slot.includes('1:00-2:00'))
-      .sort((a, b) => {
-        const timeA = a.split('-')[0];
-        const timeB = b.split('-')[0];
-        return timeA.localeCompare(timeB);
-      });
-    
-    return days.map(day => {
+    return WEEK_DAYS.map(day => {
       const dayEntries = timetable.entries.filter(entry => entry.day === day);
       const isActiveDayInTimetable = dayEntries.length > 0;
       
       if (!isActiveDayInTimetable) return '';
       
+      // Lab entries are stored on a combined slot spanning several periods. A lab rotation
+      // has one entry per batch, all of them shown in the cell as on screen.
+      const labsAt = (period: TimeSlot): TimetableEntry[] => {
+        const labs = dayEntries.filter(e => e.isLab && expandTimeSlot(e.timeSlot, schedule).includes(period));
+        const groupIds = new Set(labs.map(e => e.labGroupId).filter(Boolean));
+        return [...new Set([...labs, ...dayEntries.filter(e => e.labGroupId && groupIds.has(e.labGroupId))])];
+      };
+      
       let rowHtml = `<tr><td><strong>${day}</strong></td>`;
+      // Periods of the day; a shorter day leaves the rest of the row empty
+      const dayPeriods = getTeachingPeriods(getBellScheduleForDay(timetable.formData, day));
       
-      for (const slot of sortedTimeSlots) {
-        const entry = dayEntries.find(e => e.timeSlot === slot);
+      for (let index = 0; index < sortedTimeSlots.length; index++) {
+        const slot = sortedTimeSlots[index];
+        
+        if (!dayPeriods.includes(slot)) {
+          const rest = sortedTimeSlots.slice(index).filter(period => !dayPeriods.includes(period)).length;
+          rowHtml += `<td class="break-slot" colspan="${rest}"></td>`;
+          break;
+        }
+        
+        const labs = labsAt(slot);
+        const entry = dayEntries.find(e => e.timeSlot === slot) || labs[0];
         
         if (entry) {
           let cellClass = '';
           let content = '';
+          let colSpan = 1;
           
           if (entry.isBreak) {
             cellClass = 'break-slot';
@@ -234,20 +241,44 @@ const generateTimetableRows = (timetable: Timetable) => {
             content = 'Lunch';
           } else if (entry.isFree) {
             cellClass = 'free-slot';
-            content = entry.freeType || 'Free';
+            content = getFreeHourLabel(entry);
+            // A merging free hour is one cell over its consecutive periods, split by breaks and lunch
+            const segment = segments.find(periods => periods.includes(slot)) || [];
+            while (
+              index + colSpan < sortedTimeSlots.length &&
+              segment.includes(sortedTimeSlots[index + colSpan]) &&
+              isSameFreeBlock(entry, dayEntries.find(e => e.timeSlot === sortedTimeSlots[index + colSpan]))
+            ) {
+              colSpan++;
+            }
           } else if (entry.isLab) {
             cellClass = 'lab-slot';
-            content = `${entry.subjectName}<br/>(${entry.teacherName})`;
-            if (entry.batchNumber) {
-              content += `<br/>Batch: ${entry.batchNumber}`;
+            content = labs
+              .map(lab => `${lab.subjectName}<br/>(${formatTeacherNames(lab)})${lab.batchNumber ? `<br/>Batch: ${lab.batchNumber}` : ''}`)
+              .join('<hr style="border: none; border-top: 1px dashed #999; margin: 4px 0;"/>');
+            // A lab is one cell over its consecutive periods, split by breaks and lunch
+            const segment = segments.find(periods => periods.includes(slot)) || [];
+            const hasSameLabs = (period: TimeSlot) => {
+              const other = labsAt(period);
+              return other.length === labs.length && other.every(lab => labs.includes(lab));
+            };
+            while (
+              index + colSpan < sortedTimeSlots.length &&
+              segment.includes(sortedTimeSlots[index + colSpan]) &&
+              hasSameLabs(sortedTimeSlots[index + colSpan])
+            ) {
+              colSpan++;
             }
           } else if (entry.subjectName) {
-            content = `${entry.subjectName}<br/>(${entry.teacherName})`;
+            content = `${entry.subjectName}${entry.isTutorial ? ' (Tutorial)' : ''}<br/>(${entry.teacherName})`;
           } else {
             content = '-';
           }
           
-          rowHtml += `<td class="${cellClass}">${content}</td>`;
+          rowHtml += colSpan > 1
+            ? `<td class="${cellClass}" colspan="${colSpan}">${content}</td>`
+            : `<td class="${cellClass}">${content}</td>`;
+          index += colSpan - 1;
         } else {
           rowHtml += '<td>-</td>';
         }
@@ -3,6 +3,7 @@
 import React from 'react';
 import { Timetable } from '@/utils/types';
 import { formatTeacherNames } from '@/utils/facultyLabUtils';
+import { formatSubjectHours } from '@/utils/subjectsUtils';
 
 // Define the props interface for the TimetableFacultyDetails component
 interface TimetableFacultyDetailsProps {
@@ -30,6 +31,7 @@ const TimetableFacultyDetails: React.FC<TimetableFacultyDetailsProps> = ({ timet
             {pair.batchNumber && ( // Conditional display for batch number
               <span className="text-xs ml-1">({pair.batchNumber})</span>
             )}
+            <span className="text-xs ml-1 text-muted-foreground">L-T-P {formatSubjectHours(pair)}</span>
           </div>
         ))}
       </div>
@@ -62,6 +62,11 @@ const TimetableHeaderInfo: React.FC<TimetableHeaderInfoProps> = ({ timetable, pr
         <div><span className="font-semibold">Mobile Number:</span> {timetable.formData.mobileNumber}</div>
         <div><span className="font-semibold">W.E.F:</span> {timetable.formData.date || new Date().toISOString().split('T')[0]}</div>
       </div>
+      {timetable.seed !== undefined && (
+        <div className="px-2 text-xs text-muted-foreground print:hidden">
+          Generation seed: {timetable.seed}
+        </div>
+      )}
     </div>
     
   );
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from '@/components/ui/badge';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { History, RotateCcw } from 'lucide-react';
+import { Timetable } from '@/utils/types';
+import { LoadedTimetableRevision, diffTimetables, getTimetableRevisions } from '@/utils/timetableRevisionUtils';
+
+interface TimetableHistoryProps {
+  timetable: Timetable; // Stored timetable; its history is read again whenever it changes
+  onRestore?: (revision: LoadedTimetableRevision) => void; // Omitted for users who cannot restore
+}
+
+const formatRevision = (revision: LoadedTimetableRevision): string =>
+  `${new Date(revision.createdAt).toLocaleString()} · ${revision.author}`;
+
+// TimetableHistory Component
+// Lists the saved revisions of a timetable, compares any two cell by cell
+// and restores an older one as the current version
+const TimetableHistory: React.FC<TimetableHistoryProps> = ({ timetable, onRestore }) => {
+  const [revisions, setRevisions] = useState<LoadedTimetableRevision[]>([]);
+  // Revisions compared, by default the latest one against the one before it
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  useEffect(() => {
+    getTimetableRevisions(timetable.id).then(loaded => {
+      setRevisions(loaded);
+      setFromId(loaded[1]?.id || '');
+      setToId(loaded[0]?.id || '');
+    });
+  }, [timetable]);
+
+  const from = revisions.find(revision => revision.id === fromId);
+  const to = revisions.find(revision => revision.id === toId);
+  const changes = useMemo(
+    () => from?.timetable && to?.timetable ? diffTimetables(from.timetable, to.timetable) : null,
+    [from, to]
+  );
+
+  const renderRevisionSelect = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="w-72">
+          <SelectValue placeholder="Select a revision" />
+        </SelectTrigger>
+        <SelectContent>
+          {revisions.filter(revision => revision.timetable).map(revision => (
+            <SelectItem key={revision.id} value={revision.id}>{formatRevision(revision)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" /> History
+        </CardTitle>
+        <CardDescription>
+          Every save of this timetable is kept as a revision. Restoring one saves it as a new revision,
+          so a restore can be undone the same way.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No revisions yet. History starts with the next save of this timetable.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="flex items-start justify-between gap-4 p-3 rounded-md border border-border">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatRevision(revision)}</span>
+                    {index === 0 && <Badge variant="outline">Latest</Badge>}
+                  </div>
+                  {revision.note && <div className="text-muted-foreground">{revision.note}</div>}
+                  {revision.problem && <div className="text-red-700">Cannot be read: {revision.problem}</div>}
+                </div>
+                {onRestore && index > 0 && revision.timetable && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" size="sm" className="flex items-center gap-2 shrink-0">
+                        <RotateCcw className="h-4 w-4" /> Restore
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Restore Revision</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The timetable as saved by {revision.author} on {new Date(revision.createdAt).toLocaleString()} becomes
+                          the current version. The current version stays in the history.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => onRestore(revision)}>Restore</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {revisions.length > 1 && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-4">
+              {renderRevisionSelect('history-from', fromId, setFromId, 'Compare')}
+              {renderRevisionSelect('history-to', toId, setToId, 'With')}
+            </div>
+
+            {changes && (changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No cells differ between these revisions.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map(change => (
+                    <TableRow key={`${change.day}-${change.timeSlot}`}>
+                      <TableCell>{change.day}</TableCell>
+                      <TableCell>{change.timeSlot}</TableCell>
+                      <TableCell className="whitespace-pre-line text-red-700">{change.before || '—'}</TableCell>
+                      <TableCell className="whitespace-pre-line text-green-700">{change.after || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimetableHistory;
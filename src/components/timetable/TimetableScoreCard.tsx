@@ -0,0 +1,94 @@
+
+// Import necessary modules from React, UI components and utils
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Timetable } from '@/utils/types';
+import { scoreTimetable } from '@/utils/timetableScoreUtils';
+
+// Define the props interface for the TimetableScoreCard component
+interface TimetableScoreCardProps {
+  timetable: Timetable; // Timetable to score
+  compareTo?: Timetable; // Optional timetable whose score is shown alongside, e.g. the stored version
+}
+
+// Details listed per preference before the rest is summarized
+const MAX_DETAILS = 3;
+
+// Colour of a score badge
+const scoreClassName = (score: number): string => {
+  if (score >= 90) return 'bg-green-50 text-green-700 hover:bg-green-50';
+  if (score >= 70) return 'bg-amber-50 text-amber-700 hover:bg-amber-50';
+  return 'bg-red-50 text-red-700 hover:bg-red-50';
+};
+
+// TimetableScoreCard Component
+// Shows how well a timetable meets the soft scheduling preferences, with the
+// score of every preference so admins can compare candidate timetables
+const TimetableScoreCard: React.FC<TimetableScoreCardProps> = ({ timetable, compareTo }) => {
+  const score = useMemo(() => scoreTimetable(timetable), [timetable]);
+  const comparedScore = useMemo(() => compareTo && scoreTimetable(compareTo), [compareTo]);
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Quality Score
+          <Badge variant="outline" className={scoreClassName(score.score)}>
+            {Math.round(score.score)} / 100
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          How well the timetable meets the scheduling preferences set in Admin Settings.
+          {comparedScore && ` The stored timetable scores ${Math.round(comparedScore.score)}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Preference</TableHead>
+              <TableHead className="text-center">Weight</TableHead>
+              <TableHead className="text-center">Score</TableHead>
+              {comparedScore && <TableHead className="text-center">Stored</TableHead>}
+              <TableHead>Issues</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {score.items.map((item, index) => (
+              <TableRow key={item.kind} className={item.weight === 0 ? 'text-muted-foreground' : ''}>
+                <TableCell className="font-medium">{item.label}</TableCell>
+                <TableCell className="text-center">{item.weight}</TableCell>
+                <TableCell className="text-center">
+                  <Badge variant="outline" className={scoreClassName(item.score)}>
+                    {Math.round(item.score)}
+                  </Badge>
+                </TableCell>
+                {comparedScore && (
+                  <TableCell className="text-center">{Math.round(comparedScore.items[index].score)}</TableCell>
+                )}
+                <TableCell className="text-sm text-muted-foreground">
+                  {item.details.length === 0
+                    ? 'None'
+                    : item.details.slice(0, MAX_DETAILS).join('; ') +
+                      (item.details.length > MAX_DETAILS ? `; and ${item.details.length - MAX_DETAILS} more` : '')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Export the component as default
+export default TimetableScoreCard;
@@ -3,9 +3,23 @@ import { createRoot } from 'react-dom/client';
 import React from 'react';
 import App from './App.tsx';
 import './index.css';
+import { initializeStorage } from './utils/storageUtils';
+import { toast } from './hooks/use-toast';
 
 const rootElement = document.getElementById("root");
 if (!rootElement) throw new Error('Root element not found');
 
 const root = createRoot(rootElement);
-root.render(<App />);
+
+// Stored data is loaded before the first render, so pages can read it synchronously.
+// The app is rendered even when loading fails, with the error shown.
+initializeStorage()
+  .catch(error => {
+    console.error("Error loading saved data:", error);
+    toast({
+      title: "Saved data could not be loaded",
+      description: error instanceof Error ? error.message : "Storage could not be opened",
+      variant: "destructive",
+    });
+  })
+  .then(() => root.render(<App />));
@@ -0,0 +1,147 @@
+// Import necessary dependencies and components
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, CheckCircle2, Pencil, RefreshCw } from 'lucide-react';
+import { getTimetables } from '@/utils/timetableUtils';
+import {
+  ConflictCell,
+  TimetableConflict,
+  TIMETABLE_CONFLICT_KINDS,
+  TIMETABLE_CONFLICT_LABELS,
+  findTimetableConflicts
+} from '@/utils/timetableConflictUtils';
+import DashboardLayout from '@/components/DashboardLayout';
+
+// Editor link that opens the manual grid at the conflicting cell
+const getEditCellPath = (cell: ConflictCell): string => {
+  const params = new URLSearchParams({ day: cell.day, slot: cell.timeSlot });
+  return `/edit-timetable/${cell.timetableId}?${params.toString()}`;
+};
+
+const Conflicts = () => {
+  // Authentication and navigation hooks
+  const { isAuthenticated, userRole } = useAuth();
+  const navigate = useNavigate();
+
+  const [conflicts, setConflicts] = useState<TimetableConflict[]>([]);
+  const [timetableCount, setTimetableCount] = useState<number>(0);
+
+  // Scan every stored timetable
+  const scan = useCallback(() => {
+    const timetables = getTimetables();
+    setTimetableCount(timetables.length);
+    setConflicts(findTimetableConflicts(timetables));
+  }, []);
+
+  useEffect(() => {
+    // Redirect to login if not authenticated
+    if (!isAuthenticated) {
+      navigate('/');
+      return;
+    }
+
+    // Only allow admin access to this page
+    if (userRole !== 'admin') {
+      navigate('/dashboard');
+      return;
+    }
+
+    scan();
+  }, [isAuthenticated, userRole, navigate, scan]);
+
+  const renderCell = (cell: ConflictCell) => (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <Link to={`/view-timetable/${cell.timetableId}`} className="hover:underline">
+        <span className="font-medium">{cell.classLabel}</span>
+        <span className="text-muted-foreground"> · {cell.day} {cell.timeSlot} · {cell.subjectName}</span>
+      </Link>
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex items-center gap-1"
+        onClick={() => navigate(getEditCellPath(cell))}
+      >
+        <Pencil className="h-3 w-3" /> Edit
+      </Button>
+    </div>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto py-8 px-4 relative z-10">
+        {/* Header section with title and back button */}
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl bg-white p-4 rounded-full font-bold">Conflicts</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={scan} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Rescan
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate('/dashboard')}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+
+        {conflicts.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3 text-green-700">
+                <CheckCircle2 className="h-5 w-5" />
+                No conflicts found in {timetableCount} timetables.
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {TIMETABLE_CONFLICT_KINDS.map(kind => {
+              const ofKind = conflicts.filter(conflict => conflict.kind === kind);
+              return (
+                <Card key={kind}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      {TIMETABLE_CONFLICT_LABELS[kind]}
+                      <Badge
+                        variant="outline"
+                        className={ofKind.length > 0 ? 'bg-red-50 text-red-700 hover:bg-red-50' : ''}
+                      >
+                        {ofKind.length}
+                      </Badge>
+                    </CardTitle>
+                    <CardDescription>
+                      Found in {timetableCount} stored timetables. Edit a cell to open the timetable at that slot.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {ofKind.length === 0 ? (
+                      <div className="text-sm text-muted-foreground">None</div>
+                    ) : (
+                      ofKind.map((conflict, index) => (
+                        <div key={index} className="p-3 rounded-md border border-border space-y-2">
+                          <p className="text-sm">{conflict.message}</p>
+                          {renderCell(conflict.cells[0])}
+                          {renderCell(conflict.cells[1])}
+                        </div>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Conflicts;
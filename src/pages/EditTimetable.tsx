@@ -1,10 +1,11 @@
 
 import React, { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import CreateTimetableForm from '@/components/CreateTimetableForm';
 import { useAuth } from '@/contexts/AuthContext';
 import { getTimetableById } from '@/utils/timetableUtils';
 import { Timetable } from '@/utils/types';
+import { normalizeDay } from '@/utils/dayUtils';
 import DashboardLayout from '@/components/DashboardLayout';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -24,6 +25,11 @@ const EditTimetable = () => {
   const navigate = useNavigate();
   // Extract timetable ID from URL parameters
   const { id } = useParams<{ id: string }>();
+  // Optional cell to open the grid at, e.g. ?day=Monday&slot=9:30-10:20 from the conflicts page
+  const [searchParams] = useSearchParams();
+  const focusDay = normalizeDay(searchParams.get('day') || '');
+  const focusSlot = searchParams.get('slot');
+  const focusCell = focusDay && focusSlot ? { day: focusDay, timeSlot: focusSlot } : undefined;
   const { toast } = useToast();
   
   // State for storing the timetable data and loading status
@@ -126,7 +132,7 @@ const EditTimetable = () => {
           </Button>
         </div>
         {/* Render the timetable form with existing data */}
-        {timetable && <CreateTimetableForm existingTimetable={timetable} initialMode="manual" />}
+        {timetable && <CreateTimetableForm existingTimetable={timetable} initialMode="manual" focusCell={focusCell} />}
       </div>
     </DashboardLayout>
   );
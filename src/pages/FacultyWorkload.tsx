@@ -35,8 +35,7 @@ const FacultyWorkload: React.FC<FacultyWorkloadProps> = () => {
     }
     
     // Get faculty workload information
-    const workloadInfo = getFacultyWorkloadInfo();
-    setFacultyWorkload(workloadInfo);
+    getFacultyWorkloadInfo().then(setFacultyWorkload);
   }, [isAuthenticated, userRole, navigate]);
   
   return (
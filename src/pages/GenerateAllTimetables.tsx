@@ -0,0 +1,299 @@
+// Import necessary dependencies and components
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Timetable, TimetableDraft, TimetableFormData } from '@/utils/types';
+import {
+  getTimetables,
+  generateTimetablesTogether,
+  saveTimetables,
+  getClassLabel,
+  BatchGenerationResult
+} from '@/utils/timetableUtils';
+import { getTimetableDrafts, deleteTimetableDrafts } from '@/utils/timetableDraftUtils';
+import { hitSearchLimit } from '@/utils/timetableSolver';
+import GenerationReport from '@/components/timetable/GenerationReport';
+import DashboardLayout from '@/components/DashboardLayout';
+
+// A class that can take part in batch generation: a draft or a stored timetable
+interface BatchSource {
+  key: string;
+  label: string;
+  formData: TimetableFormData;
+  draft?: TimetableDraft;
+  timetable?: Timetable;
+}
+
+const GenerateAllTimetables = () => {
+  // Authentication and navigation hooks
+  const { isAuthenticated, userRole, username } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [drafts, setDrafts] = useState<TimetableDraft[]>([]);
+  const [timetables, setTimetables] = useState<Timetable[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [seed, setSeed] = useState<string>('');
+  // Generated batch and the sources it was generated from, saved on confirmation
+  const [batchResult, setBatchResult] = useState<BatchGenerationResult | null>(null);
+  const [batchSources, setBatchSources] = useState<BatchSource[]>([]);
+
+  // Authentication and initial data loading
+  useEffect(() => {
+    // Redirect to login if not authenticated
+    if (!isAuthenticated) {
+      navigate('/');
+      return;
+    }
+
+    // Only allow admin access to this page
+    if (userRole !== 'admin') {
+      navigate('/dashboard');
+      return;
+    }
+
+    setDrafts(getTimetableDrafts());
+    setTimetables(getTimetables());
+  }, [isAuthenticated, userRole, navigate]);
+
+  const sources: BatchSource[] = [
+    ...drafts.map(draft => ({
+      key: `draft-${draft.id}`,
+      label: getClassLabel(draft.formData),
+      formData: draft.formData,
+      draft
+    })),
+    ...timetables.map(timetable => ({
+      key: `timetable-${timetable.id}`,
+      label: getClassLabel(timetable.formData),
+      formData: timetable.formData,
+      timetable
+    }))
+  ];
+
+  // Stored timetable of the same class, replaced when a draft is generated
+  const findStoredTimetable = (source: BatchSource): Timetable | undefined => {
+    return source.timetable || timetables.find(timetable => getClassLabel(timetable.formData) === source.label);
+  };
+
+  const handleToggleSource = (key: string, checked: boolean) => {
+    setSelectedKeys(prev => checked ? [...prev, key] : prev.filter(k => k !== key));
+    setBatchResult(null);
+  };
+
+  const handleDeleteDraft = (draft: TimetableDraft) => {
+    deleteTimetableDrafts([draft.id]);
+    setDrafts(getTimetableDrafts());
+    setSelectedKeys(prev => prev.filter(key => key !== `draft-${draft.id}`));
+    setBatchResult(null);
+  };
+
+  // Solve the selected classes together
+  const handleGenerate = () => {
+    const selected = sources.filter(source => selectedKeys.includes(source.key));
+
+    if (selected.length < 2) {
+      toast({
+        title: "Select classes",
+        description: "Select at least two classes to generate together",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const parsedSeed = parseInt(seed, 10);
+
+    try {
+      const result = generateTimetablesTogether(
+        selected.map(source => source.formData),
+        {
+          replaceTimetableIds: selected
+            .map(findStoredTimetable)
+            .filter((timetable): timetable is Timetable => !!timetable)
+            .map(timetable => timetable.id),
+          seed: isNaN(parsedSeed) ? undefined : parsedSeed
+        }
+      );
+
+      setBatchSources(selected);
+      setBatchResult(result);
+
+      if (!result.complete) {
+        toast({
+          title: "Timetables are incomplete",
+          description: "Some subjects could not be fully placed. See the reports below.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Cannot generate timetables",
+        description: error instanceof Error ? error.message : "An error occurred while generating the timetables",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Store every generated timetable in one write; drafts that were generated are removed
+  const handleSaveAll = async () => {
+    if (!batchResult) return;
+
+    const generated = batchResult.results.map((result, index) => {
+      const stored = findStoredTimetable(batchSources[index]);
+      return stored
+        ? { ...result.timetable, id: stored.id, createdAt: stored.createdAt, facultyDetails: stored.facultyDetails || {} }
+        : result.timetable;
+    });
+
+    const saveResult = await saveTimetables(generated, {
+      author: username || undefined,
+      note: "Generated together with other classes"
+    });
+    if (!saveResult.success) {
+      toast({
+        title: "Error",
+        description: saveResult.message || "An error occurred while saving the timetables.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    deleteTimetableDrafts(batchSources
+      .map(source => source.draft?.id)
+      .filter((id): id is string => !!id));
+
+    toast({
+      title: "Timetables saved",
+      description: `${generated.length} timetables have been generated together`,
+    });
+    navigate('/dashboard');
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto py-8 px-4 relative z-10">
+        {/* Header section with title and back button */}
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl bg-white p-4 rounded-full font-bold ">Generate All Timetables</h1>
+          <Button
+            onClick={() => navigate('/dashboard')}
+            variant="outline"
+          >
+            Back to Dashboard
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Classes</CardTitle>
+            <CardDescription>
+              Classes generated together share faculty fairly. Save drafts from the Create Timetable form,
+              or select stored timetables to generate them again. Nothing is saved unless all timetables are saved.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {sources.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No drafts or timetables found. Save drafts from the Create Timetable form first.
+              </div>
+            ) : (
+              sources.map(source => (
+                <div key={source.key} className="flex items-center justify-between p-3 rounded-md border border-border">
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      id={source.key}
+                      checked={selectedKeys.includes(source.key)}
+                      onCheckedChange={(checked) => handleToggleSource(source.key, checked === true)}
+                    />
+                    <Label htmlFor={source.key} className="font-medium">{source.label}</Label>
+                    {source.draft ? (
+                      <Badge variant="outline">Draft</Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-amber-50 text-amber-700 hover:bg-amber-50">Stored, will be replaced</Badge>
+                    )}
+                    {source.draft && findStoredTimetable(source) && (
+                      <span className="text-xs text-muted-foreground">replaces the stored timetable</span>
+                    )}
+                  </div>
+                  {source.draft && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:bg-destructive/10"
+                      onClick={() => handleDeleteDraft(source.draft!)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+
+            <div className="flex items-end justify-between gap-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="batchSeed">Seed</Label>
+                <Input
+                  id="batchSeed"
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value)}
+                  placeholder="Random"
+                  className="w-40"
+                />
+              </div>
+              <Button onClick={handleGenerate}>Generate Together</Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {batchResult && batchResult.conflicts.length > 0 && (
+          <Alert variant="destructive" className="mt-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {hitSearchLimit(batchResult.conflicts)
+                ? 'No complete set of timetables found within the search limit'
+                : 'No complete set of timetables is possible'}
+            </AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1 mt-2">
+                {batchResult.conflicts.map((conflict, index) => (
+                  <li key={index}>{conflict.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {batchResult && (
+          <>
+            {batchResult.results.map((result, index) => (
+              <GenerationReport
+                key={batchSources[index].key}
+                title={batchSources[index].label}
+                report={result.report}
+              />
+            ))}
+
+            <div className="flex justify-end gap-2 mt-4">
+              <Button variant="outline" onClick={() => setBatchResult(null)}>Discard</Button>
+              <Button variant={batchResult.complete ? 'default' : 'destructive'} onClick={handleSaveAll}>
+                {batchResult.complete ? 'Save All Timetables' : 'Save All Timetables Anyway'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default GenerateAllTimetables;
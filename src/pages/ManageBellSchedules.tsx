@@ -0,0 +1,405 @@
+// Import necessary dependencies and components
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { BellSchedule, BellSlotKind } from '@/utils/types';
+import {
+  getBellSchedules,
+  saveBellSchedule,
+  deleteBellSchedule,
+  sortBellSlots,
+  getTeachingPeriods,
+  getLabBlocks,
+  DEFAULT_BELL_SCHEDULE_ID
+} from '@/utils/bellScheduleUtils';
+import { getTimetables } from '@/utils/timetableUtils';
+import DashboardLayout from '@/components/DashboardLayout';
+import WorkingHoursSettings from '@/components/WorkingHoursSettings';
+
+const ManageBellSchedules = () => {
+  // Authentication and navigation hooks
+  const { isAuthenticated, userRole } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // All schedules and the one being edited (a working copy until saved)
+  const [schedules, setSchedules] = useState<BellSchedule[]>([]);
+  const [editingSchedule, setEditingSchedule] = useState<BellSchedule | null>(null);
+
+  // Authentication and initial data loading
+  useEffect(() => {
+    // Redirect to login if not authenticated
+    if (!isAuthenticated) {
+      navigate('/');
+      return;
+    }
+
+    // Only allow admin access to this page
+    if (userRole !== 'admin') {
+      navigate('/dashboard');
+      return;
+    }
+
+    setSchedules(getBellSchedules());
+  }, [isAuthenticated, userRole, navigate]);
+
+  // Start a new schedule as a copy of the default one
+  const handleNewSchedule = () => {
+    const base = schedules.find(schedule => schedule.id === DEFAULT_BELL_SCHEDULE_ID) || schedules[0];
+    setEditingSchedule({
+      id: '',
+      name: '',
+      slots: base.slots.map(slot => ({ ...slot })),
+      labBlocks: base.labBlocks.map(block => ({ ...block }))
+    });
+  };
+
+  const handleEditSchedule = (schedule: BellSchedule) => {
+    setEditingSchedule({
+      ...schedule,
+      slots: schedule.slots.map(slot => ({ ...slot })),
+      labBlocks: schedule.labBlocks.map(block => ({ ...block }))
+    });
+  };
+
+  const handleSlotChange = (index: number, field: 'timeSlot' | 'kind', value: string) => {
+    if (!editingSchedule) return;
+    const slots = editingSchedule.slots.map((slot, i) =>
+      i === index ? { ...slot, [field]: field === 'kind' ? value as BellSlotKind : value } : slot
+    );
+    setEditingSchedule({ ...editingSchedule, slots });
+  };
+
+  const handleAddSlot = () => {
+    if (!editingSchedule) return;
+    setEditingSchedule({
+      ...editingSchedule,
+      slots: [...editingSchedule.slots, { timeSlot: '', kind: 'period' }]
+    });
+  };
+
+  const handleRemoveSlot = (index: number) => {
+    if (!editingSchedule) return;
+    setEditingSchedule({
+      ...editingSchedule,
+      slots: editingSchedule.slots.filter((_, i) => i !== index)
+    });
+  };
+
+  const handleLabBlockChange = (index: number, field: 'start' | 'end', value: string) => {
+    if (!editingSchedule) return;
+    const labBlocks = editingSchedule.labBlocks.map((block, i) =>
+      i === index ? { ...block, [field]: value } : block
+    );
+    setEditingSchedule({ ...editingSchedule, labBlocks });
+  };
+
+  const handleAddLabBlock = () => {
+    if (!editingSchedule) return;
+    const periods = getTeachingPeriods(editingSchedule);
+    if (periods.length === 0) return;
+    setEditingSchedule({
+      ...editingSchedule,
+      labBlocks: [...editingSchedule.labBlocks, { start: periods[0], end: periods[periods.length - 1] }]
+    });
+  };
+
+  const handleRemoveLabBlock = (index: number) => {
+    if (!editingSchedule) return;
+    setEditingSchedule({
+      ...editingSchedule,
+      labBlocks: editingSchedule.labBlocks.filter((_, i) => i !== index)
+    });
+  };
+
+  // Validate and save the schedule being edited
+  const handleSaveSchedule = () => {
+    if (!editingSchedule) return;
+
+    try {
+      const saved = saveBellSchedule({
+        ...editingSchedule,
+        name: editingSchedule.name.trim(),
+        slots: sortBellSlots(editingSchedule.slots.map(slot => ({ ...slot, timeSlot: slot.timeSlot.replace(/\s/g, '') })))
+      });
+      setSchedules(getBellSchedules());
+      setEditingSchedule(null);
+
+      toast({
+        title: "Bell schedule saved",
+        description: `"${saved.name}" has been saved`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid bell schedule",
+        description: error instanceof Error ? error.message : "The bell schedule could not be saved",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Delete a schedule unless a timetable still follows it
+  const handleDeleteSchedule = (schedule: BellSchedule) => {
+    const usedBy = getTimetables().filter(timetable => timetable.formData.bellScheduleId === schedule.id);
+
+    if (usedBy.length > 0) {
+      toast({
+        title: "Bell schedule in use",
+        description: `"${schedule.name}" is used by ${usedBy.length} timetable${usedBy.length > 1 ? 's' : ''} and cannot be deleted`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      deleteBellSchedule(schedule.id);
+      setSchedules(getBellSchedules());
+      if (editingSchedule?.id === schedule.id) {
+        setEditingSchedule(null);
+      }
+
+      toast({
+        title: "Bell schedule deleted",
+        description: `"${schedule.name}" has been removed`,
+      });
+    } catch (error) {
+      toast({
+        title: "Cannot delete bell schedule",
+        description: error instanceof Error ? error.message : "The bell schedule could not be deleted",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const editingPeriods = editingSchedule ? getTeachingPeriods(editingSchedule) : [];
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto py-8 px-4 relative z-10">
+        {/* Header section with title and back button */}
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl bg-white p-4 rounded-full font-bold ">Bell Schedules</h1>
+          <Button
+            onClick={() => navigate('/dashboard')}
+            variant="outline"
+          >
+            Back to Dashboard
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Schedule List Card */}
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Schedules</CardTitle>
+              <CardDescription>
+                Each timetable follows one bell schedule
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {schedules.map(schedule => (
+                <div
+                  key={schedule.id}
+                  className={`p-3 rounded-md border ${
+                    editingSchedule?.id === schedule.id
+                      ? 'border-primary bg-primary/5'
+                      : 'border-border'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium">{schedule.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {getTeachingPeriods(schedule).length} periods, {getLabBlocks(schedule).length} lab blocks
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditSchedule(schedule)}
+                      >
+                        Edit
+                      </Button>
+                      {schedule.id !== DEFAULT_BELL_SCHEDULE_ID && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive hover:bg-destructive/10"
+                          onClick={() => handleDeleteSchedule(schedule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              <Button
+                onClick={handleNewSchedule}
+                className="w-full"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                New Bell Schedule
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Schedule Editor Card */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>{editingSchedule?.id ? 'Edit Bell Schedule' : 'New Bell Schedule'}</CardTitle>
+              <CardDescription>
+                Periods, breaks and lunch in order, and the period ranges labs may be held in
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!editingSchedule ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Select a schedule to edit or create a new one.
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="scheduleName">Name</Label>
+                    <Input
+                      id="scheduleName"
+                      value={editingSchedule.name}
+                      onChange={(e) => setEditingSchedule({ ...editingSchedule, name: e.target.value })}
+                      placeholder="e.g., Saturday half day"
+                    />
+                  </div>
+
+                  <Separator />
+
+                  {/* Slots: time range and kind */}
+                  <div className="space-y-2">
+                    <Label>Slots</Label>
+                    {editingSchedule.slots.map((slot, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          value={slot.timeSlot}
+                          onChange={(e) => handleSlotChange(index, 'timeSlot', e.target.value)}
+                          placeholder="e.g., 9:30-10:20"
+                        />
+                        <Select
+                          value={slot.kind}
+                          onValueChange={(value) => handleSlotChange(index, 'kind', value)}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="period">Period</SelectItem>
+                            <SelectItem value="break">Break</SelectItem>
+                            <SelectItem value="lunch">Lunch</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive hover:bg-destructive/10"
+                          onClick={() => handleRemoveSlot(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button variant="outline" size="sm" onClick={handleAddSlot}>
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add Slot
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      Times are written without AM/PM (1:00 to 7:59 are afternoon times). Slots are sorted by start time when saved.
+                    </p>
+                  </div>
+
+                  <Separator />
+
+                  {/* Lab blocks: first and last period of each allowed block */}
+                  <div className="space-y-2">
+                    <Label>Lab Blocks</Label>
+                    <p className="text-xs text-muted-foreground">
+                      A block runs from its first to its last period without crossing a break or lunch
+                    </p>
+                    {editingSchedule.labBlocks.map((block, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Select
+                          value={block.start}
+                          onValueChange={(value) => handleLabBlockChange(index, 'start', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="First period" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {editingPeriods.map(period => (
+                              <SelectItem key={period} value={period}>{period}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <span className="text-sm text-muted-foreground">to</span>
+                        <Select
+                          value={block.end}
+                          onValueChange={(value) => handleLabBlockChange(index, 'end', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Last period" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {editingPeriods.map(period => (
+                              <SelectItem key={period} value={period}>{period}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive hover:bg-destructive/10"
+                          onClick={() => handleRemoveLabBlock(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button variant="outline" size="sm" onClick={handleAddLabBlock}>
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add Lab Block
+                    </Button>
+                  </div>
+
+                  <div className="flex justify-end gap-2 mt-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setEditingSchedule(null)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button onClick={handleSaveSchedule}>
+                      <Save className="mr-1 h-4 w-4" />
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="mt-6">
+          <WorkingHoursSettings />
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ManageBellSchedules;
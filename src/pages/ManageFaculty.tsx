@@ -8,17 +8,25 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { Plus, Pencil, Trash2, Save } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Pencil, Trash2, Save, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { 
   getFaculty, 
   addFaculty, 
   updateFaculty, 
   deleteFaculty,
+  formatUnavailability,
   FacultyData
 } from '@/utils/facultyUtils';
+import { getBellSchedules, getTeachingPeriods, parseTimeSlot } from '@/utils/bellScheduleUtils';
+import { Day } from '@/utils/types';
+import { WEEK_DAYS } from '@/utils/dayUtils';
 import DashboardLayout from '@/components/DashboardLayout';
 
+const WHOLE_DAY = 'all';
+
 const ManageFaculty = () => {
   // Authentication and navigation hooks
   const { isAuthenticated, userRole } = useAuth();
@@ -31,6 +39,14 @@ const ManageFaculty = () => {
   const [newFacultyShortName, setNewFacultyShortName] = useState<string>(''); // New faculty short name input
   const [searchQuery, setSearchQuery] = useState<string>(''); // Search query for filtering faculty
   const [editingFaculty, setEditingFaculty] = useState<FacultyData | null>(null); // Currently editing faculty member
+  const [unavailableDay, setUnavailableDay] = useState<Day>('Monday'); // Day of the unavailable time being added
+  const [unavailableTimeSlot, setUnavailableTimeSlot] = useState<string>(WHOLE_DAY); // Period of it, or the whole day
+  
+  // Teaching periods of every bell schedule, offered when marking a faculty unavailable
+  const [periodOptions] = useState<string[]>(() =>
+    [...new Set(getBellSchedules().flatMap(getTeachingPeriods))]
+      .sort((a, b) => parseTimeSlot(a).start - parseTimeSlot(b).start)
+  );
   
   // Authentication and initial data loading
   useEffect(() => {
@@ -169,6 +185,33 @@ const ManageFaculty = () => {
     setEditingFaculty(null);
   };
   
+  // Mark a day or a period of a day as unavailable for the faculty being edited
+  const handleAddUnavailable = () => {
+    if (!editingFaculty) return;
+    
+    const timeSlot = unavailableTimeSlot === WHOLE_DAY ? undefined : unavailableTimeSlot;
+    const slots = editingFaculty.unavailableSlots || [];
+    
+    if (slots.some(slot => slot.day === unavailableDay && slot.timeSlot === timeSlot)) {
+      return;
+    }
+    
+    setEditingFaculty({
+      ...editingFaculty,
+      unavailableSlots: [...slots, { day: unavailableDay, timeSlot }]
+    });
+  };
+  
+  // Remove an unavailable time from the faculty being edited
+  const handleRemoveUnavailable = (index: number) => {
+    if (!editingFaculty) return;
+    
+    setEditingFaculty({
+      ...editingFaculty,
+      unavailableSlots: (editingFaculty.unavailableSlots || []).filter((_, i) => i !== index)
+    });
+  };
+  
   return (
     <DashboardLayout>
       {/* Main container with padding and z-index for proper layering */}
@@ -300,6 +343,64 @@ const ManageFaculty = () => {
                               />
                             </div>
                             
+                            {/* Edit Unavailable Times; the generator never schedules the faculty in them */}
+                            <div className="space-y-2">
+                              <Label>Unavailable Times</Label>
+                              <div className="flex gap-2">
+                                <Select
+                                  value={unavailableDay}
+                                  onValueChange={(value) => setUnavailableDay(value as Day)}
+                                >
+                                  <SelectTrigger className="w-36">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {WEEK_DAYS.map(day => (
+                                      <SelectItem key={day} value={day}>{day}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Select
+                                  value={unavailableTimeSlot}
+                                  onValueChange={setUnavailableTimeSlot}
+                                >
+                                  <SelectTrigger className="w-40">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value={WHOLE_DAY}>Whole day</SelectItem>
+                                    {periodOptions.map(period => (
+                                      <SelectItem key={period} value={period}>{period}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Button 
+                                  variant="outline" 
+                                  size="sm"
+                                  onClick={handleAddUnavailable}
+                                  className="h-10"
+                                >
+                                  <Plus className="h-4 w-4" />
+                                </Button>
+                              </div>
+                              {(editingFaculty.unavailableSlots || []).length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                  {(editingFaculty.unavailableSlots || []).map((slot, index) => (
+                                    <Badge key={index} variant="outline" className="gap-1">
+                                      {formatUnavailability(slot)}
+                                      <button
+                                        type="button"
+                                        onClick={() => handleRemoveUnavailable(index)}
+                                        className="ml-1 text-muted-foreground hover:text-destructive"
+                                      >
+                                        <X className="h-3 w-3" />
+                                      </button>
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                            
                             {/* Edit Mode Action Buttons */}
                             <div className="flex justify-end gap-2 mt-2">
                               <Button 
@@ -326,6 +427,11 @@ const ManageFaculty = () => {
                               <div className="text-sm text-muted-foreground">
                                 Short Name: {teacher.shortName}
                               </div>
+                              {teacher.unavailableSlots && teacher.unavailableSlots.length > 0 && (
+                                <div className="text-sm text-muted-foreground">
+                                  Unavailable: {teacher.unavailableSlots.map(formatUnavailability).join(', ')}
+                                </div>
+                              )}
                             </div>
                             {/* Action Buttons for Edit and Delete */}
                             <div className="flex items-center gap-2">
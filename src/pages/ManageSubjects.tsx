@@ -17,7 +17,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Plus, ArrowLeft, Edit, Trash2, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { getSubjects, saveSubject, deleteSubject } from '@/utils/subjectsUtils';
+import { getSubjects, saveSubject, deleteSubject, formatSubjectHours } from '@/utils/subjectsUtils';
 import { Subject, YearType, BranchType } from '@/utils/types';
 import DashboardLayout from '@/components/DashboardLayout';
 import { v4 as uuidv4 } from 'uuid';
@@ -99,6 +99,24 @@ const ManageSubjects: React.FC = () => {
     }
   };
   
+  // Handle L-T-P hour changes
+  // Stores numbers, or undefined when the field is cleared
+  const handleHoursChange = (name: 'lectureHours' | 'tutorialHours' | 'practicalHours' | 'labDuration', value: string) => {
+    const hours = value === '' ? undefined : Math.max(0, parseInt(value, 10) || 0);
+    
+    if (isEditing && editingSubject) {
+      setEditingSubject({
+        ...editingSubject,
+        [name]: hours
+      });
+    } else {
+      setNewSubject({
+        ...newSubject,
+        [name]: hours
+      });
+    }
+  };
+  
   // Handle checkbox changes
   // Updates boolean values like isLab
   const handleCheckboxChange = (name: string, checked: boolean) => {
@@ -380,6 +398,47 @@ const ManageSubjects: React.FC = () => {
                 />
               </div>
               
+              {/* L-T-P Hours Inputs */}
+              <div className="space-y-2">
+                <Label>Weekly Hours (L-T-P)</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['lectureHours', 'tutorialHours', 'practicalHours'] as const).map(field => (
+                    <Input
+                      key={field}
+                      id={field}
+                      type="number"
+                      min="0"
+                      max="10"
+                      aria-label={field === 'lectureHours' ? 'Lecture hours' : field === 'tutorialHours' ? 'Tutorial hours' : 'Practical hours'}
+                      placeholder={field === 'lectureHours' ? 'L' : field === 'tutorialHours' ? 'T' : 'P'}
+                      value={(isEditing && editingSubject ? editingSubject[field] : newSubject[field]) ?? ''}
+                      onChange={(e) => handleHoursChange(field, e.target.value)}
+                    />
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Lectures, tutorials and practical periods per week, e.g. 3-1-0. Left empty, the credit hours
+                  give the lectures of a theory subject and the practicals of a lab.
+                </p>
+              </div>
+              
+              {/* Lab Session Length Input */}
+              <div className="space-y-2">
+                <Label htmlFor="labDuration">Lab Session Length</Label>
+                <Input
+                  id="labDuration"
+                  type="number"
+                  min="1"
+                  max="10"
+                  placeholder="All practical periods"
+                  value={(isEditing && editingSubject ? editingSubject.labDuration : newSubject.labDuration) ?? ''}
+                  onChange={(e) => handleHoursChange('labDuration', e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Consecutive periods of one lab session, e.g. 2 for two sessions of a 4-period practical
+                </p>
+              </div>
+              
               <div className="flex items-center space-x-2 pt-8">
                 {/* <Checkbox 
                   id="isLab" 
@@ -469,7 +528,8 @@ const ManageSubjects: React.FC = () => {
                     </div>
                     <div className="text-sm text-muted-foreground">
                       {subject.year}, {subject.branch === 'Other' ? subject.customBranch : subject.branch}, 
-                      {subject.creditHours} credit {subject.creditHours === 1 ? 'hour' : 'hours'}
+                      {subject.creditHours} credit {subject.creditHours === 1 ? 'hour' : 'hours'}, 
+                      L-T-P {formatSubjectHours(subject)}
                     </div>
                   </div>
                   
@@ -0,0 +1,24 @@
+import { vi } from 'vitest';
+import { initializeStorage } from '@/utils/storageUtils';
+
+// Give the app an in-memory localStorage holding the given collections, keyed by
+// storage key, and load it. Node has no IndexedDB, so storage falls back to localStorage.
+// Returns the raw stored strings so tests can check what was written.
+export const setUpTestStorage = async (collections: Record<string, unknown> = {}): Promise<Record<string, string>> => {
+  const store: Record<string, string> = Object.fromEntries(
+    Object.entries(collections).map(([key, value]) => [key, JSON.stringify(value)])
+  );
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => { store[key] = value; },
+    removeItem: (key: string) => { delete store[key]; }
+  });
+  // The IndexedDB fallback is logged
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  await initializeStorage();
+  return store;
+};
+
+// Wait for writes the app does not await, such as recorded revisions
+export const flushStorageWrites = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
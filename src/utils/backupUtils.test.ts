@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { flushStorageWrites, setUpTestStorage } from '@/test/storage';
+import { Timetable, YearType } from './types';
+import { LOCAL_STORAGE_KEYS } from './repositories';
+import { getStoredRecords } from './storageUtils';
+import { stampSchemaVersion } from './storageSchema';
+import { saveTimetable } from './timetableUtils';
+import { getTimetableRevisions } from './timetableRevisionUtils';
+import {
+  BackupArchive,
+  BackupValidationError,
+  RestorePreviewItem,
+  createBackupArchive,
+  previewRestore,
+  readBackupArchive,
+  restoreBackup
+} from './backupUtils';
+
+const timetable = (id: string, year: YearType, semester: 'I' | 'II' = 'I'): Timetable => ({
+  id,
+  createdAt: '2026-07-01T09:00:00.000Z',
+  facultyDetails: {},
+  formData: {
+    year,
+    branch: 'CSE',
+    semester,
+    subjectTeacherPairs: [],
+    freeHours: [],
+    dayOptions: { fourContinuousDays: false, useCustomDays: false, selectedDays: [] }
+  },
+  entries: []
+} as Timetable);
+
+// The stored data as an archive, to be changed by a test before it is read back
+const exportArchive = (): BackupArchive => JSON.parse(JSON.stringify(createBackupArchive()));
+
+const problemsOf = (text: string): string[] => {
+  try {
+    readBackupArchive(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(BackupValidationError);
+    return (error as BackupValidationError).problems;
+  }
+  throw new Error('The archive was accepted');
+};
+
+const actions = (items: RestorePreviewItem[]) =>
+  Object.fromEntries(items.map(item => [item.key, item.action]));
+
+beforeEach(async () => {
+  await setUpTestStorage({
+    [LOCAL_STORAGE_KEYS.timetables]: [timetable('first', '1st Year'), timetable('second', '2nd Year')].map(stampSchemaVersion),
+    [LOCAL_STORAGE_KEYS.subjects]: [stampSchemaVersion({ id: 'maths', name: 'Maths', year: '1st Year', branch: 'CSE', isLab: false })]
+  });
+});
+
+describe('readBackupArchive', () => {
+  it('reads back an exported archive', () => {
+    const contents = readBackupArchive(JSON.stringify(createBackupArchive()));
+
+    expect(contents.collections.timetables).toEqual(getStoredRecords('timetables'));
+    expect(contents.collections.subjects).toEqual(getStoredRecords('subjects'));
+    expect(contents.bellSchedules).toEqual(createBackupArchive().settings.bellSchedules);
+  });
+
+  it('upgrades records of an older schema', () => {
+    const archive = exportArchive();
+    // Short day names and a single teacher, as saved before schema version 1
+    (archive.collections.timetables as unknown[]).push({
+      ...timetable('old', '3rd Year'),
+      entries: [{ day: 'Wed', timeSlot: '9:30-10:20', subjectName: 'Maths', teacherName: 'Ann' }],
+      schemaVersion: 0
+    });
+
+    const upgraded = readBackupArchive(JSON.stringify(archive)).collections.timetables.find(record => record.id === 'old');
+
+    expect(upgraded?.entries[0]).toMatchObject({ day: 'Wednesday', teacherNames: ['Ann'] });
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(problemsOf('not json')).toEqual(['The file is not valid JSON.']);
+    expect(problemsOf(JSON.stringify({ format: 'something-else' }))).toContainEqual(expect.stringMatching(/^format:/));
+  });
+
+  it('lists every unreadable record', () => {
+    const archive = exportArchive();
+    archive.collections.subjects[0].year = '5th Year' as YearType;
+    archive.collections.timetables[1].entries = [{ day: 'Funday', timeSlot: '9:30-10:20' } as never];
+
+    expect(problemsOf(JSON.stringify(archive))).toEqual([
+      expect.stringMatching(/^timetables\[1\]: entries\.0\.day:/),
+      expect.stringMatching(/^subjects\[0\]: year:/)
+    ]);
+  });
+
+  it('checks preference weights against the known preferences', () => {
+    const archive = exportArchive();
+    const weights: Record<string, number> = archive.settings.softConstraints.weights;
+    weights['subject-repeat'] = -1;
+    weights['room-change'] = 2;
+
+    expect(problemsOf(JSON.stringify(archive))).toEqual([
+      expect.stringMatching(/^settings\.softConstraints\.weights\.subject-repeat: /),
+      expect.stringMatching(/^settings\.softConstraints\.weights: Unrecognized key.*room-change/)
+    ]);
+  });
+
+  it('checks bell schedules like the bell schedule page does', () => {
+    const archive = exportArchive();
+    archive.settings.bellSchedules[0].slots = archive.settings.bellSchedules[0].slots
+      .map(slot => ({ ...slot, kind: 'break' as const }));
+
+    expect(problemsOf(JSON.stringify(archive))).toEqual([
+      expect.stringMatching(/^settings\.bellSchedules\.0 \(.+\): /)
+    ]);
+  });
+});
+
+describe('previewRestore', () => {
+  // An archive replacing the first timetable, keeping the second, adding a third year
+  // and holding another first year timetable that clashes with the stored one
+  const changedArchive = () => {
+    const archive = exportArchive();
+    archive.collections.timetables = [
+      { ...archive.collections.timetables[0], createdAt: '2026-08-01T09:00:00.000Z' },
+      stampSchemaVersion(timetable('third', '3rd Year')),
+      stampSchemaVersion(timetable('other-first', '1st Year'))
+    ];
+    return readBackupArchive(JSON.stringify(archive));
+  };
+
+  it('merges archive records into the stored ones and skips clashing ones', () => {
+    const preview = previewRestore(changedArchive(), 'merge');
+
+    expect(actions(preview.timetables)).toEqual({ first: 'replace', third: 'add', 'other-first': 'conflict' });
+    expect(actions(preview.subjects)).toEqual({ maths: 'unchanged' });
+  });
+
+  it('removes stored records missing from the archive when replacing', () => {
+    const preview = previewRestore(changedArchive(), 'replace');
+
+    expect(actions(preview.timetables)).toEqual({ first: 'replace', third: 'add', 'other-first': 'add', second: 'remove' });
+  });
+});
+
+describe('restoreBackup', () => {
+  it('keeps stored records missing from the archive when merging', async () => {
+    const archive = exportArchive();
+    archive.collections.timetables = [stampSchemaVersion(timetable('third', '3rd Year'))];
+
+    await restoreBackup(readBackupArchive(JSON.stringify(archive)), 'merge');
+
+    expect(getStoredRecords('timetables').map(record => record.id)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('makes the stored data exactly the archive when replacing', async () => {
+    const archive = exportArchive();
+    archive.collections.timetables = [stampSchemaVersion(timetable('third', '3rd Year'))];
+    archive.collections.subjects = [];
+
+    await restoreBackup(readBackupArchive(JSON.stringify(archive)), 'replace');
+
+    expect(getStoredRecords('timetables').map(record => record.id)).toEqual(['third']);
+    expect(getStoredRecords('subjects')).toEqual([]);
+  });
+
+  it('records restored timetables in their history and drops the history of removed ones', async () => {
+    await saveTimetable(timetable('second', '2nd Year', 'II'), { author: 'ann' });
+    await flushStorageWrites();
+    const archive = exportArchive();
+    archive.collections.timetables = [
+      { ...archive.collections.timetables[0], createdAt: '2026-08-01T09:00:00.000Z' },
+      stampSchemaVersion(timetable('third', '3rd Year'))
+    ];
+
+    await restoreBackup(readBackupArchive(JSON.stringify(archive)), 'replace', 'admin');
+    await flushStorageWrites();
+
+    const [first] = await getTimetableRevisions('first');
+    expect(first).toMatchObject({ author: 'admin', note: 'Restored from backup' });
+    expect(first.timetable?.createdAt).toBe('2026-08-01T09:00:00.000Z');
+    expect(await getTimetableRevisions('third')).toHaveLength(1);
+    expect(await getTimetableRevisions('second')).toEqual([]);
+  });
+});
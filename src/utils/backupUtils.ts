@@ -0,0 +1,355 @@
+import { z } from 'zod';
+import { BellSchedule, SoftConstraintSettings, StoredUser, Subject, Timetable, YearType } from './types';
+import { FacultyData } from './facultyUtils';
+import { StoredCollections, getStoredRecords, putStoredRecords, replaceStoredCollection } from './storageUtils';
+import { CURRENT_SCHEMA_VERSION, VersionedRecord, stampSchemaVersion, upgradeStoredRecord } from './storageSchema';
+import { getBellSchedules, getPeriodsPerDay, replaceBellSchedules, savePeriodsPerDay, validateBellSchedule } from './bellScheduleUtils';
+import { getSoftConstraintSettings, saveSoftConstraintSettings } from './timetableScoreUtils';
+import { getClassLabel } from './timetableUtils';
+import { deleteTimetableRevisions, recordTimetableRevision } from './timetableRevisionUtils';
+
+const BACKUP_FORMAT = 'timetable-generator-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+type CollectionName = keyof StoredCollections;
+
+const COLLECTION_NAMES: CollectionName[] = ['timetables', 'subjects', 'faculty', 'users'];
+
+// One JSON file holding every collection and setting of the app.
+// Records carry the schema version they were written with, so older archives are upgraded on import.
+// Timetable history is not part of the archive; a restore adds a revision to each timetable it writes.
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  collections: { [K in CollectionName]: VersionedRecord<StoredCollections[K][number]>[] };
+  settings: {
+    bellSchedules: BellSchedule[];
+    periodsPerDay: Record<YearType, number>;
+    softConstraints: SoftConstraintSettings;
+  };
+}
+
+// A validated archive, its records upgraded to the current schema
+export interface BackupContents {
+  exportedAt: string;
+  collections: StoredCollections;
+  bellSchedules: BellSchedule[];
+  periodsPerDay: Record<YearType, number>;
+  softConstraints: SoftConstraintSettings;
+}
+
+// Merge adds archive records and replaces those with the same id, keeping the rest;
+// replace makes the stored data exactly the archive
+export type RestoreMode = 'merge' | 'replace';
+
+export type RestoreAction = 'add' | 'replace' | 'unchanged' | 'conflict' | 'remove';
+
+export type BackupSection = CollectionName | 'bellSchedules';
+
+export const BACKUP_SECTION_LABELS: Record<BackupSection, string> = {
+  timetables: 'Timetables',
+  subjects: 'Subjects',
+  faculty: 'Faculty',
+  users: 'Users',
+  bellSchedules: 'Bell schedules'
+};
+
+export interface RestorePreviewItem {
+  key: string;
+  label: string;
+  action: RestoreAction;
+  reason?: string; // Why a conflicting record is skipped
+}
+
+export type RestorePreview = Record<BackupSection, RestorePreviewItem[]>;
+
+/**
+ * Error thrown when a backup file cannot be restored.
+ * `problems` lists every invalid part, so nothing is written until all are fixed.
+ */
+export class BackupValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join(' '));
+    this.name = 'BackupValidationError';
+    this.problems = problems;
+  }
+}
+
+const periodsSchema = z.number().int().positive();
+const weightSchema = z.number().min(0, 'Weights cannot be negative');
+
+const archiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number().int().max(BACKUP_FORMAT_VERSION, 'Made by a newer version of the app'),
+  exportedAt: z.string(),
+  collections: z.object({
+    timetables: z.array(z.unknown()),
+    subjects: z.array(z.unknown()),
+    faculty: z.array(z.unknown()),
+    users: z.array(z.unknown())
+  }),
+  settings: z.object({
+    bellSchedules: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      slots: z.array(z.object({ timeSlot: z.string(), kind: z.enum(['period', 'break', 'lunch']) })),
+      labBlocks: z.array(z.object({ start: z.string(), end: z.string() }))
+    })),
+    periodsPerDay: z.object({
+      '1st Year': periodsSchema,
+      '2nd Year': periodsSchema,
+      '3rd Year': periodsSchema,
+      '4th Year': periodsSchema
+    }),
+    // Every preference of SOFT_CONSTRAINT_KINDS, and no others
+    softConstraints: z.object({
+      weights: z.object({
+        'subject-repeat': weightSchema,
+        'teacher-consecutive': weightSchema,
+        'heavy-afternoon': weightSchema,
+        'scattered-free': weightSchema
+      }).strict(),
+      maxConsecutivePeriods: z.number().int().positive(),
+      heavyLectureHours: z.number().int().positive()
+    })
+  })
+});
+
+// Collect every stored collection and setting into one archive
+export const createBackupArchive = (): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  formatVersion: BACKUP_FORMAT_VERSION,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  collections: {
+    timetables: getStoredRecords('timetables').map(stampSchemaVersion),
+    subjects: getStoredRecords('subjects').map(stampSchemaVersion),
+    faculty: getStoredRecords('faculty').map(stampSchemaVersion),
+    users: getStoredRecords('users').map(stampSchemaVersion)
+  },
+  settings: {
+    bellSchedules: getBellSchedules(),
+    periodsPerDay: getPeriodsPerDay(),
+    softConstraints: getSoftConstraintSettings()
+  }
+});
+
+// Parse and validate a backup file, upgrading its records to the current schema.
+// Throws a BackupValidationError listing every problem; nothing is written here.
+export const readBackupArchive = (text: string): BackupContents => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError(['The file is not valid JSON.']);
+  }
+
+  const parsed = archiveSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new BackupValidationError(parsed.error.issues.map(issue =>
+      `${issue.path.join('.') || 'archive'}: ${issue.message}`
+    ));
+  }
+
+  // The settings are copied field by field: with strict type checks off, zod infers
+  // every property as optional, so the parsed objects do not match the app types
+  const { settings } = parsed.data;
+  const bellSchedules = settings.bellSchedules.map((schedule): BellSchedule => ({
+    id: schedule.id,
+    name: schedule.name,
+    slots: schedule.slots.map(slot => ({ timeSlot: slot.timeSlot, kind: slot.kind })),
+    labBlocks: schedule.labBlocks.map(block => ({ start: block.start, end: block.end }))
+  }));
+  const periodsPerDay: Record<YearType, number> = {
+    '1st Year': settings.periodsPerDay['1st Year'],
+    '2nd Year': settings.periodsPerDay['2nd Year'],
+    '3rd Year': settings.periodsPerDay['3rd Year'],
+    '4th Year': settings.periodsPerDay['4th Year']
+  };
+  const { weights } = settings.softConstraints;
+  const softConstraints: SoftConstraintSettings = {
+    weights: {
+      'subject-repeat': weights['subject-repeat'],
+      'teacher-consecutive': weights['teacher-consecutive'],
+      'heavy-afternoon': weights['heavy-afternoon'],
+      'scattered-free': weights['scattered-free']
+    },
+    maxConsecutivePeriods: settings.softConstraints.maxConsecutivePeriods,
+    heavyLectureHours: settings.softConstraints.heavyLectureHours
+  };
+
+  // Schedules are checked like those saved on the bell schedules page
+  const problems: string[] = bellSchedules.flatMap((schedule, index) => {
+    const error = validateBellSchedule(schedule);
+    return error ? [`settings.bellSchedules.${index} (${schedule.name || schedule.id}): ${error}`] : [];
+  });
+  const upgrade = <K extends CollectionName>(name: K): StoredCollections[K] => {
+    return parsed.data.collections[name].flatMap((record, index) => {
+      try {
+        return [upgradeStoredRecord(name, record).record];
+      } catch (error) {
+        problems.push(`${name}[${index}]: ${error instanceof Error ? error.message : String(error)}`);
+        return [];
+      }
+    }) as StoredCollections[K];
+  };
+
+  const collections: StoredCollections = {
+    timetables: upgrade('timetables'),
+    subjects: upgrade('subjects'),
+    faculty: upgrade('faculty'),
+    users: upgrade('users')
+  };
+  if (problems.length > 0) {
+    throw new BackupValidationError(problems);
+  }
+
+  return {
+    exportedAt: parsed.data.exportedAt,
+    collections,
+    bellSchedules,
+    periodsPerDay,
+    softConstraints
+  };
+};
+
+// How each section identifies and describes its records, and which stored record
+// an archive record clashes with although its id differs
+interface SectionRules<T> {
+  keyOf: (record: T) => string;
+  labelOf: (record: T) => string;
+  clashesWith?: (record: T, stored: T) => boolean;
+}
+
+const SECTION_RULES: {
+  timetables: SectionRules<Timetable>;
+  subjects: SectionRules<Subject>;
+  faculty: SectionRules<FacultyData>;
+  users: SectionRules<StoredUser>;
+  bellSchedules: SectionRules<BellSchedule>;
+} = {
+  timetables: {
+    keyOf: timetable => timetable.id,
+    labelOf: timetable => getClassLabel(timetable.formData),
+    clashesWith: (timetable, stored) =>
+      timetable.formData.year === stored.formData.year &&
+      timetable.formData.branch === stored.formData.branch &&
+      timetable.formData.semester === stored.formData.semester
+  },
+  subjects: {
+    keyOf: subject => subject.id,
+    labelOf: subject => `${subject.name} (${subject.year}, ${subject.branch})`,
+    clashesWith: (subject, stored) =>
+      subject.name.toLowerCase() === stored.name.toLowerCase() &&
+      subject.year === stored.year &&
+      subject.branch === stored.branch
+  },
+  faculty: {
+    keyOf: faculty => faculty.id,
+    labelOf: faculty => faculty.name,
+    clashesWith: (faculty, stored) => faculty.name.toLowerCase() === stored.name.toLowerCase()
+  },
+  users: {
+    keyOf: user => user.username,
+    labelOf: user => `${user.username} (${user.role})`
+  },
+  bellSchedules: {
+    keyOf: schedule => schedule.id,
+    labelOf: schedule => schedule.name
+  }
+};
+
+// What restoring a section would do to each record
+const previewSection = <T>(rules: SectionRules<T>, stored: T[], incoming: T[], mode: RestoreMode): RestorePreviewItem[] => {
+  const incomingKeys = new Set(incoming.map(rules.keyOf));
+  // Stored records as they are after a merge, those with an archive id taking the archive's version
+  const merged = stored.map(record => incoming.find(candidate => rules.keyOf(candidate) === rules.keyOf(record)) || record);
+
+  const items = incoming.map((record): RestorePreviewItem => {
+    const key = rules.keyOf(record);
+    const label = rules.labelOf(record);
+    const existing = stored.find(candidate => rules.keyOf(candidate) === key);
+
+    if (existing) {
+      return { key, label, action: JSON.stringify(existing) === JSON.stringify(record) ? 'unchanged' : 'replace' };
+    }
+
+    // In replace mode the stored records are removed first, so nothing can clash
+    const clash = mode === 'merge' && rules.clashesWith &&
+      merged.find(candidate => rules.clashesWith!(record, candidate));
+    if (clash) {
+      return { key, label, action: 'conflict', reason: `Clashes with the stored ${rules.labelOf(clash)}; the stored one is kept` };
+    }
+    return { key, label, action: 'add' };
+  });
+
+  if (mode === 'replace') {
+    stored
+      .filter(record => !incomingKeys.has(rules.keyOf(record)))
+      .forEach(record => items.push({ key: rules.keyOf(record), label: rules.labelOf(record), action: 'remove' }));
+  }
+  return items;
+};
+
+// What restoring an archive in a mode would add, replace, remove or skip, section by section
+export const previewRestore = (contents: BackupContents, mode: RestoreMode): RestorePreview => {
+  const preview = {} as RestorePreview;
+  COLLECTION_NAMES.forEach(name => {
+    preview[name] = previewSection(
+      SECTION_RULES[name] as SectionRules<StoredCollections[typeof name][number]>,
+      getStoredRecords(name),
+      contents.collections[name],
+      mode
+    );
+  });
+  preview.bellSchedules = previewSection(SECTION_RULES.bellSchedules, getBellSchedules(), contents.bellSchedules, mode);
+  return preview;
+};
+
+// Restore an archive read by readBackupArchive. Conflicting records are skipped in merge mode;
+// the periods per day and scheduling preferences of the archive always replace the stored ones.
+// Collections are written one at a time, each in one write. Throws when one fails: the
+// collections before it are restored, it and the rest of the backup are left unchanged.
+// Each timetable added or replaced gets a revision; removed ones lose their history.
+export const restoreBackup = async (contents: BackupContents, mode: RestoreMode, author?: string): Promise<RestorePreview> => {
+  const preview = previewRestore(contents, mode);
+  const isWritten = (section: BackupSection, key: string) => preview[section]
+    .some(item => item.key === key && (item.action === 'add' || item.action === 'replace'));
+
+  for (const name of COLLECTION_NAMES) {
+    const rules = SECTION_RULES[name] as SectionRules<StoredCollections[typeof name][number]>;
+    const written = mode === 'replace'
+      ? await replaceStoredCollection(name, contents.collections[name]).then(() => true, () => false)
+      : await putStoredRecords(name, contents.collections[name].filter(record => isWritten(name, rules.keyOf(record))));
+
+    if (!written) {
+      const restored = COLLECTION_NAMES.slice(0, COLLECTION_NAMES.indexOf(name));
+      throw new Error(`${BACKUP_SECTION_LABELS[name]} could not be written. ` + (restored.length > 0
+        ? `${restored.map(section => BACKUP_SECTION_LABELS[section]).join(', ')} were restored; the rest of the backup was not.`
+        : 'Nothing was restored.'));
+    }
+  }
+
+  contents.collections.timetables
+    .filter(timetable => isWritten('timetables', timetable.id))
+    .forEach(timetable => recordTimetableRevision(timetable, { author, note: 'Restored from backup' }));
+  preview.timetables
+    .filter(item => item.action === 'remove')
+    .forEach(item => deleteTimetableRevisions(item.key));
+
+  if (mode === 'replace') {
+    replaceBellSchedules(contents.bellSchedules);
+  } else {
+    const incoming = contents.bellSchedules.filter(schedule => isWritten('bellSchedules', schedule.id));
+    const kept = getBellSchedules().filter(schedule => !incoming.some(added => added.id === schedule.id));
+    replaceBellSchedules([...kept, ...incoming]);
+  }
+  savePeriodsPerDay(contents.periodsPerDay);
+  saveSoftConstraintSettings(contents.softConstraints);
+
+  return preview;
+};
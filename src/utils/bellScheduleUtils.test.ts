@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { BellSchedule } from './types';
+import { DEFAULT_BELL_SCHEDULE, getLabRuns, getTeachingPeriods, limitTeachingPeriods } from './bellScheduleUtils';
+
+describe('getLabRuns', () => {
+  it('offers every run of periods between breaks once', () => {
+    expect(getLabRuns(DEFAULT_BELL_SCHEDULE, 2).map(run => run.timeSlot)).toEqual([
+      '9:30-11:10',
+      '11:20-1:00',
+      '2:00-3:40',
+      '2:50-4:30',
+      '3:40-5:20'
+    ]);
+    expect(getLabRuns(DEFAULT_BELL_SCHEDULE, 3)).toEqual([
+      { timeSlot: '2:00-4:30', periods: ['2:00-2:50', '2:50-3:40', '3:40-4:30'] },
+      { timeSlot: '2:50-5:20', periods: ['2:50-3:40', '3:40-4:30', '4:30-5:20'] }
+    ]);
+  });
+
+  it('leaves out lab blocks crossing a break', () => {
+    // A block over the morning break, as older schedules may hold
+    const schedule: BellSchedule = {
+      ...DEFAULT_BELL_SCHEDULE,
+      labBlocks: [{ start: '10:20-11:10', end: '11:20-12:10' }]
+    };
+
+    expect(getLabRuns(schedule, 2).map(run => run.timeSlot)).not.toContain('10:20-12:10');
+    expect(getLabRuns(schedule, 5)).toEqual([]);
+  });
+});
+
+describe('limitTeachingPeriods', () => {
+  it('keeps a schedule with no more periods than the limit as it is', () => {
+    expect(limitTeachingPeriods(DEFAULT_BELL_SCHEDULE, 8)).toBe(DEFAULT_BELL_SCHEDULE);
+    expect(limitTeachingPeriods(DEFAULT_BELL_SCHEDULE, 10)).toBe(DEFAULT_BELL_SCHEDULE);
+  });
+
+  it('ends the day after the last kept period with the breaks before it', () => {
+    const limited = limitTeachingPeriods(DEFAULT_BELL_SCHEDULE, 5);
+
+    expect(getTeachingPeriods(limited)).toEqual(['9:30-10:20', '10:20-11:10', '11:20-12:10', '12:10-1:00', '2:00-2:50']);
+    expect(limited.slots.map(slot => slot.kind)).toEqual(['period', 'period', 'break', 'period', 'period', 'lunch', 'period']);
+  });
+
+  it('drops the lab blocks reaching past the last kept period', () => {
+    expect(limitTeachingPeriods(DEFAULT_BELL_SCHEDULE, 7).labBlocks).toEqual(DEFAULT_BELL_SCHEDULE.labBlocks);
+    expect(limitTeachingPeriods(DEFAULT_BELL_SCHEDULE, 6).labBlocks).toEqual(DEFAULT_BELL_SCHEDULE.labBlocks.slice(0, 2));
+  });
+
+  it('keeps at least one period', () => {
+    expect(getTeachingPeriods(limitTeachingPeriods(DEFAULT_BELL_SCHEDULE, 0))).toEqual(['9:30-10:20']);
+  });
+});
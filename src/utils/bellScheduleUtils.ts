@@ -0,0 +1,312 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BellSchedule, BellSlot, BellSlotKind, Day, LabBlockDefinition, TimeSlot, TimetableFormData, YearType } from './types';
+
+const BELL_SCHEDULES_STORAGE_KEY = 'bellSchedules';
+const PERIODS_PER_DAY_STORAGE_KEY = 'periodsPerDay';
+
+export const DEFAULT_BELL_SCHEDULE_ID = 'default';
+
+// The college's standard timings, used by timetables without a bell schedule
+export const DEFAULT_BELL_SCHEDULE: BellSchedule = {
+  id: DEFAULT_BELL_SCHEDULE_ID,
+  name: 'Standard',
+  slots: [
+    { timeSlot: '9:30-10:20', kind: 'period' },
+    { timeSlot: '10:20-11:10', kind: 'period' },
+    { timeSlot: '11:10-11:20', kind: 'break' },
+    { timeSlot: '11:20-12:10', kind: 'period' },
+    { timeSlot: '12:10-1:00', kind: 'period' },
+    { timeSlot: '1:00-2:00', kind: 'lunch' },
+    { timeSlot: '2:00-2:50', kind: 'period' },
+    { timeSlot: '2:50-3:40', kind: 'period' },
+    { timeSlot: '3:40-4:30', kind: 'period' },
+    { timeSlot: '4:30-5:20', kind: 'period' }
+  ],
+  // Labs never cross the break or lunch, so each block stays within one run of periods
+  labBlocks: [
+    { start: '9:30-10:20', end: '10:20-11:10' },
+    { start: '11:20-12:10', end: '12:10-1:00' },
+    { start: '2:00-2:50', end: '3:40-4:30' }
+  ]
+};
+
+// Teaching periods a day of each year; the standard schedule's 8th period
+// (4:30-5:20) is used only by years set to 8 periods
+export const DEFAULT_PERIODS_PER_DAY: Record<YearType, number> = {
+  '1st Year': 7,
+  '2nd Year': 7,
+  '3rd Year': 7,
+  '4th Year': 7
+};
+
+// Parse a clock time such as "9:30" or "1:00" into minutes after midnight.
+// Times are written without AM/PM, so hours before 8 are afternoon hours.
+export const parseClockTime = (time: string): number => {
+  const [hours, minutes] = time.trim().split(':').map(part => parseInt(part, 10));
+  const normalizedHours = hours < 8 ? hours + 12 : hours;
+  return normalizedHours * 60 + (minutes || 0);
+};
+
+// Format minutes after midnight the way times are written in slots ("1:00", not "13:00")
+export const formatClockTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const displayHours = hours > 12 ? hours - 12 : hours;
+  return `${displayHours}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Parse a time slot into its start and end minutes
+export const parseTimeSlot = (timeSlot: TimeSlot): { start: number; end: number } => {
+  const [start, end] = timeSlot.split('-');
+  return { start: parseClockTime(start), end: parseClockTime(end) };
+};
+
+// Check whether two time slots overlap in time (works across different bell schedules)
+export const timeSlotsOverlap = (a: TimeSlot, b: TimeSlot): boolean => {
+  const first = parseTimeSlot(a);
+  const second = parseTimeSlot(b);
+  return first.start < second.end && second.start < first.end;
+};
+
+// Cut the periods of several bell schedules into the shortest common time
+// segments, so periods of different schedules can be compared by key
+export const splitIntoTimeSegments = (periodLists: TimeSlot[][]): TimeSlot[] => {
+  const periods = periodLists.flat().map(parseTimeSlot);
+  const boundaries = [...new Set(periods.flatMap(period => [period.start, period.end]))].sort((a, b) => a - b);
+  
+  return boundaries
+    .slice(0, -1)
+    .map((start, index) => ({ start, end: boundaries[index + 1] }))
+    .filter(segment => periods.some(period => period.start <= segment.start && segment.end <= period.end))
+    .map(segment => `${formatClockTime(segment.start)}-${formatClockTime(segment.end)}`);
+};
+
+// Teaching periods of a schedule in order
+export const getTeachingPeriods = (schedule: BellSchedule): TimeSlot[] => {
+  return schedule.slots.filter(slot => slot.kind === 'period').map(slot => slot.timeSlot);
+};
+
+// Kind of a slot in the schedule, undefined when the slot is not part of it
+export const getSlotKind = (schedule: BellSchedule, timeSlot: TimeSlot): BellSlotKind | undefined => {
+  return schedule.slots.find(slot => slot.timeSlot === timeSlot)?.kind;
+};
+
+// Build the combined time slot label of a run of periods, e.g. "9:30-1:00"
+export const combineTimeSlots = (first: TimeSlot, last: TimeSlot): TimeSlot => {
+  return `${first.split('-')[0]}-${last.split('-')[1]}`;
+};
+
+// Teaching periods of a lab block definition
+export const getLabBlockPeriods = (schedule: BellSchedule, block: LabBlockDefinition): TimeSlot[] => {
+  const periods = getTeachingPeriods(schedule);
+  const startIndex = periods.indexOf(block.start);
+  const endIndex = periods.indexOf(block.end);
+  if (startIndex < 0 || endIndex < startIndex) return [];
+  return periods.slice(startIndex, endIndex + 1);
+};
+
+// Allowed lab blocks of a schedule with their combined slot and periods.
+// Blocks crossing a break or lunch, which older schedules may hold, are left out.
+export const getLabBlocks = (schedule: BellSchedule): { timeSlot: TimeSlot; periods: TimeSlot[] }[] => {
+  return schedule.labBlocks
+    .filter(block => !crossesBreak(schedule, block))
+    .map(block => ({
+      timeSlot: combineTimeSlots(block.start, block.end),
+      periods: getLabBlockPeriods(schedule, block)
+    }))
+    .filter(block => block.periods.length > 0);
+};
+
+// Teaching periods split at every break and lunch, e.g. the morning periods
+// before the break, those between the break and lunch, and the afternoon
+export const getPeriodSegments = (schedule: BellSchedule): TimeSlot[][] => {
+  const segments: TimeSlot[][] = [[]];
+  
+  schedule.slots.forEach(slot => {
+    if (slot.kind === 'period') {
+      segments[segments.length - 1].push(slot.timeSlot);
+    } else if (segments[segments.length - 1].length > 0) {
+      segments.push([]);
+    }
+  });
+  
+  return segments.filter(segment => segment.length > 0);
+};
+
+// Whether the periods of a lab block are split by a break or lunch
+const crossesBreak = (schedule: BellSchedule, block: LabBlockDefinition): boolean => {
+  const periods = getLabBlockPeriods(schedule, block);
+  return periods.length > 0 && !getPeriodSegments(schedule).some(segment => periods.every(period => segment.includes(period)));
+};
+
+// Runs of the given number of consecutive teaching periods that do not cross a
+// break or lunch, e.g. every 2-period run for a 2-period lab
+export const getContiguousRuns = (schedule: BellSchedule, length: number): { timeSlot: TimeSlot; periods: TimeSlot[] }[] => {
+  return getPeriodSegments(schedule).flatMap(segment => {
+    const runs: { timeSlot: TimeSlot; periods: TimeSlot[] }[] = [];
+    for (let start = 0; start + length <= segment.length; start++) {
+      const periods = segment.slice(start, start + length);
+      runs.push({ timeSlot: combineTimeSlots(periods[0], periods[periods.length - 1]), periods });
+    }
+    return runs;
+  });
+};
+
+// Blocks a lab of the given length can take: the schedule's lab blocks of that
+// length and every run of that many periods that does not cross a break or lunch
+export const getLabRuns = (schedule: BellSchedule, length: number): { timeSlot: TimeSlot; periods: TimeSlot[] }[] => {
+  const runs = [
+    ...getLabBlocks(schedule).filter(block => block.periods.length === length),
+    ...getContiguousRuns(schedule, length)
+  ];
+  return runs.filter((run, index) => runs.findIndex(other => other.timeSlot === run.timeSlot) === index);
+};
+
+// Expand a (possibly combined) time slot into the teaching periods of the schedule it covers
+export const expandTimeSlot = (timeSlot: TimeSlot, schedule: BellSchedule): TimeSlot[] => {
+  const periods = getTeachingPeriods(schedule);
+  if (periods.includes(timeSlot)) return [timeSlot];
+  return periods.filter(period => timeSlotsOverlap(period, timeSlot));
+};
+
+// Get all bell schedules; the default schedule is always available
+export const getBellSchedules = (): BellSchedule[] => {
+  const stored = localStorage.getItem(BELL_SCHEDULES_STORAGE_KEY);
+  const schedules: BellSchedule[] = stored ? JSON.parse(stored) : [];
+  
+  if (!schedules.some(schedule => schedule.id === DEFAULT_BELL_SCHEDULE_ID)) {
+    schedules.unshift(DEFAULT_BELL_SCHEDULE);
+  }
+  
+  return schedules;
+};
+
+// Get a bell schedule by ID, falling back to the default schedule
+export const getBellScheduleById = (id?: string): BellSchedule => {
+  return getBellSchedules().find(schedule => schedule.id === id)
+    || getBellSchedules().find(schedule => schedule.id === DEFAULT_BELL_SCHEDULE_ID)
+    || DEFAULT_BELL_SCHEDULE;
+};
+
+// Keep the first teaching periods of a schedule with the breaks between them;
+// lab blocks reaching past the last kept period are dropped
+export const limitTeachingPeriods = (schedule: BellSchedule, periodsPerDay: number): BellSchedule => {
+  const periods = getTeachingPeriods(schedule);
+  if (periodsPerDay >= periods.length) return schedule;
+  
+  const lastPeriod = periods[Math.max(periodsPerDay, 1) - 1];
+  const slots = schedule.slots.slice(0, schedule.slots.findIndex(slot => slot.timeSlot === lastPeriod) + 1);
+  
+  return {
+    ...schedule,
+    slots,
+    labBlocks: schedule.labBlocks.filter(block => slots.some(slot => slot.timeSlot === block.end))
+  };
+};
+
+// Get the teaching periods a day of every year
+export const getPeriodsPerDay = (): Record<YearType, number> => {
+  const stored = localStorage.getItem(PERIODS_PER_DAY_STORAGE_KEY);
+  return { ...DEFAULT_PERIODS_PER_DAY, ...(stored ? JSON.parse(stored) : {}) };
+};
+
+// Save the teaching periods a day of every year
+export const savePeriodsPerDay = (periodsPerDay: Record<YearType, number>): void => {
+  localStorage.setItem(PERIODS_PER_DAY_STORAGE_KEY, JSON.stringify(periodsPerDay));
+};
+
+// Get the bell schedule a timetable follows, cut to the periods a day of its year.
+// The generator, the manual grid, the view and the print templates all read their periods from here.
+export const getBellScheduleForTimetable = (formData: Pick<TimetableFormData, 'bellScheduleId' | 'year'>): BellSchedule => {
+  return limitTeachingPeriods(getBellScheduleById(formData.bellScheduleId), getPeriodsPerDay()[formData.year]);
+};
+
+// Get the bell schedule of one day of a timetable, cut short on days with fewer periods
+export const getBellScheduleForDay = (
+  formData: Pick<TimetableFormData, 'bellScheduleId' | 'year' | 'dayPeriods'>,
+  day: Day
+): BellSchedule => {
+  const schedule = getBellScheduleForTimetable(formData);
+  const periodsOfDay = formData.dayPeriods?.[day];
+  return periodsOfDay ? limitTeachingPeriods(schedule, periodsOfDay) : schedule;
+};
+
+// Check a schedule for problems; returns an error message or undefined when valid
+export const validateBellSchedule = (schedule: BellSchedule): string | undefined => {
+  if (!schedule.name.trim()) {
+    return 'Bell schedule name is required';
+  }
+  
+  if (!schedule.slots.some(slot => slot.kind === 'period')) {
+    return 'A bell schedule needs at least one teaching period';
+  }
+  
+  const slotPattern = /^\d{1,2}:\d{2}-\d{1,2}:\d{2}$/;
+  let previousEnd = -1;
+  
+  for (const slot of schedule.slots) {
+    if (!slotPattern.test(slot.timeSlot)) {
+      return `"${slot.timeSlot}" is not a valid time range, use the form 9:30-10:20`;
+    }
+    
+    const { start, end } = parseTimeSlot(slot.timeSlot);
+    if (end <= start) {
+      return `${slot.timeSlot} ends before it starts`;
+    }
+    if (start < previousEnd) {
+      return `${slot.timeSlot} overlaps the previous slot or is out of order`;
+    }
+    previousEnd = end;
+  }
+  
+  for (const block of schedule.labBlocks) {
+    if (getLabBlockPeriods(schedule, block).length === 0) {
+      return `Lab block ${block.start} to ${block.end} does not match the periods of the schedule`;
+    }
+    if (crossesBreak(schedule, block)) {
+      return `Lab block ${block.start} to ${block.end} crosses a break or lunch`;
+    }
+  }
+  
+  return undefined;
+};
+
+// Save a bell schedule, throwing when it is invalid
+export const saveBellSchedule = (schedule: BellSchedule): BellSchedule => {
+  const error = validateBellSchedule(schedule);
+  if (error) {
+    throw new Error(error);
+  }
+  
+  const toSave = { ...schedule, id: schedule.id || uuidv4() };
+  const schedules = getBellSchedules();
+  const existingIndex = schedules.findIndex(s => s.id === toSave.id);
+  
+  if (existingIndex >= 0) {
+    schedules[existingIndex] = toSave;
+  } else {
+    schedules.push(toSave);
+  }
+  
+  localStorage.setItem(BELL_SCHEDULES_STORAGE_KEY, JSON.stringify(schedules));
+  return toSave;
+};
+
+// Replace every stored bell schedule, e.g. when restoring a backup
+export const replaceBellSchedules = (schedules: BellSchedule[]): void => {
+  localStorage.setItem(BELL_SCHEDULES_STORAGE_KEY, JSON.stringify(schedules));
+};
+
+// Delete a bell schedule; the default schedule cannot be deleted
+export const deleteBellSchedule = (id: string): void => {
+  if (id === DEFAULT_BELL_SCHEDULE_ID) {
+    throw new Error('The default bell schedule cannot be deleted');
+  }
+  
+  const schedules = getBellSchedules().filter(schedule => schedule.id !== id);
+  localStorage.setItem(BELL_SCHEDULES_STORAGE_KEY, JSON.stringify(schedules));
+};
+
+// Sort slots by start time, used after editing
+export const sortBellSlots = (slots: BellSlot[]): BellSlot[] => {
+  return [...slots].sort((a, b) => parseTimeSlot(a.timeSlot).start - parseTimeSlot(b.timeSlot).start);
+};
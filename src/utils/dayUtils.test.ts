@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Day, Timetable } from './types';
+import { migrateTimetableDays, normalizeDay } from './dayUtils';
+
+const timetable = (days: string[], selectedDays: string[] = []): Timetable => ({
+  id: 'cse-4',
+  createdAt: '2026-07-01T09:00:00.000Z',
+  facultyDetails: {},
+  formData: {
+    year: '4th Year',
+    branch: 'CSE',
+    semester: 'I',
+    subjectTeacherPairs: [],
+    freeHours: [],
+    dayOptions: { fourContinuousDays: false, useCustomDays: selectedDays.length > 0, selectedDays: selectedDays as Day[] }
+  },
+  entries: days.map(day => ({ day: day as Day, timeSlot: '9:30-10:20', subjectName: 'Maths', teacherNames: ['Ann'] }))
+} as Timetable);
+
+describe('normalizeDay', () => {
+  it('reads long and short day names in any case', () => {
+    expect(normalizeDay('Monday')).toBe('Monday');
+    expect(normalizeDay('wed')).toBe('Wednesday');
+    expect(normalizeDay(' SATURDAY ')).toBe('Saturday');
+  });
+
+  it('names no day for other values', () => {
+    expect(normalizeDay('Sunday')).toBeUndefined();
+    expect(normalizeDay('Funday')).toBeUndefined();
+    expect(normalizeDay('')).toBeUndefined();
+  });
+});
+
+describe('migrateTimetableDays', () => {
+  it('keeps a timetable with long day names as the same object', () => {
+    const stored = timetable(['Monday', 'Friday'], ['Monday', 'Friday']);
+
+    expect(migrateTimetableDays(stored)).toBe(stored);
+  });
+
+  it('writes short day names of entries and day options out in full', () => {
+    const stored = timetable(['Mon', 'Friday'], ['mon', 'Fri']);
+    stored.formData.dayPeriods = { Fri: 5 } as Timetable['formData']['dayPeriods'];
+
+    const migrated = migrateTimetableDays(stored);
+
+    expect(migrated.entries.map(entry => entry.day)).toEqual(['Monday', 'Friday']);
+    expect(migrated.entries[1]).toBe(stored.entries[1]);
+    expect(migrated.formData.dayOptions.selectedDays).toEqual(['Monday', 'Friday']);
+    expect(migrated.formData.dayPeriods).toEqual({ Friday: 5 });
+    expect(stored.entries[0].day).toBe('Mon');
+  });
+
+  it('leaves values that name no day for the schema to reject', () => {
+    expect(migrateTimetableDays(timetable(['Funday', 'Tue'])).entries.map(entry => entry.day)).toEqual(['Funday', 'Tuesday']);
+  });
+});
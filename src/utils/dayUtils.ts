@@ -0,0 +1,95 @@
+import { Day, Timetable, TimetableFormData } from './types';
+import { FacultyData } from './facultyUtils';
+
+// Days a timetable can use, in week order
+export const WEEK_DAYS: Day[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Days of a 4th year timetable set to four continuous days
+export const FOUR_CONTINUOUS_DAYS: Day[] = WEEK_DAYS.slice(0, 4);
+
+const SHORT_DAY_LABELS: Record<Day, string> = {
+  Monday: 'Mon',
+  Tuesday: 'Tue',
+  Wednesday: 'Wed',
+  Thursday: 'Thu',
+  Friday: 'Fri',
+  Saturday: 'Sat'
+};
+
+// Short label of a day, e.g. "Mon" for narrow headers
+export const getShortDayLabel = (day: Day): string => SHORT_DAY_LABELS[day];
+
+// Compare days by their order in the week, for sorting
+export const compareDays = (a: Day, b: Day): number => WEEK_DAYS.indexOf(a) - WEEK_DAYS.indexOf(b);
+
+// Canonical day of a stored value such as "Mon", "mon" or "Monday";
+// undefined when the value names no day
+export const normalizeDay = (value: string): Day | undefined => {
+  const lower = value.trim().toLowerCase();
+  return WEEK_DAYS.find(day => day.toLowerCase() === lower || SHORT_DAY_LABELS[day].toLowerCase() === lower);
+};
+
+// Days a timetable has, from its year and day options. Years other than the
+// 4th have the whole week; custom days follow the week order.
+export const getTimetableDays = (formData: Pick<TimetableFormData, 'year' | 'dayOptions'>): Day[] => {
+  if (formData.year !== '4th Year') return WEEK_DAYS;
+
+  if (formData.dayOptions.useCustomDays) {
+    return WEEK_DAYS.filter(day => formData.dayOptions.selectedDays.includes(day));
+  }
+  return formData.dayOptions.fourContinuousDays ? FOUR_CONTINUOUS_DAYS : WEEK_DAYS;
+};
+
+// A stored value that is a day but not written the canonical way
+const needsNormalizing = (value: string): boolean => {
+  const day = normalizeDay(value);
+  return !!day && day !== value;
+};
+
+// Bring the days a stored timetable's form data names to the canonical long names
+export const migrateFormDataDays = (formData: TimetableFormData): TimetableFormData => {
+  const selectedDays = formData.dayOptions?.selectedDays || [];
+  const dayPeriods = Object.keys(formData.dayPeriods || {});
+  if (!selectedDays.some(needsNormalizing) && !dayPeriods.some(needsNormalizing)) {
+    return formData;
+  }
+
+  return {
+    ...formData,
+    dayOptions: {
+      ...formData.dayOptions,
+      selectedDays: selectedDays.map(day => normalizeDay(day) || day)
+    },
+    dayPeriods: formData.dayPeriods && Object.fromEntries(
+      Object.entries(formData.dayPeriods).map(([day, periods]) => [normalizeDay(day) || day, periods])
+    )
+  };
+};
+
+// Bring a stored timetable written with short day names ("Mon") to the
+// canonical long names. Returns the same object when nothing had to change.
+export const migrateTimetableDays = (timetable: Timetable): Timetable => {
+  const formData = migrateFormDataDays(timetable.formData);
+  if (formData === timetable.formData && !timetable.entries.some(entry => needsNormalizing(entry.day))) {
+    return timetable;
+  }
+
+  return {
+    ...timetable,
+    formData,
+    entries: timetable.entries.map(entry =>
+      needsNormalizing(entry.day) ? { ...entry, day: normalizeDay(entry.day)! } : entry
+    )
+  };
+};
+
+// Bring the days a stored faculty member is unavailable on to the canonical long names
+export const migrateFacultyDays = (faculty: FacultyData): FacultyData => {
+  const slots = faculty.unavailableSlots || [];
+  if (!slots.some(slot => needsNormalizing(slot.day))) return faculty;
+
+  return {
+    ...faculty,
+    unavailableSlots: slots.map(slot => ({ ...slot, day: normalizeDay(slot.day) || slot.day }))
+  };
+};
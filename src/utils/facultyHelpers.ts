@@ -1,6 +1,9 @@
 
 import { getFaculty } from './facultyUtils';
 import { getTimetables } from './timetableUtils';
+import { isTaughtBy } from './facultyLabUtils';
+import { compareDays } from './dayUtils';
+import { parseTimeSlot } from './bellScheduleUtils';
 
 // Get a list of all faculty names
 export const getFacultyList = (): string[] => {
@@ -18,7 +21,7 @@ export const getFacultyTeachingLoad = (facultyName: string): number => {
     const uniqueSubjects = new Set();
     
     timetable.entries.forEach(entry => {
-      if (entry.teacherName === facultyName && entry.subjectName && !entry.isBreak && !entry.isLunch) {
+      if (isTaughtBy(entry, facultyName) && entry.subjectName && !entry.isBreak && !entry.isLunch) {
         uniqueSubjects.add(`${timetable.id}-${entry.subjectName}-${entry.isLab}`);
       }
     });
@@ -29,14 +32,14 @@ export const getFacultyTeachingLoad = (facultyName: string): number => {
   return count;
 };
 
-// Get faculty schedule (all timeslots where a faculty member is teaching)
+// Get faculty schedule (all timeslots where a faculty member is teaching), in week order
 export const getFacultySchedule = (facultyName: string) => {
   const timetables = getTimetables();
   const schedule = [];
   
   timetables.forEach(timetable => {
     timetable.entries.forEach(entry => {
-      if (entry.teacherName === facultyName && !entry.isBreak && !entry.isLunch) {
+      if (isTaughtBy(entry, facultyName) && !entry.isBreak && !entry.isLunch) {
         schedule.push({
           day: entry.day,
           timeSlot: entry.timeSlot,
@@ -49,5 +52,7 @@ export const getFacultySchedule = (facultyName: string) => {
     });
   });
   
-  return schedule;
+  return schedule.sort((a, b) =>
+    compareDays(a.day, b.day) || parseTimeSlot(a.timeSlot).start - parseTimeSlot(b.timeSlot).start
+  );
 };
@@ -1,5 +1,39 @@
 
-import { TimetableEntry, SubjectTeacherPair } from "./types";
+import { Day, Timetable, TimetableEntry, SubjectTeacherPair, TimeSlot } from "./types";
+import { timeSlotsOverlap } from "./bellScheduleUtils";
+
+// Anything naming the faculty who teach it: a timetable entry or a subject-teacher pair
+type TeacherAssignment = Pick<TimetableEntry, 'teacherName' | 'teacherNames'>;
+
+// All faculty teaching an entry or pair. Older data names a single teacherName and
+// newer data keeps the primary teacher in teacherName as well, so both are read.
+export const getTeacherNames = (assignment: TeacherAssignment): string[] => {
+  return [...new Set([assignment.teacherName, ...(assignment.teacherNames || [])])]
+    .filter((teacher): teacher is string => !!teacher);
+};
+
+// Check whether a faculty member teaches an entry or pair, alone or with others.
+// Every conflict, workload and faculty view check matches faculty through this.
+export const isTaughtBy = (assignment: TeacherAssignment, teacherName: string): boolean => {
+  return getTeacherNames(assignment).includes(teacherName);
+};
+
+// Check whether a teacher is free at a day and time slot in a list of entries.
+// Slots are compared by time, so lab blocks covering the slot count as well.
+export const isTeacherFreeIn = (
+  entries: TimetableEntry[],
+  teacherName: string,
+  day: Day,
+  timeSlot: TimeSlot
+): boolean => {
+  return !entries.some(entry =>
+    entry.day === day &&
+    !entry.isBreak &&
+    !entry.isLunch &&
+    timeSlotsOverlap(entry.timeSlot, timeSlot) &&
+    isTaughtBy(entry, teacherName)
+  );
+};
 
 // Format teacher names for display in the timetable
 export const formatTeacherNames = (entry: TimetableEntry): string => {
@@ -10,17 +44,37 @@ export const formatTeacherNames = (entry: TimetableEntry): string => {
 };
 
 // Convert old format (single teacherName) to new format (teacherNames array)
-export const normalizeTeacherData = (entry: TimetableEntry): TimetableEntry => {
+export const normalizeTeacherData = <T extends TeacherAssignment>(entry: T): T => {
   const normalizedEntry = { ...entry };
   
   // If teacherNames doesn't exist but teacherName does, create teacherNames array
-  if (!normalizedEntry.teacherNames && normalizedEntry.teacherName) {
+  if ((!normalizedEntry.teacherNames || normalizedEntry.teacherNames.length === 0) && normalizedEntry.teacherName) {
     normalizedEntry.teacherNames = [normalizedEntry.teacherName];
   }
   
   return normalizedEntry;
 };
 
+// Whether an entry or pair is still in the old single-teacher format
+const needsTeacherNames = (assignment: TeacherAssignment): boolean => {
+  return !!assignment.teacherName && (!assignment.teacherNames || assignment.teacherNames.length === 0);
+};
+
+// Bring a stored timetable to the teacherNames format, entries and pairs alike.
+// Returns the same object when nothing had to change.
+export const migrateTimetableTeachers = (timetable: Timetable): Timetable => {
+  const pairs = timetable.formData.subjectTeacherPairs || [];
+  if (!timetable.entries.some(needsTeacherNames) && !pairs.some(needsTeacherNames)) {
+    return timetable;
+  }
+  
+  return {
+    ...timetable,
+    entries: timetable.entries.map(normalizeTeacherData),
+    formData: { ...timetable.formData, subjectTeacherPairs: pairs.map(normalizeTeacherData) }
+  };
+};
+
 // Prepare subject-teacher pair for saving (ensures both old and new formats are maintained)
 export const prepareSubjectTeacherPair = (
   pair: SubjectTeacherPair
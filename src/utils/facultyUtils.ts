@@ -1,41 +1,35 @@
 
+import { Day, FacultyUnavailability, TimeSlot } from './types';
+import { timeSlotsOverlap } from './bellScheduleUtils';
+import { deleteStoredRecord, getStoredRecords, putStoredRecords } from './storageUtils';
+
 export interface FacultyData {
   id: string;
   name: string;
   shortName: string;
+  unavailableSlots?: FacultyUnavailability[]; // Part-time days, research days, etc.
 }
 
-const FACULTY_STORAGE_KEY = 'timetable_faculty';
-
-// Get all faculty from local storage
+// Get all faculty, as loaded from storage when the app started
 export const getFaculty = (): FacultyData[] => {
-  const storedFaculty = localStorage.getItem(FACULTY_STORAGE_KEY);
-  return storedFaculty ? JSON.parse(storedFaculty) : [];
+  return getStoredRecords('faculty');
 };
 
 // Add a new faculty member
 export const addFaculty = (faculty: FacultyData): void => {
-  const facultyList = getFaculty();
-  facultyList.push(faculty);
-  localStorage.setItem(FACULTY_STORAGE_KEY, JSON.stringify(facultyList));
+  putStoredRecords('faculty', [faculty]);
 };
 
 // Update an existing faculty member
 export const updateFaculty = (updatedFaculty: FacultyData): void => {
-  const facultyList = getFaculty();
-  const index = facultyList.findIndex(faculty => faculty.id === updatedFaculty.id);
-  
-  if (index !== -1) {
-    facultyList[index] = updatedFaculty;
-    localStorage.setItem(FACULTY_STORAGE_KEY, JSON.stringify(facultyList));
+  if (getFaculty().some(faculty => faculty.id === updatedFaculty.id)) {
+    putStoredRecords('faculty', [updatedFaculty]);
   }
 };
 
 // Delete a faculty member
 export const deleteFaculty = (id: string): void => {
-  const facultyList = getFaculty();
-  const filteredFaculty = facultyList.filter(faculty => faculty.id !== id);
-  localStorage.setItem(FACULTY_STORAGE_KEY, JSON.stringify(filteredFaculty));
+  deleteStoredRecord('faculty', id);
 };
 
 // Check if a faculty exists
@@ -59,3 +53,16 @@ export const getFacultyByName = (name: string): FacultyData | undefined => {
     faculty.name.toLowerCase() === name.toLowerCase()
   );
 };
+
+// Check if a faculty member marked the time slot of a day as unavailable
+export const isFacultyUnavailable = (teacherName: string, day: Day, timeSlot: TimeSlot): boolean => {
+  const faculty = getFacultyByName(teacherName);
+  return !!faculty?.unavailableSlots?.some(slot =>
+    slot.day === day && (!slot.timeSlot || timeSlotsOverlap(slot.timeSlot, timeSlot))
+  );
+};
+
+// Describe an unavailable time, e.g. "Monday 9:30-10:20" or "Wednesday (whole day)"
+export const formatUnavailability = (slot: FacultyUnavailability): string => {
+  return slot.timeSlot ? `${slot.day} ${slot.timeSlot}` : `${slot.day} (whole day)`;
+};
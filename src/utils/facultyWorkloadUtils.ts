@@ -1,13 +1,11 @@
 
 import { getTimetables } from './timetableUtils';
-import { getFaculty } from './facultyUtils';
-import { SubjectTeacherPair } from './types';
+import { getRepositories } from './storageUtils';
+import { getTeacherNames, isTaughtBy } from './facultyLabUtils';
+import { SubjectTeacherPair, Timetable } from './types';
 
-/**
- * Count how many unique non-lab subjects a faculty is teaching across all timetables
- */
-export const countGlobalFacultySubjects = (facultyName: string): number => {
-  const timetables = getTimetables();
+// Count the unique non-lab subjects a faculty teaches in the given timetables
+const countSubjectsIn = (timetables: Timetable[], facultyName: string): number => {
   const uniqueSubjects = new Set<string>();
   
   // Check current timetables
@@ -15,7 +13,7 @@ export const countGlobalFacultySubjects = (facultyName: string): number => {
     timetable.entries.forEach(entry => {
       // Skip non-subject entries like breaks and free hours
       // Also skip lab subjects per new requirement
-      if (entry.teacherName === facultyName && 
+      if (isTaughtBy(entry, facultyName) && 
           entry.subjectName && 
           !entry.isBreak && 
           !entry.isLunch && 
@@ -26,19 +24,19 @@ export const countGlobalFacultySubjects = (facultyName: string): number => {
         const subjectKey = `${timetable.id}-${entry.subjectName}`;
         uniqueSubjects.add(subjectKey);
       }
-      
-      // Check if this faculty is part of multiple teachers for a lab
-      if (entry.teacherNames && entry.teacherNames.includes(facultyName) && 
-          entry.subjectName && !entry.isBreak && !entry.isLunch && !entry.isFree && !entry.isLab) {
-        const subjectKey = `${timetable.id}-${entry.subjectName}`;
-        uniqueSubjects.add(subjectKey);
-      }
     });
   });
   
   return uniqueSubjects.size;
 };
 
+/**
+ * Count how many unique non-lab subjects a faculty is teaching across all timetables
+ */
+export const countGlobalFacultySubjects = (facultyName: string): number => {
+  return countSubjectsIn(getTimetables(), facultyName);
+};
+
 /**
  * Check if a faculty can be assigned more subjects
  * @param facultyName Faculty name to check
@@ -57,14 +55,16 @@ export const isFacultyAvailableForSubjects = (
 };
 
 /**
- * Get all faculty members with their workload information
+ * Get all faculty members with their workload information.
+ * Each faculty's timetables are read through the teacher index.
  * @param maxSubjects Maximum number of subjects allowed per faculty (default: 3)
  */
-export const getFacultyWorkloadInfo = (maxSubjects: number = 3) => {
-  const facultyList = getFaculty();
+export const getFacultyWorkloadInfo = async (maxSubjects: number = 3) => {
+  const { faculty: facultyRepository, timetables } = getRepositories();
+  const facultyList = await facultyRepository.getAll();
   
-  return facultyList.map(faculty => {
-    const currentCount = countGlobalFacultySubjects(faculty.name);
+  return Promise.all(facultyList.map(async faculty => {
+    const currentCount = countSubjectsIn(await timetables.findByTeacher(faculty.name), faculty.name);
     return {
       id: faculty.id,
       name: faculty.name,
@@ -73,7 +73,7 @@ export const getFacultyWorkloadInfo = (maxSubjects: number = 3) => {
       remainingCapacity: Math.max(0, maxSubjects - currentCount),
       isAvailable: currentCount < maxSubjects
     };
-  });
+  }));
 };
 
 /**
@@ -96,41 +96,22 @@ export const validateSubjectTeacherPairs = (
   // Filter out lab subjects from pairs
   const nonLabPairs = [...pairs, ...existingPairs].filter(pair => !pair.isLab);
   
-  // Check all non-lab pairs to find current counts
+  // Check all non-lab pairs to find current counts; every teacher of a pair counts once
   nonLabPairs.forEach(pair => {
-    // Handle single teacher
-    if (pair.teacherName) {
-      const currentGlobalCount = countGlobalFacultySubjects(pair.teacherName);
-      facultySubjectCounts[pair.teacherName] = (facultySubjectCounts[pair.teacherName] || 0) + 1;
+    getTeacherNames(pair).forEach(teacherName => {
+      const currentGlobalCount = countGlobalFacultySubjects(teacherName);
+      facultySubjectCounts[teacherName] = (facultySubjectCounts[teacherName] || 0) + 1;
       
-      const totalCount = currentGlobalCount + facultySubjectCounts[pair.teacherName];
+      const totalCount = currentGlobalCount + facultySubjectCounts[teacherName];
       if (totalCount > maxSubjects) {
-        if (!overloadedFaculty.some(f => f.name === pair.teacherName)) {
+        if (!overloadedFaculty.some(f => f.name === teacherName)) {
           overloadedFaculty.push({ 
-            name: pair.teacherName, 
+            name: teacherName, 
             count: totalCount 
           });
         }
       }
-    }
-    
-    // Handle multiple teachers
-    if (pair.teacherNames && pair.teacherNames.length > 0) {
-      pair.teacherNames.forEach(teacherName => {
-        const currentGlobalCount = countGlobalFacultySubjects(teacherName);
-        facultySubjectCounts[teacherName] = (facultySubjectCounts[teacherName] || 0) + 1;
-        
-        const totalCount = currentGlobalCount + facultySubjectCounts[teacherName];
-        if (totalCount > maxSubjects) {
-          if (!overloadedFaculty.some(f => f.name === teacherName)) {
-            overloadedFaculty.push({ 
-              name: teacherName, 
-              count: totalCount 
-            });
-          }
-        }
-      });
-    }
+    });
   });
   
   return {
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Day, FreeHourDefinition, TimeSlot, TimetableEntry } from './types';
+import { DEFAULT_BELL_SCHEDULE } from './bellScheduleUtils';
+import { allocateFreeHours } from './freeHourUtils';
+
+// Free periods left by the classes: the first period and the last two on Monday,
+// the last three on Tuesday
+const FREE_PERIODS: Record<string, TimeSlot[]> = {
+  Monday: ['9:30-10:20', '3:40-4:30', '4:30-5:20'],
+  Tuesday: ['2:50-3:40', '3:40-4:30', '4:30-5:20']
+};
+
+const allocate = (freeHours: FreeHourDefinition[]): TimetableEntry[] => allocateFreeHours(
+  ['Monday', 'Tuesday'] as Day[],
+  () => DEFAULT_BELL_SCHEDULE,
+  (day, timeSlot) => FREE_PERIODS[day].includes(timeSlot),
+  freeHours,
+  () => 0
+);
+
+const cellsOf = (entries: TimetableEntry[], type: string) => entries
+  .filter(entry => entry.freeType === type)
+  .map(entry => `${entry.day} ${entry.timeSlot}`);
+
+describe('allocateFreeHours', () => {
+  it('fills nothing without free hours', () => {
+    expect(allocate([])).toEqual([]);
+  });
+
+  it('gives a free hour its weekly quota and the rest to those without one', () => {
+    const entries = allocate([{ type: 'Library', weeklyQuota: 2 }, { type: 'Sports' }]);
+
+    expect(entries).toHaveLength(6);
+    expect(cellsOf(entries, 'Library')).toHaveLength(2);
+    expect(cellsOf(entries, 'Sports')).toHaveLength(4);
+    entries.forEach(entry => expect(entry.isFree).toBe(true));
+  });
+
+  it('shares the periods beyond the quotas when every free hour has one', () => {
+    expect(cellsOf(allocate([{ type: 'Library', weeklyQuota: 1 }]), 'Library')).toHaveLength(6);
+  });
+
+  it('places a free hour preferring the end of the day in the last periods', () => {
+    const entries = allocate([{ type: 'Project' }, { type: 'Sports', weeklyQuota: 2, preferEndOfDay: true }]);
+
+    expect(cellsOf(entries, 'Sports')).toEqual(['Monday 3:40-4:30', 'Monday 4:30-5:20']);
+  });
+
+  it('keeps a merging free hour in one run of consecutive periods', () => {
+    const entries = allocate([{ type: 'Library', weeklyQuota: 3, mergeSlots: true }, { type: 'Others', customType: 'Club' }]);
+
+    expect(cellsOf(entries, 'Library')).toEqual(['Tuesday 2:50-3:40', 'Tuesday 3:40-4:30', 'Tuesday 4:30-5:20']);
+    expect(entries.filter(entry => entry.freeType === 'Library').every(entry => entry.mergeSlots)).toBe(true);
+    expect(entries.find(entry => entry.freeType === 'Others')?.customFreeType).toBe('Club');
+  });
+});
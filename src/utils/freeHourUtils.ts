@@ -0,0 +1,140 @@
+import { BellSchedule, Day, FreeHourDefinition, TimetableEntry, TimeSlot } from './types';
+import { getPeriodSegments } from './bellScheduleUtils';
+
+// Name shown for a free hour, the custom name of an 'Others' free hour
+export const getFreeHourLabel = (freeHour: Pick<TimetableEntry, 'freeType' | 'customFreeType'>): string => {
+  return (freeHour.freeType === 'Others' && freeHour.customFreeType) || freeHour.freeType || 'Free';
+};
+
+// Check whether two free periods are shown as one block: the same free hour, set to merge
+export const isSameFreeBlock = (a?: TimetableEntry, b?: TimetableEntry): boolean => {
+  return !!a?.isFree && !!b?.isFree &&
+    !!a.mergeSlots && !!b.mergeSlots &&
+    a.freeType === b.freeType &&
+    a.customFreeType === b.customFreeType;
+};
+
+// Consecutive free periods of a day that do not cross a break or lunch
+interface FreeRun {
+  day: Day;
+  periods: TimeSlot[];
+  endsDay: boolean; // Only free periods follow the run
+  after: number; // Periods of the day after the run, 0 for a run that closes the day
+}
+
+const pickRandom = <T>(items: T[], random: () => number): T => {
+  return items[Math.floor(random() * items.length)];
+};
+
+// Fill the free periods of a class timetable with its free hours.
+// A free hour with a weekly quota gets that many periods, the ones preferring the
+// end of the day first; free hours without a quota share the periods left over.
+// When every free hour has a quota, the periods beyond them are shared by all.
+// A merging free hour takes whole runs of consecutive periods, others one period at a time.
+export const allocateFreeHours = (
+  days: Day[],
+  scheduleForDay: (day: Day) => BellSchedule,
+  isFreePeriod: (day: Day, timeSlot: TimeSlot) => boolean,
+  freeHours: FreeHourDefinition[],
+  random: () => number
+): TimetableEntry[] => {
+  if (freeHours.length === 0) return [];
+
+  const assigned = new Map<string, FreeHourDefinition>();
+  const key = (day: Day, timeSlot: TimeSlot) => `${day}-${timeSlot}`;
+
+  // Runs of free periods that have no free hour yet
+  const getOpenRuns = (): FreeRun[] => days.flatMap(day => {
+    const segments = getPeriodSegments(scheduleForDay(day));
+    const periods = segments.flat();
+    const open = periods.filter(period => isFreePeriod(day, period) && !assigned.has(key(day, period)));
+
+    return segments.flatMap(segment => {
+      const runs: TimeSlot[][] = [];
+      let run: TimeSlot[] = [];
+      segment.forEach(period => {
+        if (open.includes(period)) {
+          run.push(period);
+        } else if (run.length > 0) {
+          runs.push(run);
+          run = [];
+        }
+      });
+      if (run.length > 0) runs.push(run);
+
+      return runs.map(runPeriods => {
+        const end = periods.indexOf(runPeriods[runPeriods.length - 1]);
+        return {
+          day,
+          periods: runPeriods,
+          endsDay: periods.slice(end + 1).every(period => isFreePeriod(day, period)),
+          after: periods.length - 1 - end
+        };
+      });
+    });
+  });
+
+  const assign = (run: FreeRun, runPeriods: TimeSlot[], freeHour: FreeHourDefinition) => {
+    runPeriods.forEach(period => assigned.set(key(run.day, period), freeHour));
+  };
+
+  // Free hours with a quota, those preferring the end of the day first
+  [...freeHours]
+    .filter(freeHour => (freeHour.weeklyQuota ?? 0) > 0)
+    .sort((a, b) => Number(!!b.preferEndOfDay) - Number(!!a.preferEndOfDay))
+    .forEach(freeHour => {
+      let left = freeHour.weeklyQuota!;
+
+      while (left > 0) {
+        const runs = getOpenRuns();
+        if (runs.length === 0) break;
+
+        let run: FreeRun;
+        if (freeHour.preferEndOfDay) {
+          const latest = Math.min(...runs.map(candidate => candidate.after));
+          run = pickRandom(runs.filter(candidate => candidate.after === latest), random);
+        } else if (freeHour.mergeSlots) {
+          // A run long enough for the rest of the quota keeps the free hour in one block
+          const fitting = runs.filter(candidate => candidate.periods.length >= left);
+          run = pickRandom(fitting.length > 0 ? fitting : runs, random);
+        } else {
+          run = pickRandom(runs, random);
+        }
+
+        const take = freeHour.mergeSlots || freeHour.preferEndOfDay ? Math.min(left, run.periods.length) : 1;
+        // Periods nearest the end of the day when preferred, else the start of the run
+        assign(run, freeHour.preferEndOfDay ? run.periods.slice(-take) : run.periods.slice(0, take), freeHour);
+        left -= take;
+      }
+    });
+
+  // Periods left over go to the free hours without a quota
+  const unlimited = freeHours.filter(freeHour => !((freeHour.weeklyQuota ?? 0) > 0));
+  const fillers = unlimited.length > 0 ? unlimited : freeHours;
+  const atEnd = fillers.filter(freeHour => freeHour.preferEndOfDay);
+  const elsewhere = fillers.filter(freeHour => !freeHour.preferEndOfDay);
+
+  for (let runs = getOpenRuns(); runs.length > 0; runs = getOpenRuns()) {
+    const run = runs[0];
+    const candidates = run.endsDay
+      ? (atEnd.length > 0 ? atEnd : elsewhere)
+      : (elsewhere.length > 0 ? elsewhere : atEnd);
+    const freeHour = pickRandom(candidates, random);
+
+    assign(run, freeHour.mergeSlots ? run.periods : run.periods.slice(0, 1), freeHour);
+  }
+
+  return days.flatMap(day => getPeriodSegments(scheduleForDay(day)).flat()
+    .filter(period => assigned.has(key(day, period)))
+    .map(period => {
+      const freeHour = assigned.get(key(day, period))!;
+      return {
+        day,
+        timeSlot: period,
+        isFree: true,
+        freeType: freeHour.type,
+        customFreeType: freeHour.type === 'Others' ? freeHour.customType : undefined,
+        mergeSlots: freeHour.mergeSlots
+      };
+    }));
+};
@@ -0,0 +1,226 @@
+import { StoredUser, Subject, Timetable, TimetableRevision } from './types';
+import { FacultyData } from './facultyUtils';
+import { getTeacherNames } from './facultyLabUtils';
+import { LOCAL_STORAGE_KEYS, Repositories, Repository, TimetableRevisionRepository } from './repositories';
+import { readLocalStorageCollection } from './localStorageRepositories';
+
+const DATABASE_NAME = 'timetable-generator';
+const DATABASE_VERSION = 2;
+
+const STORES: Record<keyof Repositories, string> = {
+  timetables: 'timetables',
+  subjects: 'subjects',
+  faculty: 'faculty',
+  users: 'users',
+  revisions: 'revisions'
+};
+const META_STORE = 'meta';
+const LOCAL_STORAGE_IMPORTED = 'localStorageImported';
+
+// A stored timetable with the fields its indexes look up
+interface TimetableRecord {
+  id: string;
+  year: string;
+  branch: string;
+  semester: string;
+  teachers: string[];
+  timetable: Timetable;
+}
+
+const toTimetableRecord = (timetable: Timetable): TimetableRecord => {
+  const teachers = timetable.entries
+    .filter(entry => !entry.isBreak && !entry.isLunch)
+    .flatMap(entry => getTeacherNames(entry));
+
+  return {
+    id: timetable.id,
+    year: timetable.formData.year,
+    branch: timetable.formData.branch,
+    semester: timetable.formData.semester,
+    teachers: [...new Set(teachers)],
+    timetable
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+// Open the database, creating its stores and indexes on first use and adding
+// those of later versions to a database made by an older one
+export const openTimetableDatabase = async (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    throw new Error('IndexedDB is not supported');
+  }
+
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+
+    if (event.oldVersion < 1) {
+      const timetables = db.createObjectStore(STORES.timetables, { keyPath: 'id' });
+      timetables.createIndex('class', ['year', 'branch', 'semester']);
+      timetables.createIndex('teacher', 'teachers', { multiEntry: true });
+
+      const subjects = db.createObjectStore(STORES.subjects, { keyPath: 'id' });
+      subjects.createIndex('class', ['year', 'branch']);
+
+      db.createObjectStore(STORES.faculty, { keyPath: 'id' });
+      db.createObjectStore(STORES.users, { keyPath: 'username' });
+      db.createObjectStore(META_STORE);
+    }
+
+    if (event.oldVersion < 2) {
+      const revisions = db.createObjectStore(STORES.revisions, { keyPath: 'id' });
+      revisions.createIndex('timetable', 'timetableId');
+    }
+  };
+
+  const db = await requestToPromise(request);
+  // Let a tab with a newer version of the app upgrade the database
+  db.onversionchange = () => db.close();
+  return db;
+};
+
+// Copy the collections kept in localStorage into the database the first time it opens.
+// The copy happens in one transaction; the localStorage keys are removed once it is done.
+// Throws when the data cannot be read; it is then left in localStorage for the next start.
+export const importLocalStorageData = async (db: IDBDatabase): Promise<void> => {
+  const storeNames = Object.values(STORES);
+  const transaction = db.transaction([...storeNames, META_STORE], 'readwrite');
+  const done = transactionToPromise(transaction);
+  const meta = transaction.objectStore(META_STORE);
+  let imported = false;
+  let readError: unknown;
+
+  const check = meta.get(LOCAL_STORAGE_IMPORTED);
+  check.onsuccess = () => {
+    if (check.result) return;
+
+    try {
+      readLocalStorageCollection<Timetable>(LOCAL_STORAGE_KEYS.timetables)
+        .forEach(timetable => transaction.objectStore(STORES.timetables).put(toTimetableRecord(timetable)));
+      readLocalStorageCollection<Subject>(LOCAL_STORAGE_KEYS.subjects)
+        .forEach(subject => transaction.objectStore(STORES.subjects).put(subject));
+      readLocalStorageCollection<FacultyData>(LOCAL_STORAGE_KEYS.faculty)
+        .forEach(faculty => transaction.objectStore(STORES.faculty).put(faculty));
+      readLocalStorageCollection<StoredUser>(LOCAL_STORAGE_KEYS.users)
+        .forEach(user => transaction.objectStore(STORES.users).put(user));
+      readLocalStorageCollection<TimetableRevision>(LOCAL_STORAGE_KEYS.revisions)
+        .forEach(revision => transaction.objectStore(STORES.revisions).put(revision));
+    } catch (error) {
+      // Unreadable data is left in localStorage rather than half copied
+      readError = error;
+      transaction.abort();
+      return;
+    }
+
+    meta.put(new Date().toISOString(), LOCAL_STORAGE_IMPORTED);
+    imported = true;
+  };
+
+  await done.catch(error => {
+    throw readError || error;
+  });
+  if (imported) {
+    Object.values(LOCAL_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+  }
+};
+
+const createStoreRepository = <T, R>(
+  db: IDBDatabase,
+  storeName: string,
+  toRecord: (item: T) => R,
+  fromRecord: (record: R) => T
+): Repository<T> => ({
+  // Transactions are opened when a method is called, so writes are applied in call order.
+  // Methods are async so that db.transaction throwing, e.g. once the database is closed,
+  // rejects the promise like any other failed write.
+  getAll: async () => {
+    const records: R[] = await requestToPromise(db.transaction(storeName).objectStore(storeName).getAll());
+    return records.map(fromRecord);
+  },
+
+  get: async (key) => {
+    const record: R | undefined = await requestToPromise(db.transaction(storeName).objectStore(storeName).get(key));
+    return record === undefined ? undefined : fromRecord(record);
+  },
+
+  putAll: async (items) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    items.forEach(item => store.put(toRecord(item)));
+    return transactionToPromise(transaction);
+  },
+
+  delete: async (key) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(key);
+    return transactionToPromise(transaction);
+  },
+
+  // Clearing and adding in one transaction, so a failure leaves the store as it was
+  replaceAll: async (items) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    store.clear();
+    items.forEach(item => store.put(toRecord(item)));
+    return transactionToPromise(transaction);
+  }
+});
+
+const queryIndex = async <R>(db: IDBDatabase, storeName: string, indexName: string, query: IDBValidKey): Promise<R[]> => {
+  return requestToPromise(db.transaction(storeName).objectStore(storeName).index(indexName).getAll(query));
+};
+
+const createRevisionRepository = (db: IDBDatabase): TimetableRevisionRepository => ({
+  add: async (revision) => {
+    const transaction = db.transaction(STORES.revisions, 'readwrite');
+    transaction.objectStore(STORES.revisions).add(revision);
+    return transactionToPromise(transaction);
+  },
+
+  findByTimetable: (timetableId) => queryIndex<TimetableRevision>(db, STORES.revisions, 'timetable', timetableId),
+
+  deleteByTimetable: async (timetableId) => {
+    const transaction = db.transaction(STORES.revisions, 'readwrite');
+    const store = transaction.objectStore(STORES.revisions);
+    const keys = store.index('timetable').getAllKeys(timetableId);
+    keys.onsuccess = () => keys.result.forEach(key => store.delete(key));
+    return transactionToPromise(transaction);
+  }
+});
+
+// Repositories over an open database; timetables and subjects are queried through their indexes
+export const createIndexedDbRepositories = (db: IDBDatabase): Repositories => {
+  const identity = <T>(record: T): T => record;
+  const fromTimetableRecord = (record: TimetableRecord): Timetable => record.timetable;
+
+  return {
+    timetables: {
+      ...createStoreRepository(db, STORES.timetables, toTimetableRecord, fromTimetableRecord),
+      findByClass: async (year, branch, semester) => {
+        const records = await queryIndex<TimetableRecord>(db, STORES.timetables, 'class', [year, branch, semester]);
+        return records.map(fromTimetableRecord);
+      },
+      findByTeacher: async (teacherName) => {
+        const records = await queryIndex<TimetableRecord>(db, STORES.timetables, 'teacher', teacherName);
+        return records.map(fromTimetableRecord);
+      }
+    },
+    subjects: {
+      ...createStoreRepository<Subject, Subject>(db, STORES.subjects, identity, identity),
+      findByClass: (year, branch) => queryIndex<Subject>(db, STORES.subjects, 'class', [year, branch])
+    },
+    faculty: createStoreRepository<FacultyData, FacultyData>(db, STORES.faculty, identity, identity),
+    users: createStoreRepository<StoredUser, StoredUser>(db, STORES.users, identity, identity),
+    revisions: createRevisionRepository(db)
+  };
+};
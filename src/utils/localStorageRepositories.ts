@@ -0,0 +1,98 @@
+import { StoredUser, Subject, Timetable, TimetableRevision } from './types';
+import { FacultyData } from './facultyUtils';
+import { isTaughtBy } from './facultyLabUtils';
+import { LOCAL_STORAGE_KEYS, Repositories, Repository, TimetableRevisionRepository } from './repositories';
+
+// Read a collection stored as one JSON array. Throws when the stored value is
+// not one, so unreadable data is reported and never overwritten.
+export const readLocalStorageCollection = <T>(storageKey: string): T[] => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(storageKey) || '[]');
+  } catch {
+    throw new Error(`The data saved under "${storageKey}" is not valid JSON`);
+  }
+  if (!Array.isArray(stored)) {
+    throw new Error(`The data saved under "${storageKey}" is not a list`);
+  }
+  return stored;
+};
+
+// Stored collections may hold malformed records, which are reported when the app starts
+const isRecord = (record: unknown): boolean => typeof record === 'object' && record !== null;
+
+const createLocalStorageRepository = <T>(storageKey: string, keyOf: (record: T) => string): Repository<T> => ({
+  getAll: async () => readLocalStorageCollection<T>(storageKey),
+
+  get: async (key) => readLocalStorageCollection<T>(storageKey).find(record => isRecord(record) && keyOf(record) === key),
+
+  putAll: async (records) => {
+    const stored = readLocalStorageCollection<T>(storageKey);
+    records.forEach(record => {
+      const index = stored.findIndex(existing => isRecord(existing) && keyOf(existing) === keyOf(record));
+      if (index >= 0) {
+        stored[index] = record;
+      } else {
+        stored.push(record);
+      }
+    });
+    localStorage.setItem(storageKey, JSON.stringify(stored));
+  },
+
+  delete: async (key) => {
+    const stored = readLocalStorageCollection<T>(storageKey);
+    localStorage.setItem(storageKey, JSON.stringify(stored.filter(record => !isRecord(record) || keyOf(record) !== key)));
+  },
+
+  replaceAll: async (records) => {
+    localStorage.setItem(storageKey, JSON.stringify(records));
+  }
+});
+
+const createLocalStorageRevisionRepository = (storageKey: string): TimetableRevisionRepository => ({
+  add: async (revision) => {
+    const stored = readLocalStorageCollection<TimetableRevision>(storageKey);
+    localStorage.setItem(storageKey, JSON.stringify([...stored, revision]));
+  },
+
+  findByTimetable: async (timetableId) => readLocalStorageCollection<TimetableRevision>(storageKey)
+    .filter(revision => isRecord(revision) && revision.timetableId === timetableId),
+
+  deleteByTimetable: async (timetableId) => {
+    const stored = readLocalStorageCollection<TimetableRevision>(storageKey);
+    localStorage.setItem(storageKey, JSON.stringify(stored.filter(revision => !isRecord(revision) || revision.timetableId !== timetableId)));
+  }
+});
+
+// Repositories over the localStorage keys, for browsers without IndexedDB.
+// Every call reads the whole collection, so queries are plain filters.
+export const createLocalStorageRepositories = (): Repositories => {
+  const timetables = createLocalStorageRepository<Timetable>(LOCAL_STORAGE_KEYS.timetables, timetable => timetable.id);
+  const subjects = createLocalStorageRepository<Subject>(LOCAL_STORAGE_KEYS.subjects, subject => subject.id);
+
+  return {
+    timetables: {
+      ...timetables,
+      findByClass: async (year, branch, semester) => (await timetables.getAll()).filter(timetable =>
+        isRecord(timetable) &&
+        timetable.formData?.year === year &&
+        timetable.formData.branch === branch &&
+        timetable.formData.semester === semester
+      ),
+      findByTeacher: async (teacherName) => (await timetables.getAll()).filter(timetable =>
+        isRecord(timetable) &&
+        Array.isArray(timetable.entries) &&
+        timetable.entries.some(entry => isRecord(entry) && isTaughtBy(entry, teacherName) && !entry.isBreak && !entry.isLunch)
+      )
+    },
+    subjects: {
+      ...subjects,
+      findByClass: async (year, branch) => (await subjects.getAll()).filter(subject =>
+        isRecord(subject) && subject.year === year && subject.branch === branch
+      )
+    },
+    faculty: createLocalStorageRepository<FacultyData>(LOCAL_STORAGE_KEYS.faculty, faculty => faculty.id),
+    users: createLocalStorageRepository<StoredUser>(LOCAL_STORAGE_KEYS.users, user => user.username),
+    revisions: createLocalStorageRevisionRepository(LOCAL_STORAGE_KEYS.revisions)
+  };
+};
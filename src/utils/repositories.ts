@@ -0,0 +1,47 @@
+import { BranchType, SemesterType, StoredUser, Subject, Timetable, TimetableRevision, YearType } from './types';
+import { FacultyData } from './facultyUtils';
+
+// Records of one kind kept in storage, looked up by their key (id or username)
+export interface Repository<T> {
+  getAll: () => Promise<T[]>;
+  get: (key: string) => Promise<T | undefined>;
+  putAll: (records: T[]) => Promise<void>; // Adds new records and replaces stored ones with the same key
+  delete: (key: string) => Promise<void>;
+  replaceAll: (records: T[]) => Promise<void>; // Removes every stored record and adds these, all or nothing
+}
+
+export interface TimetableRepository extends Repository<Timetable> {
+  findByClass: (year: YearType, branch: BranchType, semester: SemesterType) => Promise<Timetable[]>;
+  findByTeacher: (teacherName: string) => Promise<Timetable[]>; // Timetables with a class of the teacher
+}
+
+export interface SubjectRepository extends Repository<Subject> {
+  findByClass: (year: YearType, branch: BranchType) => Promise<Subject[]>;
+}
+
+export type FacultyRepository = Repository<FacultyData>;
+export type UserRepository = Repository<StoredUser>;
+
+// Revisions are only ever added, and read per timetable rather than loaded at startup
+export interface TimetableRevisionRepository {
+  add: (revision: TimetableRevision) => Promise<void>;
+  findByTimetable: (timetableId: string) => Promise<TimetableRevision[]>;
+  deleteByTimetable: (timetableId: string) => Promise<void>;
+}
+
+export interface Repositories {
+  timetables: TimetableRepository;
+  subjects: SubjectRepository;
+  faculty: FacultyRepository;
+  users: UserRepository;
+  revisions: TimetableRevisionRepository;
+}
+
+// localStorage keys the collections were kept under before the repositories
+export const LOCAL_STORAGE_KEYS: Record<keyof Repositories, string> = {
+  timetables: 'timetables',
+  subjects: 'subjects',
+  faculty: 'timetable_faculty',
+  users: 'users',
+  revisions: 'timetable_revisions'
+};
@@ -0,0 +1,19 @@
+// Deterministic random numbers so a generated timetable can be reproduced from its seed
+
+// Draw a fresh 32-bit seed
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 0xffffffff);
+};
+
+// Create a mulberry32 generator returning numbers in [0, 1) for the given seed
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { setUpTestStorage } from '@/test/storage';
+import { CURRENT_SCHEMA_VERSION, stampSchemaVersion, upgradeStoredRecord } from './storageSchema';
+import { getStorageIssues, getStoredRecords } from './storageUtils';
+import { LOCAL_STORAGE_KEYS } from './repositories';
+
+// A timetable as saved before versions were stamped: one teacher per entry,
+// short day names and no faculty details, free hours or day options
+const unversionedTimetable = () => ({
+  id: 'cse-2',
+  createdAt: '2024-01-10T09:00:00.000Z',
+  formData: {
+    year: '2nd Year',
+    branch: 'CSE',
+    semester: 'I',
+    subjectTeacherPairs: [{ id: 'maths', subjectName: 'Maths', teacherName: 'Ann', isLab: false }]
+  },
+  entries: [{ day: 'Mon', timeSlot: '9:30-10:20', subjectName: 'Maths', teacherName: 'Ann' }]
+});
+
+describe('upgradeStoredRecord', () => {
+  it('runs every migration on a record saved before versions were stamped', () => {
+    const { record, upgraded } = upgradeStoredRecord('timetables', unversionedTimetable());
+
+    expect(upgraded).toBe(true);
+    expect(record.entries[0]).toMatchObject({ day: 'Monday', teacherNames: ['Ann'] });
+    expect(record.formData.subjectTeacherPairs[0].teacherNames).toEqual(['Ann']);
+    expect(record.facultyDetails).toEqual({});
+    expect(record.formData.freeHours).toEqual([]);
+    expect(record.formData.dayOptions).toEqual({ fourContinuousDays: false, useCustomDays: false, selectedDays: [] });
+  });
+
+  it('only runs the migrations newer than the record', () => {
+    // Version 2 already has long day names, so "Mon" is left to the schema
+    const stored = { ...unversionedTimetable(), schemaVersion: 2 };
+
+    expect(() => upgradeStoredRecord('timetables', stored)).toThrow(/^entries\.0\.day:/);
+  });
+
+  it('keeps a current record as it is', () => {
+    const current = stampSchemaVersion(upgradeStoredRecord('timetables', unversionedTimetable()).record);
+    const { record, upgraded } = upgradeStoredRecord('timetables', current);
+
+    expect(upgraded).toBe(false);
+    expect(record).toEqual(upgradeStoredRecord('timetables', unversionedTimetable()).record);
+  });
+
+  it('migrates the days of faculty unavailability', () => {
+    const { record } = upgradeStoredRecord('faculty', {
+      id: 'ann',
+      name: 'Ann',
+      unavailableSlots: [{ day: 'Tue' }, { day: 'Friday', timeSlot: '9:30-10:20' }]
+    });
+
+    expect(record.unavailableSlots).toEqual([{ day: 'Tuesday' }, { day: 'Friday', timeSlot: '9:30-10:20' }]);
+  });
+
+  it('rejects records it cannot read', () => {
+    expect(() => upgradeStoredRecord('subjects', null)).toThrow('Not a record');
+    expect(() => upgradeStoredRecord('subjects', { id: 's1', name: 'Maths', year: '5th Year', branch: 'CSE' }))
+      .toThrow(/^year:/);
+    expect(() => upgradeStoredRecord('users', { username: 'ann', role: 'admin', schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))
+      .toThrow(`newer than this app's ${CURRENT_SCHEMA_VERSION}`);
+  });
+});
+
+describe('loading stored collections', () => {
+  it('writes upgraded records back and reports unreadable ones without dropping them', async () => {
+    const unreadable = { id: 'broken', createdAt: 'x' };
+    const store = await setUpTestStorage({
+      [LOCAL_STORAGE_KEYS.timetables]: [unversionedTimetable(), unreadable]
+    });
+
+    expect(getStoredRecords('timetables').map(timetable => timetable.id)).toEqual(['cse-2']);
+    expect(getStorageIssues()).toEqual([expect.objectContaining({ collection: 'timetables', key: 'broken' })]);
+
+    const saved = JSON.parse(store[LOCAL_STORAGE_KEYS.timetables]);
+    expect(saved).toContainEqual(expect.objectContaining({ id: 'cse-2', schemaVersion: CURRENT_SCHEMA_VERSION }));
+    expect(saved).toContainEqual(unreadable);
+  });
+});
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { StoredCollections } from './storageUtils';
+import { migrateTimetableTeachers } from './facultyLabUtils';
+import { migrateFacultyDays, migrateTimetableDays } from './dayUtils';
+
+type CollectionName = keyof StoredCollections;
+type StoredRecord<K extends CollectionName> = StoredCollections[K][number];
+
+// One step of the stored format. Records saved before it are upgraded by its
+// migrations, in version order; collections without one are only re-stamped.
+interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: { [K in CollectionName]?: (record: StoredRecord<K>) => StoredRecord<K> };
+}
+
+// Every change to the stored shapes, oldest first. Records written before
+// versions were stamped count as version 0.
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Entries and subject-teacher pairs list every teacher in teacherNames',
+    migrate: { timetables: migrateTimetableTeachers }
+  },
+  {
+    version: 2,
+    description: 'Days are stored as long names',
+    migrate: { timetables: migrateTimetableDays, faculty: migrateFacultyDays }
+  },
+  {
+    version: 3,
+    description: 'Timetables always have faculty details, pairs, free hours and day options',
+    migrate: {
+      timetables: timetable => ({
+        ...timetable,
+        facultyDetails: timetable.facultyDetails || {},
+        formData: {
+          ...timetable.formData,
+          subjectTeacherPairs: timetable.formData.subjectTeacherPairs || [],
+          freeHours: timetable.formData.freeHours || [],
+          dayOptions: timetable.formData.dayOptions || { fourContinuousDays: false, useCustomDays: false, selectedDays: [] }
+        }
+      })
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+// Schemas check the fields pages rely on; other fields are kept as they are
+const daySchema = z.enum(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']);
+const yearSchema = z.enum(['1st Year', '2nd Year', '3rd Year', '4th Year']);
+const branchSchema = z.enum(['CSE', 'IT', 'ECE', 'EEE', 'CSD', 'AI & ML', 'Other', 'All']);
+
+const teacherFields = {
+  teacherName: z.string().optional(),
+  teacherNames: z.array(z.string()).optional()
+};
+
+const timetableSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  facultyDetails: z.record(z.unknown()),
+  formData: z.object({
+    year: yearSchema,
+    branch: branchSchema,
+    semester: z.enum(['I', 'II']),
+    subjectTeacherPairs: z.array(z.object({ subjectName: z.string(), ...teacherFields }).passthrough()),
+    freeHours: z.array(z.object({ type: z.string() }).passthrough()),
+    dayOptions: z.object({ selectedDays: z.array(daySchema) }).passthrough(),
+    dayPeriods: z.record(daySchema, z.number()).optional()
+  }).passthrough(),
+  entries: z.array(z.object({ day: daySchema, timeSlot: z.string(), ...teacherFields }).passthrough())
+}).passthrough();
+
+const subjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  year: yearSchema,
+  branch: branchSchema
+}).passthrough();
+
+const facultySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  unavailableSlots: z.array(z.object({ day: daySchema, timeSlot: z.string().optional() })).optional()
+}).passthrough();
+
+const userSchema = z.object({
+  username: z.string(),
+  password: z.string(),
+  role: z.enum(['admin', 'faculty', 'student', 'guest'])
+}).passthrough();
+
+const STORAGE_SCHEMAS: Record<CollectionName, z.ZodTypeAny> = {
+  timetables: timetableSchema,
+  subjects: subjectSchema,
+  faculty: facultySchema,
+  users: userSchema
+};
+
+// A record as written to storage, stamped with the schema version it follows
+export type VersionedRecord<T> = T & { schemaVersion: number };
+
+export const stampSchemaVersion = <T>(record: T): VersionedRecord<T> => ({
+  ...record,
+  schemaVersion: CURRENT_SCHEMA_VERSION
+});
+
+// Bring a stored record from its schema version to the current one and validate it.
+// Throws with the reason when a step fails or the result does not match the schema;
+// `upgraded` tells whether the record has to be written back.
+export const upgradeStoredRecord = <K extends CollectionName>(
+  name: K,
+  stored: unknown
+): { record: StoredRecord<K>; upgraded: boolean } => {
+  if (typeof stored !== 'object' || stored === null) {
+    throw new Error('Not a record');
+  }
+
+  const { schemaVersion = 0, ...fields } = stored as Partial<VersionedRecord<object>>;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Saved with schema version ${schemaVersion}, newer than this app's ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  const migrated = STORAGE_MIGRATIONS
+    .filter(migration => migration.version > schemaVersion)
+    .reduce((record, migration) => {
+      const migrate = migration.migrate[name];
+      return migrate ? migrate(record) : record;
+    }, fields as StoredRecord<K>);
+
+  const result = STORAGE_SCHEMAS[name].safeParse(migrated);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`${issue.path.join('.') || 'record'}: ${issue.message}`);
+  }
+  return { record: result.data, upgraded: schemaVersion < CURRENT_SCHEMA_VERSION };
+};
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { setUpTestStorage } from '@/test/storage';
+import { Timetable, YearType } from './types';
+import { LOCAL_STORAGE_KEYS } from './repositories';
+import { stampSchemaVersion } from './storageSchema';
+import { getStoredRecords } from './storageUtils';
+import { deleteTimetable, saveTimetable, saveTimetables } from './timetableUtils';
+
+const timetable = (id: string, year: YearType, semester: 'I' | 'II' = 'I'): Timetable => ({
+  id,
+  createdAt: '2026-07-01T09:00:00.000Z',
+  facultyDetails: {},
+  formData: {
+    year,
+    branch: 'CSE',
+    semester,
+    subjectTeacherPairs: [],
+    freeHours: [],
+    dayOptions: { fourContinuousDays: false, useCustomDays: false, selectedDays: [] }
+  },
+  entries: []
+} as Timetable);
+
+let store: Record<string, string>;
+
+// Make every following localStorage write fail, as a full quota does
+const failWrites = () => {
+  vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+    throw new Error('QuotaExceededError');
+  });
+};
+
+beforeEach(async () => {
+  store = await setUpTestStorage({
+    [LOCAL_STORAGE_KEYS.timetables]: [stampSchemaVersion(timetable('first', '1st Year'))]
+  });
+});
+
+describe('saving timetables', () => {
+  it('resolves once the timetable is stored', async () => {
+    expect(await saveTimetable(timetable('second', '2nd Year'))).toEqual({ success: true });
+
+    expect(getStoredRecords('timetables').map(record => record.id)).toEqual(['first', 'second']);
+    expect(JSON.parse(store[LOCAL_STORAGE_KEYS.timetables])).toHaveLength(2);
+  });
+
+  it('leaves the loaded timetables as they were when the write fails', async () => {
+    failWrites();
+
+    const added = await saveTimetable(timetable('second', '2nd Year'));
+    const replaced = await saveTimetable(timetable('first', '1st Year', 'II'));
+
+    expect(added.success).toBe(false);
+    expect(replaced.success).toBe(false);
+    expect(getStoredRecords('timetables')).toEqual([timetable('first', '1st Year')]);
+  });
+
+  it('stores none of several timetables when their write fails', async () => {
+    failWrites();
+
+    const result = await saveTimetables([timetable('second', '2nd Year'), timetable('third', '3rd Year')]);
+
+    expect(result.success).toBe(false);
+    expect(getStoredRecords('timetables').map(record => record.id)).toEqual(['first']);
+  });
+
+  it('keeps a timetable whose delete fails', async () => {
+    failWrites();
+
+    expect(await deleteTimetable('first')).toBe(false);
+    expect(getStoredRecords('timetables').map(record => record.id)).toEqual(['first']);
+  });
+});
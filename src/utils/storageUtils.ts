@@ -0,0 +1,275 @@
+import { toast } from '@/hooks/use-toast';
+import { StoredUser, Subject, Timetable } from './types';
+import { FacultyData } from './facultyUtils';
+import { Repositories, Repository } from './repositories';
+import { createIndexedDbRepositories, importLocalStorageData, openTimetableDatabase } from './indexedDbRepositories';
+import { createLocalStorageRepositories } from './localStorageRepositories';
+import { stampSchemaVersion, upgradeStoredRecord } from './storageSchema';
+
+// Records of every repository, loaded once when the app starts so reads stay synchronous
+export interface StoredCollections {
+  timetables: Timetable[];
+  subjects: Subject[];
+  faculty: FacultyData[];
+  users: StoredUser[];
+}
+
+type CollectionName = keyof StoredCollections;
+type StoredRecord<K extends CollectionName> = StoredCollections[K][number];
+
+// A stored record left out at startup because it could not be upgraded or validated.
+// It stays in storage as it was, so nothing is lost.
+export interface StorageIssue {
+  collection: CollectionName;
+  key: string;
+  message: string;
+}
+
+let repositories: Repositories | null = null;
+let storageIssues: StorageIssue[] = [];
+
+const collections: StoredCollections = {
+  timetables: [],
+  subjects: [],
+  faculty: [],
+  users: []
+};
+
+// Key of a record; stored records that failed to load may not even be objects
+const keyOf = <K extends CollectionName>(name: K, record: StoredRecord<K>): string => {
+  const fields = (record ?? {}) as Partial<StoredUser & { id: string }>;
+  return (name === 'users' ? fields.username : fields.id) ?? '(no key)';
+};
+
+const getRepository = <K extends CollectionName>(name: K): Repository<StoredRecord<K>> => {
+  return getRepositories()[name] as unknown as Repository<StoredRecord<K>>;
+};
+
+const isLoaded = <K extends CollectionName>(name: K, record: StoredRecord<K>): boolean => {
+  return !storageIssues.some(issue => issue.collection === name && issue.key === keyOf(name, record));
+};
+
+// Records read straight from a repository, without the ones left out at startup
+// and without their schema version stamp
+const toLoadedRecords = <K extends CollectionName>(name: K) => (records: StoredRecord<K>[]): StoredRecord<K>[] => {
+  return records
+    .filter(record => isLoaded(name, record))
+    .map(record => {
+      const { schemaVersion, ...fields } = record as StoredRecord<K> & { schemaVersion?: number };
+      return fields as StoredRecord<K>;
+    });
+};
+
+// Reads of the stored repositories limited to the records loaded at startup;
+// writes stamp the current schema version
+const toLoadedRepositories = (stored: Repositories): Repositories => {
+  const wrap = <K extends CollectionName>(name: K, repository: Repository<StoredRecord<K>>): Repository<StoredRecord<K>> => ({
+    getAll: () => repository.getAll().then(toLoadedRecords(name)),
+    get: key => repository.get(key).then(record => record && toLoadedRecords(name)([record])[0]),
+    putAll: records => repository.putAll(records.map(stampSchemaVersion)),
+    delete: key => repository.delete(key),
+    replaceAll: records => repository.replaceAll(records.map(stampSchemaVersion))
+  });
+
+  return {
+    timetables: {
+      ...wrap('timetables', stored.timetables),
+      findByClass: (...args) => stored.timetables.findByClass(...args).then(toLoadedRecords('timetables')),
+      findByTeacher: teacherName => stored.timetables.findByTeacher(teacherName).then(toLoadedRecords('timetables'))
+    },
+    subjects: {
+      ...wrap('subjects', stored.subjects),
+      findByClass: (...args) => stored.subjects.findByClass(...args).then(toLoadedRecords('subjects'))
+    },
+    faculty: wrap('faculty', stored.faculty),
+    users: wrap('users', stored.users),
+    revisions: stored.revisions
+  };
+};
+
+// Writes run in the background; a failed one is reported instead of thrown
+export const reportStorageWriteError = (error: unknown) => {
+  console.error("Error writing to storage:", error);
+  toast({
+    title: "Changes not saved",
+    description: error instanceof Error ? error.message : "Storage could not be written",
+    variant: "destructive",
+  });
+};
+
+// Load a collection, upgrading records of older schema versions and writing them back.
+// A record that fails is reported and left out instead of breaking the pages reading it;
+// a collection that cannot be read at all is reported and left empty.
+const loadCollection = async <K extends CollectionName>(stored: Repositories, name: K): Promise<StorageIssue[]> => {
+  const repository = stored[name] as unknown as Repository<StoredRecord<K>>;
+  const loaded: StoredRecord<K>[] = [];
+  const upgraded: StoredRecord<K>[] = [];
+  const issues: StorageIssue[] = [];
+
+  let records: StoredRecord<K>[];
+  try {
+    records = await repository.getAll();
+  } catch (error) {
+    return [{
+      collection: name,
+      key: '(all records)',
+      message: error instanceof Error ? error.message : String(error)
+    }];
+  }
+
+  records.forEach(record => {
+    try {
+      const result = upgradeStoredRecord(name, record);
+      loaded.push(result.record);
+      if (result.upgraded) upgraded.push(result.record);
+    } catch (error) {
+      issues.push({
+        collection: name,
+        key: keyOf(name, record),
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  if (upgraded.length > 0) {
+    // Records not written back are upgraded again on the next start
+    await repository.putAll(upgraded.map(stampSchemaVersion))
+      .catch(error => console.error("Error writing upgraded records:", error));
+  }
+  collections[name] = loaded as StoredCollections[K];
+  return issues;
+};
+
+// Open IndexedDB, copy over data left in localStorage the first time, and load every
+// collection. Browsers without IndexedDB keep using localStorage through the same interface,
+// and so does a browser whose localStorage data cannot be copied, so none of it is hidden.
+// Failures are reported as storage issues rather than thrown.
+export const initializeStorage = async (): Promise<void> => {
+  let stored: Repositories;
+  try {
+    const db = await openTimetableDatabase();
+    await importLocalStorageData(db);
+    stored = createIndexedDbRepositories(db);
+  } catch (error) {
+    console.error("IndexedDB unavailable or localStorage data unreadable, using localStorage:", error);
+    stored = createLocalStorageRepositories();
+  }
+
+  // Set first, so pages can still write if loading fails unexpectedly
+  repositories = toLoadedRepositories(stored);
+
+  const issues = await Promise.all([
+    loadCollection(stored, 'timetables'),
+    loadCollection(stored, 'subjects'),
+    loadCollection(stored, 'faculty'),
+    loadCollection(stored, 'users')
+  ]);
+  storageIssues = issues.flat();
+
+  if (storageIssues.length > 0) {
+    console.error("Stored records could not be loaded:", storageIssues);
+    toast({
+      title: "Some saved data could not be loaded",
+      description: `${storageIssues.length} records or collections were left out. See Admin Settings for details.`,
+      variant: "destructive",
+    });
+  }
+};
+
+// Records left out at startup, with the reason
+export const getStorageIssues = (): StorageIssue[] => {
+  return [...storageIssues];
+};
+
+// Async repositories, for indexed queries such as the timetables of a teacher
+export const getRepositories = (): Repositories => {
+  if (!repositories) {
+    throw new Error("Storage is not initialized");
+  }
+  return repositories;
+};
+
+// Records of a collection, as a new array; the records are shared, so replace rather than mutate them
+export const getStoredRecords = <K extends CollectionName>(name: K): StoredCollections[K] => {
+  return [...collections[name]] as StoredCollections[K];
+};
+
+// Add or replace records by key, then write them to the repository. The loaded records
+// change right away so pages see them; when the write fails they are put back as they
+// were. Resolves to whether the write succeeded; a failure is reported already.
+export const putStoredRecords = async <K extends CollectionName>(name: K, records: StoredRecord<K>[]): Promise<boolean> => {
+  const previous = collections[name] as StoredRecord<K>[];
+  const updated = [...previous];
+  records.forEach(record => {
+    const index = updated.findIndex(existing => keyOf(name, existing) === keyOf(name, record));
+    if (index >= 0) {
+      updated[index] = record;
+    } else {
+      updated.push(record);
+    }
+  });
+  collections[name] = updated as StoredCollections[K];
+
+  try {
+    await getRepository(name).putAll(records);
+  } catch (error) {
+    // Put back what these records replaced; records written again meanwhile are kept
+    const restored = [...collections[name]] as StoredRecord<K>[];
+    records.forEach(record => {
+      const index = restored.indexOf(record);
+      if (index < 0) return;
+      const replaced = previous.find(existing => keyOf(name, existing) === keyOf(name, record));
+      if (replaced) {
+        restored[index] = replaced;
+      } else {
+        restored.splice(index, 1);
+      }
+    });
+    collections[name] = restored as StoredCollections[K];
+    reportStorageWriteError(error);
+    return false;
+  }
+
+  // A saved record replaces one that failed to load under the same key
+  storageIssues = storageIssues.filter(issue =>
+    issue.collection !== name || !records.some(record => keyOf(name, record) === issue.key)
+  );
+  return true;
+};
+
+// Remove a record by key, then delete it from the repository. The record is put back
+// when the delete fails. Resolves to whether it succeeded; a failure is reported already.
+export const deleteStoredRecord = async <K extends CollectionName>(name: K, key: string): Promise<boolean> => {
+  const removed = (collections[name] as StoredRecord<K>[]).find(record => keyOf(name, record) === key);
+  collections[name] = (collections[name] as StoredRecord<K>[])
+    .filter(record => keyOf(name, record) !== key) as StoredCollections[K];
+
+  try {
+    await getRepository(name).delete(key);
+  } catch (error) {
+    const current = collections[name] as StoredRecord<K>[];
+    if (removed && !current.some(record => keyOf(name, record) === key)) {
+      collections[name] = [...current, removed] as StoredCollections[K];
+    }
+    reportStorageWriteError(error);
+    return false;
+  }
+
+  storageIssues = storageIssues.filter(issue => issue.collection !== name || issue.key !== key);
+  return true;
+};
+
+// Replace a whole collection in one write, e.g. when restoring a backup. Unlike the
+// other writes it is awaited: the loaded records change only once it succeeded, and
+// a failure, which leaves the stored collection as it was, is reported and thrown.
+export const replaceStoredCollection = async <K extends CollectionName>(name: K, records: StoredRecord<K>[]): Promise<void> => {
+  try {
+    await getRepository(name).replaceAll(records);
+  } catch (error) {
+    reportStorageWriteError(error);
+    throw error;
+  }
+
+  collections[name] = [...records] as StoredCollections[K];
+  storageIssues = storageIssues.filter(issue => issue.collection !== name);
+};
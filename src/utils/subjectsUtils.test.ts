@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LECTURE_HOURS, formatSubjectHours, getLabDuration, getLabSessionsPerWeek, getSubjectHours } from './subjectsUtils';
+
+describe('getSubjectHours', () => {
+  it('takes the declared L-T-P hours of a theory subject', () => {
+    expect(getSubjectHours({ isLab: false, lectureHours: 3, tutorialHours: 1, creditHours: 5 }))
+      .toEqual({ lectureHours: 3, tutorialHours: 1, practicalHours: undefined });
+  });
+
+  it('gives a theory subject saved before L-T-P its credit hours as lectures', () => {
+    expect(getSubjectHours({ isLab: false, creditHours: 3 })).toEqual({ lectureHours: 3, tutorialHours: 0, practicalHours: undefined });
+  });
+
+  it('falls back to the default lectures without hours or credits', () => {
+    expect(getSubjectHours({ isLab: false }).lectureHours).toBe(DEFAULT_LECTURE_HOURS);
+  });
+
+  it('keeps zero declared lectures rather than using the default', () => {
+    expect(getSubjectHours({ isLab: false, lectureHours: 0, tutorialHours: 2 }).lectureHours).toBe(0);
+  });
+
+  it('gives a lab only practical hours, from its credit hours when none are declared', () => {
+    expect(getSubjectHours({ isLab: true, lectureHours: 3, practicalHours: 2 }))
+      .toEqual({ lectureHours: 0, tutorialHours: 0, practicalHours: 2 });
+    expect(getSubjectHours({ isLab: true, creditHours: 3 }).practicalHours).toBe(3);
+    expect(getSubjectHours({ isLab: true }).practicalHours).toBeUndefined();
+  });
+
+  it('formats the hours as L-T-P', () => {
+    expect(formatSubjectHours({ isLab: false, lectureHours: 3, tutorialHours: 1 })).toBe('3-1-0');
+    expect(formatSubjectHours({ isLab: true, practicalHours: 4 })).toBe('0-0-4');
+  });
+});
+
+describe('lab sessions', () => {
+  it('runs a lab as one session of its practical hours by default', () => {
+    expect(getLabDuration({ isLab: true, practicalHours: 3 })).toBe(3);
+    expect(getLabSessionsPerWeek({ isLab: true, practicalHours: 3 })).toBe(1);
+  });
+
+  it('splits the practical hours into sessions of the declared duration', () => {
+    expect(getLabDuration({ isLab: true, practicalHours: 4, labDuration: 2 })).toBe(2);
+    expect(getLabSessionsPerWeek({ isLab: true, practicalHours: 4, labDuration: 2 })).toBe(2);
+  });
+
+  it('holds at least one session a week', () => {
+    expect(getLabSessionsPerWeek({ isLab: true, practicalHours: 1, labDuration: 3 })).toBe(1);
+    expect(getLabSessionsPerWeek({ isLab: true })).toBe(1);
+    expect(getLabDuration({ isLab: true })).toBeUndefined();
+  });
+});
@@ -1,13 +1,13 @@
 import { v4 as uuidv4 } from 'uuid';
 import { YearType, BranchType, Subject } from './types';
+import { deleteStoredRecord, getStoredRecords, putStoredRecords } from './storageUtils';
 
-// Get all subjects from localStorage
+// Get all subjects, as loaded from storage when the app started
 export const getSubjects = (): Subject[] => {
-  const subjects = JSON.parse(localStorage.getItem('subjects') || '[]');
-  return subjects;
+  return getStoredRecords('subjects');
 };
 
-// Save a subject to localStorage
+// Save a subject to storage
 export const saveSubject = (subject: Subject) => {
   const subjects = getSubjects();
   const existingIndex = subjects.findIndex(s => s.id === subject.id);
@@ -25,23 +25,20 @@ export const saveSubject = (subject: Subject) => {
   }
   
   if (existingIndex >= 0) {
-    subjects[existingIndex] = subject;
+    putStoredRecords('subjects', [subject]);
   } else {
-    subjects.push({
+    putStoredRecords('subjects', [{
       ...subject,
       id: subject.id || uuidv4()
-    });
+    }]);
   }
   
-  localStorage.setItem('subjects', JSON.stringify(subjects));
   return subject;
 };
 
-// Delete a subject from localStorage
+// Delete a subject from storage
 export const deleteSubject = (id: string) => {
-  const subjects = getSubjects();
-  const updatedSubjects = subjects.filter(s => s.id !== id);
-  localStorage.setItem('subjects', JSON.stringify(updatedSubjects));
+  deleteStoredRecord('subjects', id);
 };
 
 // Get filtered subjects by year and branch
@@ -76,6 +73,62 @@ export const subjectTeacherPairExists = (
   );
 };
 
+// Lecture periods given to a theory subject with neither an L-T-P structure nor credit hours
+export const DEFAULT_LECTURE_HOURS = 4;
+
+export interface SubjectHours {
+  lectureHours: number;
+  tutorialHours: number;
+  practicalHours?: number;
+}
+
+// A subject or subject-teacher pair, whatever its hours are declared with
+type SubjectHoursSource = {
+  isLab: boolean;
+  lectureHours?: number;
+  tutorialHours?: number;
+  practicalHours?: number;
+  creditHours?: number;
+};
+
+// Resolve the weekly L-T-P hours of a subject or subject-teacher pair
+// Lab subjects have no lectures; their practical hours decide the lab block length.
+// Subjects saved before L-T-P existed only have credit hours, which stand for
+// the lectures of a theory subject and the practicals of a lab.
+export const getSubjectHours = (subject: SubjectHoursSource): SubjectHours => {
+  if (subject.isLab) {
+    return {
+      lectureHours: 0,
+      tutorialHours: 0,
+      practicalHours: subject.practicalHours || subject.creditHours || undefined
+    };
+  }
+  
+  return {
+    lectureHours: subject.lectureHours ?? subject.creditHours ?? DEFAULT_LECTURE_HOURS,
+    tutorialHours: subject.tutorialHours ?? 0,
+    practicalHours: subject.practicalHours || undefined
+  };
+};
+
+// Periods of one lab session: the declared duration, or else the practical hours
+export const getLabDuration = (subject: SubjectHoursSource & { labDuration?: number }): number | undefined => {
+  return subject.labDuration || getSubjectHours(subject).practicalHours;
+};
+
+// Lab sessions a week: the practical hours split into sessions of the lab's duration
+export const getLabSessionsPerWeek = (subject: SubjectHoursSource & { labDuration?: number }): number => {
+  const duration = getLabDuration(subject);
+  const practicalHours = getSubjectHours(subject).practicalHours;
+  return duration && practicalHours ? Math.max(1, Math.round(practicalHours / duration)) : 1;
+};
+
+// Format L-T-P hours for display, e.g. "3-1-0"
+export const formatSubjectHours = (subject: SubjectHoursSource): string => {
+  const hours = getSubjectHours(subject);
+  return `${hours.lectureHours}-${hours.tutorialHours}-${hours.practicalHours ?? 0}`;
+};
+
 // Initialize default subjects if none exist
 export const initializeDefaultSubjects = () => {
   const existingSubjects = getSubjects();
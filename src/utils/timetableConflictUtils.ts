@@ -0,0 +1,126 @@
+import { Day, Timetable, TimetableEntry, TimeSlot } from './types';
+import { timeSlotsOverlap } from './bellScheduleUtils';
+import { getTeacherNames } from './facultyLabUtils';
+import { getClassLabel } from './timetableUtils';
+
+export type TimetableConflictKind = 'teacher-double-booked' | 'room-double-booked' | 'lab-theory-overlap';
+
+export const TIMETABLE_CONFLICT_KINDS: TimetableConflictKind[] = [
+  'teacher-double-booked',
+  'lab-theory-overlap',
+  'room-double-booked'
+];
+
+export const TIMETABLE_CONFLICT_LABELS: Record<TimetableConflictKind, string> = {
+  'teacher-double-booked': 'Teacher double-booked',
+  'lab-theory-overlap': 'Lab overlaps a theory class',
+  'room-double-booked': 'Room holds two classes'
+};
+
+// A timetable cell taking part in a conflict
+export interface ConflictCell {
+  timetableId: string;
+  classLabel: string;
+  day: Day;
+  timeSlot: TimeSlot;
+  subjectName?: string;
+}
+
+// Two cells that cannot both happen, across or within saved timetables
+export interface TimetableConflict {
+  kind: TimetableConflictKind;
+  message: string;
+  cells: [ConflictCell, ConflictCell];
+}
+
+// A class held in a timetable, with the timetable it belongs to
+interface PlacedEntry {
+  timetable: Timetable;
+  entry: TimetableEntry;
+}
+
+const toConflictCell = ({ timetable, entry }: PlacedEntry): ConflictCell => ({
+  timetableId: timetable.id,
+  classLabel: getClassLabel(timetable.formData),
+  day: entry.day,
+  timeSlot: entry.timeSlot,
+  subjectName: entry.subjectName
+});
+
+// Describe a cell in a message, e.g. "2nd Year CSE (I) Maths, 9:30-10:20"
+const describeCell = (cell: ConflictCell): string => {
+  return `${cell.classLabel} ${cell.subjectName}, ${cell.timeSlot}`;
+};
+
+// Check two classes held on the same day at overlapping times
+const findPairConflicts = (a: PlacedEntry, b: PlacedEntry): TimetableConflict[] => {
+  const conflicts: TimetableConflict[] = [];
+  const cells: [ConflictCell, ConflictCell] = [toConflictCell(a), toConflictCell(b)];
+  const day = a.entry.day;
+
+  const bTeachers = getTeacherNames(b.entry);
+  getTeacherNames(a.entry)
+    .filter(teacher => bTeachers.includes(teacher))
+    .forEach(teacher => {
+      if (!!a.entry.isLab !== !!b.entry.isLab) {
+        const [lab, theory] = a.entry.isLab ? cells : [cells[1], cells[0]];
+        conflicts.push({
+          kind: 'lab-theory-overlap',
+          message: `${teacher}'s lab ${describeCell(lab)} overlaps their class ${describeCell(theory)} on ${day}.`,
+          cells
+        });
+      } else {
+        conflicts.push({
+          kind: 'teacher-double-booked',
+          message: `${teacher} teaches ${describeCell(cells[0])} and ${describeCell(cells[1])} on ${day}.`,
+          cells
+        });
+      }
+    });
+
+  // Labs are held in the labs, so only theory classes occupy the class room
+  const roomA = a.timetable.formData.roomNumber?.trim();
+  const roomB = b.timetable.formData.roomNumber?.trim();
+  if (
+    roomA && roomA === roomB &&
+    a.timetable.id !== b.timetable.id &&
+    !a.entry.isLab && !b.entry.isLab
+  ) {
+    conflicts.push({
+      kind: 'room-double-booked',
+      message: `Room ${roomA} holds ${describeCell(cells[0])} and ${describeCell(cells[1])} on ${day}.`,
+      cells
+    });
+  }
+
+  return conflicts;
+};
+
+// Scan saved timetables for double-booked teachers, rooms holding two classes
+// and lab blocks overlapping a theory class of the same teacher.
+// Slots are compared by time, so lab blocks and different bell schedules are covered.
+export const findTimetableConflicts = (timetables: Timetable[]): TimetableConflict[] => {
+  const placedByDay = new Map<Day, PlacedEntry[]>();
+
+  timetables.forEach(timetable => {
+    timetable.entries
+      .filter(entry => entry.subjectName && !entry.isFree && !entry.isBreak && !entry.isLunch)
+      .forEach(entry => {
+        if (!placedByDay.has(entry.day)) placedByDay.set(entry.day, []);
+        placedByDay.get(entry.day)!.push({ timetable, entry });
+      });
+  });
+
+  const conflicts: TimetableConflict[] = [];
+
+  placedByDay.forEach(placed => {
+    placed.forEach((a, index) => {
+      placed
+        .slice(index + 1)
+        .filter(b => timeSlotsOverlap(a.entry.timeSlot, b.entry.timeSlot))
+        .forEach(b => conflicts.push(...findPairConflicts(a, b)));
+    });
+  });
+
+  return conflicts;
+};
@@ -0,0 +1,45 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TimetableDraft, TimetableFormData } from './types';
+import { migrateFormDataDays } from './dayUtils';
+
+const DRAFTS_STORAGE_KEY = 'timetableDrafts';
+
+// Get all drafts waiting to be generated together; drafts with short day names are migrated once
+export const getTimetableDrafts = (): TimetableDraft[] => {
+  const drafts = localStorage.getItem(DRAFTS_STORAGE_KEY);
+  if (!drafts) return [];
+  
+  const stored: TimetableDraft[] = JSON.parse(drafts);
+  const migrated = stored.map(draft => {
+    const formData = migrateFormDataDays(draft.formData);
+    return formData === draft.formData ? draft : { ...draft, formData };
+  });
+  if (migrated.some((draft, index) => draft !== stored[index])) {
+    localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(migrated));
+  }
+  return migrated;
+};
+
+// Save the form data of a class as a draft; a draft for the same class is replaced
+export const saveTimetableDraft = (formData: TimetableFormData): TimetableDraft => {
+  const drafts = getTimetableDrafts().filter(draft =>
+    draft.formData.year !== formData.year ||
+    draft.formData.branch !== formData.branch ||
+    draft.formData.semester !== formData.semester
+  );
+  
+  const draft: TimetableDraft = {
+    id: uuidv4(),
+    formData,
+    createdAt: new Date().toISOString()
+  };
+  
+  localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify([...drafts, draft]));
+  return draft;
+};
+
+// Delete drafts by ID
+export const deleteTimetableDrafts = (ids: string[]): void => {
+  const drafts = getTimetableDrafts().filter(draft => !ids.includes(draft.id));
+  localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+};
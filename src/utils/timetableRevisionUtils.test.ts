@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { flushStorageWrites, setUpTestStorage } from '@/test/storage';
+import { Timetable, TimetableEntry } from './types';
+import { deleteTimetable, getTimetableById, restoreTimetableRevision, saveTimetable } from './timetableUtils';
+import { diffTimetables, getTimetableRevisions } from './timetableRevisionUtils';
+
+const timetable = (entries: TimetableEntry[]): Timetable => ({
+  id: 'cse-1',
+  createdAt: '2026-07-01T09:00:00.000Z',
+  facultyDetails: {},
+  formData: {
+    year: '1st Year',
+    branch: 'CSE',
+    semester: 'I',
+    subjectTeacherPairs: [],
+    freeHours: [],
+    dayOptions: { fourContinuousDays: false, useCustomDays: false, selectedDays: [] }
+  },
+  entries
+} as Timetable);
+
+const maths: TimetableEntry = { day: 'Monday', timeSlot: '9:30-10:20', subjectName: 'Maths', teacherNames: ['Ann'] };
+const physics: TimetableEntry = { day: 'Monday', timeSlot: '10:20-11:10', subjectName: 'Physics', teacherNames: ['Bob'] };
+
+describe('diffTimetables', () => {
+  it('finds no change between equal timetables', () => {
+    expect(diffTimetables(timetable([maths, physics]), timetable([physics, maths]))).toEqual([]);
+  });
+
+  it('describes the cells that changed, were filled or were emptied', () => {
+    const before = timetable([maths, physics]);
+    const after = timetable([
+      { ...maths, subjectName: 'Chemistry', teacherNames: ['Cid'] },
+      { day: 'Tuesday', timeSlot: '9:30-10:20', isFree: true, freeType: 'Library' }
+    ]);
+
+    expect(diffTimetables(before, after)).toEqual([
+      { day: 'Monday', timeSlot: '9:30-10:20', before: 'Maths — Ann', after: 'Chemistry — Cid' },
+      { day: 'Monday', timeSlot: '10:20-11:10', before: 'Physics — Bob', after: '' },
+      { day: 'Tuesday', timeSlot: '9:30-10:20', before: '', after: expect.stringContaining('Library') }
+    ]);
+  });
+
+  it('compares cells with several entries regardless of their order', () => {
+    const lab = (batchNumber: string, teacher: string): TimetableEntry =>
+      ({ day: 'Friday', timeSlot: '2:00-2:50', subjectName: 'Physics Lab', teacherNames: [teacher], isLab: true, batchNumber });
+
+    expect(diffTimetables(timetable([lab('B1', 'Ann'), lab('B2', 'Bob')]), timetable([lab('B2', 'Bob'), lab('B1', 'Ann')])))
+      .toEqual([]);
+    expect(diffTimetables(timetable([lab('B1', 'Ann')]), timetable([lab('B1', 'Ann'), lab('B2', 'Bob')]))).toEqual([{
+      day: 'Friday',
+      timeSlot: '2:00-2:50',
+      before: 'Physics Lab (Lab) B1 — Ann',
+      after: 'Physics Lab (Lab) B1 — Ann\nPhysics Lab (Lab) B2 — Bob'
+    }]);
+  });
+
+  it('shows a cell that was locked or unlocked', () => {
+    expect(diffTimetables(timetable([maths]), timetable([{ ...maths, isLocked: true }]))).toEqual([
+      { day: 'Monday', timeSlot: '9:30-10:20', before: 'Maths — Ann', after: 'Maths — Ann (locked)' }
+    ]);
+  });
+});
+
+describe('timetable history', () => {
+  beforeEach(async () => {
+    await setUpTestStorage();
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const saveAt = async (time: string, saved: Timetable, author: string) => {
+    vi.setSystemTime(new Date(time));
+    await saveTimetable(saved, { author });
+    await flushStorageWrites();
+  };
+
+  it('keeps every save, newest first, unaffected by later changes', async () => {
+    const first = timetable([maths]);
+    await saveAt('2026-07-01T09:00:00.000Z', first, 'ann');
+    first.entries.push(physics);
+    await saveAt('2026-07-02T09:00:00.000Z', first, 'bob');
+
+    const revisions = await getTimetableRevisions('cse-1');
+
+    expect(revisions.map(revision => revision.author)).toEqual(['bob', 'ann']);
+    expect(revisions[1].timetable?.entries).toEqual([maths]);
+    expect(diffTimetables(revisions[1].timetable!, revisions[0].timetable!)).toHaveLength(1);
+  });
+
+  it('restores an older revision as a new one', async () => {
+    await saveAt('2026-07-01T09:00:00.000Z', timetable([maths]), 'ann');
+    await saveAt('2026-07-02T09:00:00.000Z', timetable([physics]), 'bob');
+    const [, older] = await getTimetableRevisions('cse-1');
+
+    vi.setSystemTime(new Date('2026-07-03T09:00:00.000Z'));
+    expect(await restoreTimetableRevision(older, 'cid')).toEqual({ success: true });
+    await flushStorageWrites();
+
+    expect(getTimetableById('cse-1')?.entries).toEqual([maths]);
+    const revisions = await getTimetableRevisions('cse-1');
+    expect(revisions.map(revision => revision.author)).toEqual(['cid', 'bob', 'ann']);
+    expect(revisions[0].note).toMatch(/^Restored the revision of /);
+  });
+
+  it('deletes the history with its timetable', async () => {
+    await saveAt('2026-07-01T09:00:00.000Z', timetable([maths]), 'ann');
+
+    expect(await deleteTimetable('cse-1')).toBe(true);
+    await flushStorageWrites();
+
+    expect(await getTimetableRevisions('cse-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Day, TimeSlot, Timetable, TimetableEntry, TimetableRevision } from './types';
+import { getRepositories, reportStorageWriteError } from './storageUtils';
+import { stampSchemaVersion, upgradeStoredRecord } from './storageSchema';
+import { compareDays } from './dayUtils';
+import { parseTimeSlot } from './bellScheduleUtils';
+import { formatTeacherNames } from './facultyLabUtils';
+import { getFreeHourLabel } from './freeHourUtils';
+
+// Who saved a timetable and why, kept with the revision
+export interface RevisionInfo {
+  author?: string;
+  note?: string;
+}
+
+// A revision read back, its timetable upgraded to the current schema.
+// A revision whose timetable cannot be upgraded has `problem` instead.
+export interface LoadedTimetableRevision extends Omit<TimetableRevision, 'timetable'> {
+  timetable?: Timetable;
+  problem?: string;
+}
+
+// A cell whose content differs between two versions of a timetable
+export interface TimetableCellChange {
+  day: Day;
+  timeSlot: TimeSlot;
+  before: string; // Empty when the cell was free
+  after: string;
+}
+
+// Keep a copy of a timetable as it is saved now. The copy is written right away,
+// so later changes to the timetable object do not reach it.
+export const recordTimetableRevision = (timetable: Timetable, info: RevisionInfo = {}): void => {
+  const revision: TimetableRevision = {
+    id: uuidv4(),
+    timetableId: timetable.id,
+    createdAt: new Date().toISOString(),
+    author: info.author || 'Unknown',
+    note: info.note?.trim() || undefined,
+    timetable: stampSchemaVersion(timetable)
+  };
+
+  getRepositories().revisions.add(revision).catch(reportStorageWriteError);
+};
+
+// Revisions of a timetable, newest first
+export const getTimetableRevisions = async (timetableId: string): Promise<LoadedTimetableRevision[]> => {
+  const revisions = await getRepositories().revisions.findByTimetable(timetableId);
+
+  return revisions
+    .map((revision): LoadedTimetableRevision => {
+      try {
+        return { ...revision, timetable: upgradeStoredRecord('timetables', revision.timetable).record };
+      } catch (error) {
+        return { ...revision, timetable: undefined, problem: error instanceof Error ? error.message : String(error) };
+      }
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Remove the history of a deleted timetable
+export const deleteTimetableRevisions = (timetableId: string): void => {
+  getRepositories().revisions.deleteByTimetable(timetableId).catch(reportStorageWriteError);
+};
+
+// What a cell shows, one line per entry in a fixed order so equal cells compare equal
+const describeEntry = (entry: TimetableEntry): string => {
+  let label: string;
+  if (entry.isBreak) {
+    label = 'Break';
+  } else if (entry.isLunch) {
+    label = 'Lunch';
+  } else if (entry.isFree) {
+    label = getFreeHourLabel(entry);
+  } else {
+    const kind = entry.isLab ? ' (Lab)' : entry.isTutorial ? ' (Tutorial)' : '';
+    const batch = entry.batchNumber ? ` ${entry.batchNumber}` : '';
+    const teachers = formatTeacherNames(entry);
+    label = `${entry.subjectName || ''}${kind}${batch}${teachers ? ` — ${teachers}` : ''}`;
+  }
+  return entry.isLocked ? `${label} (locked)` : label;
+};
+
+const describeCells = (timetable: Timetable): Map<string, string> => {
+  const cells = new Map<string, string[]>();
+  timetable.entries.forEach(entry => {
+    const key = `${entry.day}|${entry.timeSlot}`;
+    cells.set(key, [...(cells.get(key) || []), describeEntry(entry)]);
+  });
+  return new Map([...cells].map(([key, lines]) => [key, lines.sort().join('\n')]));
+};
+
+// Cells that differ between two versions of a timetable, in day and time order
+export const diffTimetables = (before: Timetable, after: Timetable): TimetableCellChange[] => {
+  const beforeCells = describeCells(before);
+  const afterCells = describeCells(after);
+  const keys = new Set([...beforeCells.keys(), ...afterCells.keys()]);
+
+  return [...keys]
+    .filter(key => (beforeCells.get(key) || '') !== (afterCells.get(key) || ''))
+    .map(key => {
+      const [day, timeSlot] = key.split('|') as [Day, TimeSlot];
+      return { day, timeSlot, before: beforeCells.get(key) || '', after: afterCells.get(key) || '' };
+    })
+    .sort((a, b) => compareDays(a.day, b.day) || parseTimeSlot(a.timeSlot).start - parseTimeSlot(b.timeSlot).start);
+};
@@ -0,0 +1,291 @@
+import {
+  BellSchedule,
+  SoftConstraintKind,
+  SoftConstraintSettings,
+  SubjectTeacherPair,
+  Timetable,
+  TimetableEntry,
+  TimeSlot
+} from './types';
+import { expandTimeSlot, getBellScheduleForDay, getBellScheduleForTimetable, getTeachingPeriods, parseTimeSlot } from './bellScheduleUtils';
+import { getSubjectHours } from './subjectsUtils';
+import { getTeacherNames } from './facultyLabUtils';
+
+const SOFT_CONSTRAINTS_STORAGE_KEY = 'softConstraints';
+
+export const SOFT_CONSTRAINT_KINDS: SoftConstraintKind[] = [
+  'subject-repeat',
+  'teacher-consecutive',
+  'heavy-afternoon',
+  'scattered-free'
+];
+
+export const SOFT_CONSTRAINT_LABELS: Record<SoftConstraintKind, string> = {
+  'subject-repeat': 'Subject once a day',
+  'teacher-consecutive': 'No long back-to-back runs for teachers',
+  'heavy-afternoon': 'Heavy subjects in the morning',
+  'scattered-free': 'Free hours kept together'
+};
+
+export const DEFAULT_SOFT_CONSTRAINT_SETTINGS: SoftConstraintSettings = {
+  weights: {
+    'subject-repeat': 3,
+    'teacher-consecutive': 2,
+    'heavy-afternoon': 1,
+    'scattered-free': 1
+  },
+  maxConsecutivePeriods: 4,
+  heavyLectureHours: 4
+};
+
+// Score of one preference
+export interface TimetableScoreItem {
+  kind: SoftConstraintKind;
+  label: string;
+  weight: number;
+  checked: number; // How many cases the preference was checked on
+  violations: number; // How many of them break it
+  score: number; // 0 to 100
+  details: string[]; // The cases that break it, e.g. "Maths twice on Monday"
+}
+
+export interface TimetableScore {
+  score: number; // Weighted average of the item scores, 0 to 100
+  items: TimetableScoreItem[];
+}
+
+// Figures used to compare candidate timetables
+export interface TimetableMetrics {
+  facultyIdleGaps: number; // Idle periods between a teacher's first and last period of a day
+  subjectSpread: number; // Percentage of theory periods that sit on a day of their own
+  labSessions: number;
+  labDays: number; // Days holding at least one lab
+  morningLabs: number; // Lab sessions that start before the afternoon
+  freeHours: number;
+  freeHoursAtEnd: number; // Free periods that close the day
+}
+
+// Get the soft constraint settings, falling back to the defaults
+export const getSoftConstraintSettings = (): SoftConstraintSettings => {
+  const stored = localStorage.getItem(SOFT_CONSTRAINTS_STORAGE_KEY);
+  if (!stored) return DEFAULT_SOFT_CONSTRAINT_SETTINGS;
+  
+  const settings = JSON.parse(stored);
+  return {
+    ...DEFAULT_SOFT_CONSTRAINT_SETTINGS,
+    ...settings,
+    weights: { ...DEFAULT_SOFT_CONSTRAINT_SETTINGS.weights, ...settings.weights }
+  };
+};
+
+// Save the soft constraint settings
+export const saveSoftConstraintSettings = (settings: SoftConstraintSettings): void => {
+  localStorage.setItem(SOFT_CONSTRAINTS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Entries with a subject, i.e. lectures, tutorials and labs
+const getTeachingEntries = (timetable: Timetable): TimetableEntry[] => {
+  return timetable.entries.filter(entry =>
+    entry.subjectName && !entry.isBreak && !entry.isLunch && !entry.isFree
+  );
+};
+
+// Periods every teacher teaches on each day, keyed "teacher|day"
+const getTeacherDayPeriods = (entries: TimetableEntry[], schedule: BellSchedule): Map<string, Set<TimeSlot>> => {
+  const teacherPeriods = new Map<string, Set<TimeSlot>>();
+  entries.forEach(entry => {
+    const teachers = getTeacherNames(entry);
+    expandTimeSlot(entry.timeSlot, schedule).forEach(period => {
+      teachers.forEach(teacher => {
+        const key = `${teacher}|${entry.day}`;
+        if (!teacherPeriods.has(key)) teacherPeriods.set(key, new Set<TimeSlot>());
+        teacherPeriods.get(key)!.add(period);
+      });
+    });
+  });
+  return teacherPeriods;
+};
+
+// Minutes at which the afternoon starts: the start of lunch, or the middle
+// period when the schedule has no lunch
+export const getAfternoonStart = (schedule: BellSchedule): number => {
+  const periods = getTeachingPeriods(schedule);
+  const lunch = schedule.slots.find(slot => slot.kind === 'lunch');
+  return lunch
+    ? parseTimeSlot(lunch.timeSlot).start
+    : parseTimeSlot(periods[Math.ceil(periods.length / 2)] || periods[periods.length - 1]).start;
+};
+
+// Check if a subject has enough weekly lectures to count as heavy
+export const isHeavySubject = (pair: SubjectTeacherPair, settings: SoftConstraintSettings): boolean => {
+  return !pair.isLab && (getSubjectHours(pair).lectureHours || 0) >= settings.heavyLectureHours;
+};
+
+// Score how well a timetable meets the scheduling preferences. Only the
+// timetable itself is looked at, so teachers' periods in other classes do not
+// count towards their back-to-back runs.
+export const scoreTimetable = (
+  timetable: Timetable,
+  settings: SoftConstraintSettings = getSoftConstraintSettings()
+): TimetableScore => {
+  const schedule = getBellScheduleForTimetable(timetable.formData);
+  const periods = getTeachingPeriods(schedule);
+  const days = [...new Set(timetable.entries.map(entry => entry.day))];
+  
+  const teachingEntries = getTeachingEntries(timetable);
+  
+  const makeItem = (
+    kind: SoftConstraintKind,
+    checked: number,
+    details: string[],
+    violations: number = details.length
+  ): TimetableScoreItem => ({
+    kind,
+    label: SOFT_CONSTRAINT_LABELS[kind],
+    weight: settings.weights[kind],
+    checked,
+    violations,
+    score: checked > 0 ? 100 * (1 - violations / checked) : 100,
+    details
+  });
+  
+  // Subject once a day: lectures and tutorials of a subject per day
+  const subjectDays = new Map<string, number>();
+  teachingEntries
+    .filter(entry => !entry.isLab)
+    .forEach(entry => {
+      const key = `${entry.subjectName}|${entry.day}`;
+      subjectDays.set(key, (subjectDays.get(key) || 0) + 1);
+    });
+  const repeatDetails = [...subjectDays.entries()]
+    .filter(([, count]) => count > 1)
+    .map(([key, count]) => {
+      const [subjectName, day] = key.split('|');
+      return `${subjectName} ${count} times on ${day}`;
+    });
+  
+  // Back-to-back runs per teacher and day; lunch ends a run, short breaks do not
+  const teacherPeriods = getTeacherDayPeriods(teachingEntries, schedule);
+  const consecutiveDetails: string[] = [];
+  teacherPeriods.forEach((taught, key) => {
+    let run = 0;
+    let longestRun = 0;
+    schedule.slots.forEach(slot => {
+      if (slot.kind === 'lunch') {
+        run = 0;
+      } else if (slot.kind === 'period') {
+        run = taught.has(slot.timeSlot) ? run + 1 : 0;
+        longestRun = Math.max(longestRun, run);
+      }
+    });
+    if (longestRun > settings.maxConsecutivePeriods) {
+      const [teacher, day] = key.split('|');
+      consecutiveDetails.push(`${teacher} teaches ${longestRun} periods in a row on ${day}`);
+    }
+  });
+  
+  // Heavy subjects: lectures that start after lunch begins
+  const afternoonStart = getAfternoonStart(schedule);
+  const heavySubjects = new Set(
+    timetable.formData.subjectTeacherPairs
+      .filter(pair => isHeavySubject(pair, settings))
+      .map(pair => pair.subjectName)
+  );
+  const heavyLectures = teachingEntries.filter(entry =>
+    !entry.isLab && !entry.isTutorial && heavySubjects.has(entry.subjectName!)
+  );
+  const heavyDetails = heavyLectures
+    .filter(entry => parseTimeSlot(entry.timeSlot).start >= afternoonStart)
+    .map(entry => `${entry.subjectName} on ${entry.day} at ${entry.timeSlot}`);
+  
+  // Free hours: every run of free periods after the first on a day is a scattered gap
+  let freeRuns = 0;
+  let scatteredRuns = 0;
+  const freeDetails: string[] = [];
+  days.forEach(day => {
+    const freePeriods = new Set(
+      timetable.entries
+        .filter(entry => entry.day === day && entry.isFree)
+        .flatMap(entry => expandTimeSlot(entry.timeSlot, schedule))
+    );
+    let runs = 0;
+    periods.forEach((period, index) => {
+      if (freePeriods.has(period) && (index === 0 || !freePeriods.has(periods[index - 1]))) {
+        runs++;
+      }
+    });
+    freeRuns += runs;
+    if (runs > 1) {
+      scatteredRuns += runs - 1;
+      freeDetails.push(`Free hours split into ${runs} gaps on ${day}`);
+    }
+  });
+  
+  const items = [
+    makeItem('subject-repeat', subjectDays.size, repeatDetails),
+    makeItem('teacher-consecutive', teacherPeriods.size, consecutiveDetails),
+    makeItem('heavy-afternoon', heavyLectures.length, heavyDetails),
+    makeItem('scattered-free', freeRuns, freeDetails, scatteredRuns)
+  ];
+  
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  const score = totalWeight > 0
+    ? items.reduce((sum, item) => sum + item.weight * item.score, 0) / totalWeight
+    : 100;
+  
+  return { score, items };
+};
+
+// Measure the figures admins compare candidate timetables by
+export const getTimetableMetrics = (timetable: Timetable): TimetableMetrics => {
+  const schedule = getBellScheduleForTimetable(timetable.formData);
+  const periods = getTeachingPeriods(schedule);
+  const days = [...new Set(timetable.entries.map(entry => entry.day))];
+  const teachingEntries = getTeachingEntries(timetable);
+  
+  let facultyIdleGaps = 0;
+  getTeacherDayPeriods(teachingEntries, schedule).forEach(taught => {
+    const taughtIndexes = periods
+      .map((period, index) => (taught.has(period) ? index : -1))
+      .filter(index => index >= 0);
+    const span = taughtIndexes[taughtIndexes.length - 1] - taughtIndexes[0] + 1;
+    facultyIdleGaps += span - taughtIndexes.length;
+  });
+  
+  // A subject's periods beyond the first on a day do not count as spread
+  const theoryEntries = teachingEntries.filter(entry => !entry.isLab);
+  const subjectDays = new Set(theoryEntries.map(entry => `${entry.subjectName}|${entry.day}`));
+  const subjectSpread = theoryEntries.length > 0 ? 100 * subjectDays.size / theoryEntries.length : 100;
+  
+  // Parallel batches in the same block are one lab session
+  const afternoonStart = getAfternoonStart(schedule);
+  const labSessions = [...new Set(teachingEntries
+    .filter(entry => entry.isLab)
+    .map(entry => `${entry.day}|${entry.timeSlot}`))];
+  
+  let freeHours = 0;
+  let freeHoursAtEnd = 0;
+  days.forEach(day => {
+    const freePeriods = new Set(
+      timetable.entries
+        .filter(entry => entry.day === day && entry.isFree)
+        .flatMap(entry => expandTimeSlot(entry.timeSlot, schedule))
+    );
+    freeHours += freePeriods.size;
+    // A shorter day ends at its own last period
+    const dayPeriods = getTeachingPeriods(getBellScheduleForDay(timetable.formData, day));
+    for (let index = dayPeriods.length - 1; index >= 0 && freePeriods.has(dayPeriods[index]); index--) {
+      freeHoursAtEnd++;
+    }
+  });
+  
+  return {
+    facultyIdleGaps,
+    subjectSpread,
+    labSessions: labSessions.length,
+    labDays: new Set(labSessions.map(session => session.split('|')[0])).size,
+    morningLabs: labSessions.filter(session => parseTimeSlot(session.split('|')[1]).start < afternoonStart).length,
+    freeHours,
+    freeHoursAtEnd
+  };
+};
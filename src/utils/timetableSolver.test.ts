@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { Day, TimeSlot } from './types';
+import { Placement, SchedulingTask, hitSearchLimit, slotKey, solveSchedule, teacherSlotKey } from './timetableSolver';
+
+const P1: TimeSlot = '9:30-10:20';
+const P2: TimeSlot = '10:20-11:10';
+const P3: TimeSlot = '11:20-12:10';
+const P4: TimeSlot = '12:10-1:00';
+
+const placement = (day: Day, period: TimeSlot, teacher: string): Placement => ({
+  day,
+  periods: [period],
+  teachers: [teacher],
+  entries: []
+});
+
+// A task taught by one teacher that may take any of the given periods on Monday
+const task = (label: string, teacher: string, periods: TimeSlot[]): SchedulingTask => ({
+  id: label,
+  label,
+  candidates: periods.map(period => placement('Monday', period, teacher))
+});
+
+describe('solveSchedule', () => {
+  it('places every task without sharing a period or a teacher', () => {
+    const tasks = [
+      task('Maths', 'Ann', [P1, P2, P3]),
+      task('Physics', 'Ann', [P1, P2, P3]),
+      task('Chemistry', 'Bob', [P1, P2])
+    ];
+
+    const result = solveSchedule(tasks, { random: () => 0.5 });
+
+    expect(result.success).toBe(true);
+    expect(result.conflicts).toEqual([]);
+    expect(result.unplaced).toEqual([]);
+    const cells = result.placements.map(chosen => slotKey(chosen!.day, chosen!.periods[0]));
+    expect(new Set(cells).size).toBe(tasks.length);
+  });
+
+  it('keeps tasks out of blocked periods and slots where the teacher is busy', () => {
+    const result = solveSchedule([task('Maths', 'Ann', [P1, P2, P3])], {
+      blockedSlots: new Set([slotKey('Monday', P1)]),
+      busyTeacherSlots: new Set([teacherSlotKey('Ann', 'Monday', P2)])
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.placements[0]?.periods).toEqual([P3]);
+  });
+
+  it('reports a teacher busy in every candidate slot without searching', () => {
+    const result = solveSchedule([task('Maths', 'Ann', [P1, P2])], {
+      busyTeacherSlots: new Set([teacherSlotKey('Ann', 'Monday', P1), teacherSlotKey('Ann', 'Monday', P2)])
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts).toContainEqual(expect.objectContaining({ kind: 'teacher-busy', teacherName: 'Ann' }));
+    expect(result.unplaced).toEqual([expect.objectContaining({ taskIndex: 0, kind: 'teacher-busy', teacherNames: ['Ann'] })]);
+  });
+
+  it('reports more required periods than the week has', () => {
+    const result = solveSchedule([
+      task('Maths', 'Ann', [P1, P2]),
+      task('Physics', 'Bob', [P1, P2]),
+      task('Chemistry', 'Cid', [P1, P2])
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts.map(conflict => conflict.kind)).toContain('capacity');
+    expect(result.placements.filter(Boolean)).toHaveLength(2);
+  });
+
+  // Three tasks share two periods while a fourth has two to itself: every static
+  // check passes, only trying each combination shows there is no timetable
+  const crowdedTasks = (): SchedulingTask[] => [
+    task('Maths', 'Ann', [P1, P2]),
+    task('Physics', 'Bob', [P1, P2]),
+    task('Chemistry', 'Cid', [P1, P2]),
+    task('Biology', 'Dee', [P3, P4])
+  ];
+
+  it('says no timetable exists when the search tried every combination', () => {
+    const result = solveSchedule(crowdedTasks());
+
+    expect(result.success).toBe(false);
+    expect(hitSearchLimit(result.conflicts)).toBe(false);
+    expect(result.conflicts.length).toBeGreaterThan(0);
+    result.conflicts.forEach(conflict => {
+      expect(conflict.kind).toBe('unsatisfiable');
+      expect(conflict.message).toContain('No complete timetable exists');
+    });
+    expect(result.placements.filter(Boolean)).toHaveLength(3);
+  });
+
+  it('only says no solution was found within the limit when the search stops early', () => {
+    const result = solveSchedule(crowdedTasks(), { maxNodes: 1 });
+
+    expect(result.success).toBe(false);
+    expect(hitSearchLimit(result.conflicts)).toBe(true);
+    expect(result.conflicts).toEqual([expect.objectContaining({ kind: 'search-limit' })]);
+    expect(result.conflicts[0].message).toContain('No solution found within the search limit');
+    expect(result.conflicts[0].message).not.toContain('No complete timetable exists');
+  });
+});
@@ -0,0 +1,535 @@
+import { Day, TimeSlot, TimetableEntry } from './types';
+
+/**
+ * Constraint-based timetable solver.
+ *
+ * The generator describes everything that has to be placed as a list of
+ * scheduling tasks (a lab session, one period of a theory subject, ...), each
+ * with the placements it may take. The solver assigns every task a placement
+ * by backtracking search so that no class period is used twice and no teacher
+ * is in two places at once, either in this timetable or in the busy slots
+ * passed in from other stored timetables.
+ */
+
+// Key identifying a period of the class grid; `grid` tells classes apart when
+// several timetables are solved together
+export const slotKey = (day: Day, period: TimeSlot, grid?: string): string =>
+  grid ? `${grid}|${day}|${period}` : `${day}|${period}`;
+
+// Key identifying a teacher being busy in a period
+export const teacherSlotKey = (teacherName: string, day: Day, period: TimeSlot): string =>
+  `${teacherName}|${day}|${period}`;
+
+/**
+ * One way of placing a task: the periods it occupies on a day, the teachers
+ * it ties up and the timetable entries written when it is chosen
+ */
+export interface Placement {
+  day: Day;
+  periods: TimeSlot[];
+  teachers: string[];
+  entries: TimetableEntry[];
+  // Class grid the placement belongs to when several timetables are solved together
+  grid?: string;
+  // Times the teachers are tied up, when they differ from the class periods
+  // (classes following different bell schedules are compared in common time segments)
+  teacherPeriods?: TimeSlot[];
+  // Cost of the placement against soft preferences; cheaper placements are tried first
+  preference?: number;
+}
+
+const cellKey = (placement: Placement, period: TimeSlot): string =>
+  slotKey(placement.day, period, placement.grid);
+
+const teacherTimes = (placement: Placement): TimeSlot[] =>
+  placement.teacherPeriods || placement.periods;
+
+/**
+ * Something the solver has to place. Tasks that share a `group` are
+ * interchangeable units of the same subject and must list identical
+ * candidates; the solver places them in increasing candidate order so it
+ * never explores the same timetable twice.
+ */
+export interface SchedulingTask {
+  id: string;
+  label: string;
+  group?: string;
+  candidates: Placement[];
+}
+
+export type SchedulingConflictKind =
+  | 'capacity'
+  | 'teacher-busy'
+  | 'teacher-overload'
+  | 'no-candidates'
+  | 'unsatisfiable'
+  | 'search-limit';
+
+/**
+ * A constraint that prevents a complete timetable from being built
+ */
+export interface SchedulingConflict {
+  kind: SchedulingConflictKind;
+  taskLabel?: string;
+  teacherName?: string;
+  message: string;
+}
+
+export interface SolverOptions {
+  // Teacher slots taken elsewhere or marked unavailable, keyed with teacherSlotKey
+  busyTeacherSlots?: Set<string>;
+  // Class periods that are already filled (locked cells), keyed with slotKey
+  blockedSlots?: Set<string>;
+  // Source of randomness used to vary the order candidates are tried in
+  random?: () => number;
+  // Upper bound on search nodes before giving up
+  maxNodes?: number;
+}
+
+export type UnplacedReasonKind =
+  | 'no-candidates'
+  | 'teacher-busy'
+  | 'slots-taken'
+  | 'teacher-clash';
+
+/**
+ * Why a task was left out of the best partial timetable
+ */
+export interface UnplacedTask {
+  taskIndex: number;
+  kind: UnplacedReasonKind;
+  // Teachers responsible for the teacher-busy and teacher-clash reasons
+  teacherNames?: string[];
+  message: string;
+}
+
+export interface SolverResult {
+  success: boolean;
+  // Chosen placement per task (same order as the tasks); undefined when unplaced
+  placements: (Placement | undefined)[];
+  conflicts: SchedulingConflict[];
+  // Reason for every task without a placement
+  unplaced: UnplacedTask[];
+}
+
+const DEFAULT_MAX_NODES = 50000;
+
+// Whether the search gave up at its node limit. Only then is a complete timetable
+// still possible; every other conflict is found by checking all options.
+export const hitSearchLimit = (conflicts: SchedulingConflict[]): boolean => {
+  return conflicts.some(conflict => conflict.kind === 'search-limit');
+};
+
+// Fisher-Yates shuffle driven by the supplied random source
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const minPeriods = (task: SchedulingTask): number => {
+  return task.candidates.length > 0
+    ? Math.min(...task.candidates.map(candidate => candidate.periods.length))
+    : 0;
+};
+
+/**
+ * Check necessary conditions before searching. Every conflict returned here
+ * on its own proves that no complete timetable exists.
+ */
+const findStaticConflicts = (
+  tasks: SchedulingTask[],
+  busyTeacherSlots: Set<string>,
+  blockedSlots: Set<string>
+): SchedulingConflict[] => {
+  const conflicts: SchedulingConflict[] = [];
+
+  // Tasks whose every candidate is blocked by other timetables
+  tasks.forEach(task => {
+    if (task.candidates.length === 0) {
+      conflicts.push({
+        kind: 'no-candidates',
+        taskLabel: task.label,
+        message: `${task.label} has no slot it could be placed in.`
+      });
+      return;
+    }
+
+    const open = task.candidates.filter(candidate =>
+      candidate.teachers.every(teacher =>
+        teacherTimes(candidate).every(period => !busyTeacherSlots.has(teacherSlotKey(teacher, candidate.day, period)))
+      )
+    );
+
+    if (open.length === 0) {
+      const teachers = [...new Set(task.candidates.flatMap(candidate => candidate.teachers))];
+      conflicts.push({
+        kind: 'teacher-busy',
+        taskLabel: task.label,
+        teacherName: teachers.join(', '),
+        message: `${task.label}: ${teachers.join(' & ')} ${teachers.length > 1 ? 'are' : 'is'} unavailable or busy in other timetables in all ${task.candidates.length} possible slots.`
+      });
+    }
+  });
+
+  // Grid capacity: every task needs at least its shortest placement
+  const gridCells = new Map<string, Set<string>>();
+  const requiredPeriods = new Map<string, number>();
+  tasks.forEach(task => {
+    if (task.candidates.length === 0) return;
+    const grid = task.candidates[0].grid || '';
+    if (!gridCells.has(grid)) gridCells.set(grid, new Set<string>());
+    task.candidates.forEach(candidate =>
+      candidate.periods.forEach(period => {
+        const cell = cellKey(candidate, period);
+        if (!blockedSlots.has(cell)) gridCells.get(grid)!.add(cell);
+      })
+    );
+    requiredPeriods.set(grid, (requiredPeriods.get(grid) || 0) + minPeriods(task));
+  });
+
+  gridCells.forEach((cells, grid) => {
+    const required = requiredPeriods.get(grid) || 0;
+    if (required > cells.size) {
+      conflicts.push({
+        kind: 'capacity',
+        message: `${grid ? `${grid}: ` : ''}${required} periods are required but only ${cells.size} periods exist in the week.`
+      });
+    }
+  });
+
+  // Teacher capacity: a teacher cannot teach more periods than they have free
+  const teacherDemand: Record<string, number> = {};
+  const teacherFreeTimes: Record<string, Set<string>> = {};
+  tasks.forEach(task => {
+    const teachers = new Set(task.candidates.flatMap(candidate => candidate.teachers));
+    const demand = task.candidates.length > 0
+      ? Math.min(...task.candidates.map(candidate => teacherTimes(candidate).length))
+      : 0;
+    teachers.forEach(teacher => {
+      teacherDemand[teacher] = (teacherDemand[teacher] || 0) + demand;
+      if (!teacherFreeTimes[teacher]) teacherFreeTimes[teacher] = new Set<string>();
+      task.candidates
+        .filter(candidate => candidate.teachers.includes(teacher))
+        .forEach(candidate => teacherTimes(candidate).forEach(period => {
+          const key = teacherSlotKey(teacher, candidate.day, period);
+          if (!busyTeacherSlots.has(key)) teacherFreeTimes[teacher].add(key);
+        }));
+    });
+  });
+
+  Object.entries(teacherDemand).forEach(([teacher, demand]) => {
+    const freeCells = teacherFreeTimes[teacher].size;
+
+    if (demand > freeCells) {
+      conflicts.push({
+        kind: 'teacher-overload',
+        teacherName: teacher,
+        message: `${teacher} must teach ${demand} periods but is free for only ${freeCells}.`
+      });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Assign a placement to every task, or explain why that is impossible
+ */
+export const solveSchedule = (
+  tasks: SchedulingTask[],
+  options: SolverOptions = {}
+): SolverResult => {
+  const busyTeacherSlots = options.busyTeacherSlots || new Set<string>();
+  const random = options.random || Math.random;
+  const maxNodes = options.maxNodes || DEFAULT_MAX_NODES;
+
+  const blockedSlots = options.blockedSlots || new Set<string>();
+
+  const staticConflicts = findStaticConflicts(tasks, busyTeacherSlots, blockedSlots);
+
+  // Previous unit of the same group for each task, used for symmetry breaking
+  const previousInGroup: number[] = tasks.map((task, index) => {
+    if (!task.group) return -1;
+    for (let i = index - 1; i >= 0; i--) {
+      if (tasks[i].group === task.group) return i;
+    }
+    return -1;
+  });
+
+  const assigned: number[] = tasks.map(() => -1);
+  const usedCells = new Set<string>(blockedSlots);
+  const usedTeacherSlots = new Set<string>();
+  const failures: number[] = tasks.map(() => 0);
+  let best: number[] = [...assigned];
+  let bestCount = 0;
+  let nodes = 0;
+
+  const isFeasible = (candidate: Placement): boolean => {
+    if (new Set(candidate.teachers).size !== candidate.teachers.length) return false;
+
+    if (candidate.periods.some(period => usedCells.has(cellKey(candidate, period)))) return false;
+    return teacherTimes(candidate).every(period =>
+      candidate.teachers.every(teacher => {
+        const key = teacherSlotKey(teacher, candidate.day, period);
+        return !busyTeacherSlots.has(key) && !usedTeacherSlots.has(key);
+      })
+    );
+  };
+
+  const apply = (candidate: Placement, add: boolean) => {
+    candidate.periods.forEach(period => {
+      const cell = cellKey(candidate, period);
+      if (add) usedCells.add(cell); else usedCells.delete(cell);
+    });
+    teacherTimes(candidate).forEach(period => {
+      candidate.teachers.forEach(teacher => {
+        const key = teacherSlotKey(teacher, candidate.day, period);
+        if (add) usedTeacherSlots.add(key); else usedTeacherSlots.delete(key);
+      });
+    });
+  };
+
+  // Feasible candidate indexes for a task given the current partial assignment
+  const feasibleCandidates = (taskIndex: number): number[] => {
+    const previous = previousInGroup[taskIndex];
+    const lowerBound = previous >= 0 ? assigned[previous] + 1 : 0;
+    const result: number[] = [];
+    const candidates = tasks[taskIndex].candidates;
+    for (let i = lowerBound; i < candidates.length; i++) {
+      if (isFeasible(candidates[i])) result.push(i);
+    }
+    return result;
+  };
+
+  // Units of the same group placed after each task; symmetry breaking keeps
+  // them on the same or later days
+  const unitsAfter: number[] = tasks.map((task, index) =>
+    task.group ? tasks.filter((other, otherIndex) => otherIndex > index && other.group === task.group).length : 0
+  );
+
+  // Days of a task's candidates that come after each day
+  const laterDays: Map<Day, number>[] = tasks.map(task => {
+    const days = [...new Set(task.candidates.map(candidate => candidate.day))];
+    return new Map(days.map((day, index) => [day, days.length - index - 1]));
+  });
+
+  // How many units of the same group already sit on a day, plus how many later
+  // units would be forced to share a day (spread subjects out)
+  const dayLoad = (taskIndex: number, day: Day): number => {
+    const group = tasks[taskIndex].group;
+    if (!group) return 0;
+    const placedOnDay = tasks.reduce((count, task, index) =>
+      task.group === group && assigned[index] >= 0 && task.candidates[assigned[index]].day === day
+        ? count + 1
+        : count, 0);
+    return placedOnDay + Math.max(0, unitsAfter[taskIndex] - (laterDays[taskIndex].get(day) || 0));
+  };
+
+  // Try the most spread out candidates first, then the ones preferred by the soft constraints
+  const orderCandidates = (taskIndex: number, options: number[]): number[] =>
+    shuffle(options, random)
+      .map(index => {
+        const candidate = tasks[taskIndex].candidates[index];
+        return { index, load: dayLoad(taskIndex, candidate.day), preference: candidate.preference || 0 };
+      })
+      .sort((a, b) => a.load - b.load || a.preference - b.preference)
+      .map(({ index }) => index);
+
+  const search = (placedCount: number): boolean | 'limit' => {
+    if (placedCount > bestCount) {
+      bestCount = placedCount;
+      best = [...assigned];
+    }
+    if (placedCount === tasks.length) return true;
+    if (++nodes > maxNodes) return 'limit';
+
+    // Most constrained eligible task first
+    let chosen = -1;
+    let chosenOptions: number[] = [];
+    for (let i = 0; i < tasks.length; i++) {
+      if (assigned[i] >= 0) continue;
+      const previous = previousInGroup[i];
+      if (previous >= 0 && assigned[previous] < 0) continue;
+
+      const options = feasibleCandidates(i);
+      if (options.length === 0) {
+        failures[i]++;
+        return false;
+      }
+      if (chosen < 0 || options.length < chosenOptions.length) {
+        chosen = i;
+        chosenOptions = options;
+      }
+    }
+
+    for (const index of orderCandidates(chosen, chosenOptions)) {
+      const candidate = tasks[chosen].candidates[index];
+      assigned[chosen] = index;
+      apply(candidate, true);
+
+      const result = search(placedCount + 1);
+      if (result) return result;
+
+      apply(candidate, false);
+      assigned[chosen] = -1;
+    }
+
+    return false;
+  };
+
+  // Place what still fits, one task at a time, on top of a partial assignment.
+  // Used when no complete timetable exists so the result is as full as possible.
+  const fillGreedily = (start: number[]) => {
+    assigned.forEach((candidateIndex, taskIndex) => {
+      if (candidateIndex >= 0) apply(tasks[taskIndex].candidates[candidateIndex], false);
+    });
+    start.forEach((candidateIndex, taskIndex) => {
+      assigned[taskIndex] = candidateIndex;
+      if (candidateIndex >= 0) apply(tasks[taskIndex].candidates[candidateIndex], true);
+    });
+
+    for (;;) {
+      let chosen = -1;
+      let chosenOptions: number[] = [];
+      tasks.forEach((task, taskIndex) => {
+        if (assigned[taskIndex] >= 0) return;
+        const options = task.candidates
+          .map((_, index) => index)
+          .filter(index => isFeasible(task.candidates[index]));
+        if (options.length > 0 && (chosen < 0 || options.length < chosenOptions.length)) {
+          chosen = taskIndex;
+          chosenOptions = options;
+        }
+      });
+      if (chosen < 0) return;
+
+      const [index] = orderCandidates(chosen, chosenOptions);
+      assigned[chosen] = index;
+      apply(tasks[chosen].candidates[index], true);
+    }
+  };
+
+  // Explain every task left without a placement
+  const explainUnplaced = (): UnplacedTask[] => {
+    const unplaced: UnplacedTask[] = [];
+
+    tasks.forEach((task, taskIndex) => {
+      if (assigned[taskIndex] >= 0) return;
+
+      if (task.candidates.length === 0) {
+        unplaced.push({
+          taskIndex,
+          kind: 'no-candidates',
+          message: 'No slot or lab block of the required length exists in the bell schedule.'
+        });
+        return;
+      }
+
+      const busyElsewhere = new Set<string>();
+      const clashing = new Set<string>();
+      let openSlots = 0;
+      let takenSlots = 0;
+
+      task.candidates.forEach(candidate => {
+        const externallyBusy = candidate.teachers.filter(teacher =>
+          teacherTimes(candidate).some(period => busyTeacherSlots.has(teacherSlotKey(teacher, candidate.day, period)))
+        );
+        if (externallyBusy.length > 0) {
+          externallyBusy.forEach(teacher => busyElsewhere.add(teacher));
+          return;
+        }
+
+        openSlots++;
+        if (candidate.periods.some(period => usedCells.has(cellKey(candidate, period)))) {
+          takenSlots++;
+          return;
+        }
+
+        candidate.teachers
+          .filter(teacher => teacherTimes(candidate).some(period =>
+            usedTeacherSlots.has(teacherSlotKey(teacher, candidate.day, period))
+          ))
+          .forEach(teacher => clashing.add(teacher));
+      });
+
+      if (openSlots === 0) {
+        const teachers = [...busyElsewhere];
+        unplaced.push({
+          taskIndex,
+          kind: 'teacher-busy',
+          teacherNames: teachers,
+          message: `${teachers.join(' & ')} ${teachers.length > 1 ? 'are' : 'is'} unavailable or busy in other timetables in every possible slot.`
+        });
+      } else if (takenSlots === openSlots) {
+        unplaced.push({
+          taskIndex,
+          kind: 'slots-taken',
+          message: `All ${openSlots} slots where the teachers are free are already used by other subjects.`
+        });
+      } else {
+        const teachers = [...clashing];
+        unplaced.push({
+          taskIndex,
+          kind: 'teacher-clash',
+          teacherNames: teachers,
+          message: `The remaining free slots clash with other classes of ${teachers.join(' & ')} in this timetable.`
+        });
+      }
+    });
+
+    return unplaced;
+  };
+
+  const outcome = staticConflicts.length > 0 ? false : search(0);
+  if (outcome !== true) {
+    fillGreedily(staticConflicts.length > 0 ? tasks.map(() => -1) : best);
+  }
+
+  const placements = assigned.map((candidateIndex, taskIndex) =>
+    candidateIndex >= 0 ? tasks[taskIndex].candidates[candidateIndex] : undefined
+  );
+
+  if (outcome === true) {
+    return { success: true, placements, conflicts: [], unplaced: [] };
+  }
+
+  const unplaced = explainUnplaced();
+
+  if (staticConflicts.length > 0) {
+    return { success: false, placements, conflicts: staticConflicts, unplaced };
+  }
+
+  if (outcome === 'limit') {
+    return {
+      success: false,
+      placements,
+      conflicts: [{
+        kind: 'search-limit',
+        message: `No solution found within the search limit of ${maxNodes} partial schedules. A complete timetable may still exist; try another seed or fewer constraints.`
+      }],
+      unplaced
+    };
+  }
+
+  // Every combination was tried, so no complete timetable exists. Which subjects to
+  // blame is a guess: those that most often ran out of slots during the search.
+  const maxFailures = Math.max(...failures);
+  const labels = [...new Set(tasks
+    .filter((_, index) => failures[index] === maxFailures && maxFailures > 0)
+    .map(task => task.label))];
+
+  return {
+    success: false,
+    placements,
+    conflicts: labels.map(label => ({
+      kind: 'unsatisfiable' as const,
+      taskLabel: label,
+      message: `No complete timetable exists; ${label} ran out of free slots most often while trying every combination.`
+    })),
+    unplaced
+  };
+};
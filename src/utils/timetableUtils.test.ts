@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { setUpTestStorage } from '@/test/storage';
+import { SubjectTeacherPair, Timetable, TimetableFormData } from './types';
+import { generateCandidateTimetables, generateTimetableWithReport } from './timetableUtils';
+
+const formData = (seed?: number): TimetableFormData => ({
+  year: '2nd Year',
+  branch: 'CSE',
+  semester: 'I',
+  department: 'Computer Science',
+  startDate: '2026-07-01',
+  endDate: '2026-11-30',
+  courseName: 'B.Tech',
+  roomNumber: '101',
+  academicYear: '2026-27',
+  classInchargeName: 'Ann',
+  mobileNumber: '',
+  date: '2026-07-01',
+  fourthYearSixDays: false,
+  subjectTeacherPairs: [
+    { id: 'maths', subjectName: 'Maths', teacherName: 'Ann', teacherNames: ['Ann'], isLab: false },
+    { id: 'physics', subjectName: 'Physics', teacherName: 'Bob', teacherNames: ['Bob'], isLab: false },
+    { id: 'chemistry', subjectName: 'Chemistry', teacherName: 'Cid', teacherNames: ['Cid'], isLab: false },
+    { id: 'lab-1', subjectName: 'Physics Lab', teacherName: 'Bob', teacherNames: ['Bob'], isLab: true, batchNumber: 'B1' },
+    { id: 'lab-2', subjectName: 'Chemistry Lab', teacherName: 'Cid', teacherNames: ['Cid'], isLab: true, batchNumber: 'B2' }
+  ],
+  freeHours: [{ type: 'Library' }],
+  dayOptions: { fourContinuousDays: false, useCustomDays: false, selectedDays: [] },
+  enableBatchRotation: true,
+  seed
+});
+
+// Entries without their ids, which are drawn fresh on every generation
+const cells = (timetable: Timetable) => timetable.entries.map(entry => ({ ...entry, id: undefined }));
+
+describe('seeded generation', () => {
+  beforeEach(async () => {
+    await setUpTestStorage();
+  });
+
+  it('builds the same timetable from the same seed', () => {
+    const first = generateTimetableWithReport(formData(1234));
+    const second = generateTimetableWithReport(formData(1234));
+
+    expect(first.report.complete).toBe(true);
+    expect(cells(second.timetable)).toEqual(cells(first.timetable));
+    expect(second.timetable.seed).toBe(1234);
+  });
+
+  it('keeps the drawn seed so a timetable without one can be reproduced', () => {
+    const drawn = generateTimetableWithReport(formData());
+    const again = generateTimetableWithReport(formData(drawn.timetable.seed));
+
+    expect(drawn.timetable.seed).toEqual(expect.any(Number));
+    expect(cells(again.timetable)).toEqual(cells(drawn.timetable));
+  });
+
+  it('reproduces each candidate from the seed plus its index', () => {
+    const candidates = generateCandidateTimetables(formData(99), 3);
+
+    expect(candidates.map(candidate => candidate.timetable.seed)).toEqual([99, 100, 101]);
+    expect(cells(generateTimetableWithReport(formData(101)).timetable)).toEqual(cells(candidates[2].timetable));
+  });
+});
+
+describe('lab batch rotation', () => {
+  beforeEach(async () => {
+    await setUpTestStorage();
+  });
+
+  // The lab entries of a timetable grouped by the block they take
+  const labSessions = (timetable: Timetable) => {
+    const sessions = new Map<string, { batch: string; lab: string }[]>();
+    timetable.entries.filter(entry => entry.isLab).forEach(entry => {
+      const key = `${entry.day} ${entry.timeSlot}`;
+      sessions.set(key, [...(sessions.get(key) || []), { batch: entry.batchNumber!, lab: entry.subjectName! }]);
+    });
+    return [...sessions.values()];
+  };
+
+  const generateWithLabs = (labs: SubjectTeacherPair[]) => {
+    const data = formData(7);
+    return generateTimetableWithReport({
+      ...data,
+      subjectTeacherPairs: [...data.subjectTeacherPairs.filter(pair => !pair.isLab), ...labs]
+    });
+  };
+
+  it('gives every batch every lab without two batches sharing a lab', () => {
+    const { timetable, report } = generateTimetableWithReport(formData(7));
+    const sessions = labSessions(timetable);
+
+    expect(report.complete).toBe(true);
+    expect(sessions).toHaveLength(2);
+    sessions.forEach(session => {
+      expect(new Set(session.map(lab => lab.lab)).size).toBe(session.length);
+      expect(new Set(session.map(lab => lab.batch)).size).toBe(session.length);
+    });
+    expect(sessions.flat().map(lab => `${lab.batch} ${lab.lab}`).sort()).toEqual([
+      'B1 Chemistry Lab',
+      'B1 Physics Lab',
+      'B2 Chemistry Lab',
+      'B2 Physics Lab'
+    ]);
+  });
+
+  it('reports a lab taken over from another batch as a pair of its own', () => {
+    const { report } = generateTimetableWithReport(formData(7));
+    const labItems = report.items.filter(item => item.isLab);
+
+    expect(labItems.map(item => [item.pairId, item.batchNumber])).toEqual([
+      ['lab-1', 'B1'],
+      ['lab-2', 'B2'],
+      ['lab-2-B1', 'B1'],
+      ['lab-1-B2', 'B2']
+    ]);
+    labItems.forEach(item => {
+      expect(item.placedPeriods).toBeGreaterThan(0);
+      expect(item.placedPeriods).toBe(item.requestedPeriods);
+    });
+  });
+
+  it('rests one batch a session when there are more batches than labs', () => {
+    const { timetable, report } = generateWithLabs([
+      { id: 'lab-1', subjectName: 'Physics Lab', teacherName: 'Bob', teacherNames: ['Bob'], isLab: true, batchNumber: 'B1' },
+      { id: 'lab-2', subjectName: 'Chemistry Lab', teacherName: 'Cid', teacherNames: ['Cid'], isLab: true, batchNumber: 'B2' },
+      { id: 'lab-3', subjectName: 'Physics Lab', teacherName: 'Dee', teacherNames: ['Dee'], isLab: true, batchNumber: 'B3' }
+    ]);
+    const sessions = labSessions(timetable);
+
+    expect(report.complete).toBe(true);
+    expect(sessions).toHaveLength(3);
+    sessions.forEach(session => {
+      expect(session).toHaveLength(2);
+      expect(new Set(session.map(lab => lab.lab)).size).toBe(2);
+    });
+    ['B1', 'B2', 'B3'].forEach(batch => {
+      expect(sessions.flat().filter(lab => lab.batch === batch).map(lab => lab.lab).sort()).toEqual(['Chemistry Lab', 'Physics Lab']);
+    });
+  });
+});
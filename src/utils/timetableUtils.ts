@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { 
+  BellSchedule,
   Timetable, 
   TimetableEntry, 
   TimetableFormData, 
@@ -11,15 +12,43 @@ import {
   BranchType,
   SemesterType
 } from './types';
+import {
+  Placement,
+  SchedulingConflict,
+  SchedulingTask,
+  slotKey,
+  solveSchedule,
+  teacherSlotKey,
+  UnplacedTask
+} from './timetableSolver';
+import { createSeededRandom, generateSeed } from './seededRandom';
+import { allocateFreeHours } from './freeHourUtils';
+import { getTimetableDays } from './dayUtils';
+import { deleteStoredRecord, getRepositories, getStoredRecords, putStoredRecords } from './storageUtils';
+import { LoadedTimetableRevision, RevisionInfo, deleteTimetableRevisions, recordTimetableRevision } from './timetableRevisionUtils';
+import { getLabDuration, getLabSessionsPerWeek, getSubjectHours } from './subjectsUtils';
+import { getFaculty } from './facultyUtils';
+import { getTeacherNames, isTaughtBy, isTeacherFreeIn } from './facultyLabUtils';
+import { getAfternoonStart, getSoftConstraintSettings, isHeavySubject, scoreTimetable } from './timetableScoreUtils';
+import {
+  getBellScheduleForDay,
+  getBellScheduleForTimetable,
+  getLabBlocks,
+  getLabRuns,
+  getTeachingPeriods,
+  parseTimeSlot,
+  splitIntoTimeSegments,
+  timeSlotsOverlap
+} from './bellScheduleUtils';
 
-// Get all timetables from localStorage
+// Get all timetables, as loaded from storage when the app started
 export const getTimetables = (): Timetable[] => {
-  const timetables = localStorage.getItem('timetables');
-  return timetables ? JSON.parse(timetables) : [];
+  return getStoredRecords('timetables');
 };
 
-// Save timetable to localStorage
-export const saveTimetable = (timetable: Timetable): { success: boolean; message?: string } => {
+// Save timetable to storage, keeping a revision of it for the history.
+// Resolves once the write finished; a failed write leaves the stored timetables as they were.
+export const saveTimetable = async (timetable: Timetable, revision: RevisionInfo = {}): Promise<{ success: boolean; message?: string }> => {
   if (!timetable.id) {
     timetable.id = uuidv4();
   }
@@ -28,29 +57,46 @@ export const saveTimetable = (timetable: Timetable): { success: boolean; message
     timetable.createdAt = new Date().toISOString();
   }
 
-  try {
-    const timetables = getTimetables();
-    
-    // Check if this is a new timetable or an update
-    const existingIndex = timetables.findIndex(t => t.id === timetable.id);
-    
-    if (existingIndex >= 0) {
-      // Update existing timetable
-      timetables[existingIndex] = timetable;
-    } else {
-      // Add new timetable
-      timetables.push(timetable);
+  // Adds a new timetable or replaces the stored one with the same id
+  if (!await putStoredRecords('timetables', [timetable])) {
+    return { success: false, message: "The timetable could not be written to storage" };
+  }
+  recordTimetableRevision(timetable, revision);
+  return { success: true };
+};
+
+// Save several timetables with a single write, so either all of them are stored or none
+export const saveTimetables = async (newTimetables: Timetable[], revision: RevisionInfo = {}): Promise<{ success: boolean; message?: string }> => {
+  newTimetables.forEach(timetable => {
+    if (!timetable.id) {
+      timetable.id = uuidv4();
     }
-    
-    localStorage.setItem('timetables', JSON.stringify(timetables));
-    return { success: true };
-  } catch (error) {
-    console.error("Error saving timetable:", error);
-    return { 
-      success: false, 
-      message: error instanceof Error ? error.message : "Unknown error saving timetable" 
-    };
+    if (!timetable.createdAt) {
+      timetable.createdAt = new Date().toISOString();
+    }
+  });
+  
+  if (!await putStoredRecords('timetables', newTimetables)) {
+    return { success: false, message: "The timetables could not be written to storage; none were saved" };
+  }
+  newTimetables.forEach(timetable => recordTimetableRevision(timetable, revision));
+  return { success: true };
+};
+
+// Make an older revision the current version of its timetable. The restore is saved
+// as a new revision, so it can be undone like any other change.
+export const restoreTimetableRevision = async (
+  revision: LoadedTimetableRevision,
+  author?: string
+): Promise<{ success: boolean; message?: string }> => {
+  if (!revision.timetable) {
+    return { success: false, message: revision.problem || "The revision cannot be read" };
   }
+
+  return saveTimetable(revision.timetable, {
+    author,
+    note: `Restored the revision of ${new Date(revision.createdAt).toLocaleString()}`
+  });
 };
 
 // Get a specific timetable by ID
@@ -59,77 +105,168 @@ export const getTimetableById = (id: string): Timetable | undefined => {
   return timetables.find(timetable => timetable.id === id);
 };
 
-// Delete a timetable by ID
-export const deleteTimetable = (id: string): boolean => {
-  try {
-    const timetables = getTimetables();
-    const updatedTimetables = timetables.filter(timetable => timetable.id !== id);
-    localStorage.setItem('timetables', JSON.stringify(updatedTimetables));
-    return true;
-  } catch (error) {
-    console.error("Error deleting timetable:", error);
+// Delete a timetable by ID, with its history. Resolves to whether it was deleted.
+export const deleteTimetable = async (id: string): Promise<boolean> => {
+  if (!await deleteStoredRecord('timetables', id)) {
     return false;
   }
+  deleteTimetableRevisions(id);
+  return true;
 };
 
-// Add the missing filterTimetables function
+// Get the timetables of a class, through the class index
 export const filterTimetables = (
   year: YearType,
   branch: BranchType,
   semester: SemesterType
-): Timetable[] => {
-  const timetables = getTimetables();
-  return timetables.filter(timetable => 
-    timetable.formData.year === year && 
-    timetable.formData.branch === branch && 
-    timetable.formData.semester === semester
-  );
+): Promise<Timetable[]> => {
+  return getRepositories().timetables.findByClass(year, branch, semester);
+};
+
+/**
+ * Error thrown when no complete timetable satisfying the hard constraints is found.
+ * `conflicts` lists the constraints that make the timetable impossible, or that
+ * the search stopped at its limit.
+ */
+export class TimetableGenerationError extends Error {
+  conflicts: SchedulingConflict[];
+  report?: GenerationReport;
+
+  constructor(conflicts: SchedulingConflict[], report?: GenerationReport) {
+    super(conflicts.map(conflict => conflict.message).join(' '));
+    this.name = 'TimetableGenerationError';
+    this.conflicts = conflicts;
+    this.report = report;
+  }
+}
+
+export interface GenerateTimetableOptions {
+  // Timetable being regenerated, ignored when checking faculty clashes
+  excludeTimetableId?: string;
+  // Cells kept exactly as they are; only the rest of the grid is generated
+  lockedEntries?: TimetableEntry[];
+}
+
+/**
+ * Requested vs. placed periods of one subject-teacher pair after generation
+ */
+export interface GenerationReportItem {
+  pairId: string;
+  subjectName: string;
+  teacherNames: string[];
+  batchNumber?: string;
+  isLab: boolean;
+  requestedPeriods: number;
+  placedPeriods: number;
+  // Why periods are missing, empty when everything was placed
+  reasons: string[];
+}
+
+export interface GenerationReport {
+  // True when every subject received all its periods and no locked cell clashes
+  complete: boolean;
+  items: GenerationReportItem[];
+  conflicts: SchedulingConflict[];
+}
+
+export interface GenerationResult {
+  // Best timetable found; subjects listed as short in the report are missing periods
+  timetable: Timetable;
+  report: GenerationReport;
+}
+
+// Whether two entries hold the same lesson in the same cell
+const isSameLesson = (a: TimetableEntry, b: TimetableEntry): boolean => {
+  return a.day === b.day &&
+    a.timeSlot === b.timeSlot &&
+    a.subjectName === b.subjectName &&
+    a.batchNumber === b.batchNumber &&
+    !!a.isLab === !!b.isLab &&
+    !!a.isTutorial === !!b.isTutorial;
 };
 
-// Generate a timetable based on form data
-export const generateTimetable = (formData: TimetableFormData): Timetable => {
+// Collect the periods in which each teacher already teaches in other stored
+// timetables or has marked as unavailable. Entries are matched by time so
+// timetables following different bell schedules still clash correctly.
+export const getBusyTeacherSlots = (
+  periods: TimeSlot[],
+  excludeTimetableIds: string[] = []
+): Set<string> => {
+  const busy = new Set<string>();
+
+  getTimetables()
+    .filter(timetable => !excludeTimetableIds.includes(timetable.id))
+    .forEach(timetable => {
+      timetable.entries.forEach(entry => {
+        if (entry.isBreak || entry.isLunch || entry.isFree) return;
+
+        const teachers = getTeacherNames(entry);
+        periods
+          .filter(period => timeSlotsOverlap(period, entry.timeSlot))
+          .forEach(period => {
+            teachers.forEach(teacher => busy.add(teacherSlotKey(teacher, entry.day, period)));
+          });
+      });
+    });
+
+  getFaculty().forEach(faculty => {
+    (faculty.unavailableSlots || []).forEach(slot => {
+      periods
+        .filter(period => !slot.timeSlot || timeSlotsOverlap(period, slot.timeSlot))
+        .forEach(period => busy.add(teacherSlotKey(faculty.name, slot.day, period)));
+    });
+  });
+
+  return busy;
+};
+
+// A class timetable prepared for the solver
+interface GenerationProblem {
+  formData: TimetableFormData;
+  seed: number;
+  days: Day[];
+  schedule: BellSchedule;
+  // Schedule of each day, shorter than the timetable's on days with fewer periods
+  daySchedules: Record<Day, BellSchedule>;
+  timeSlots: TimeSlot[];
+  // Breaks, lunch and locked cells kept as they are
+  fixedEntries: TimetableEntry[];
+  tasks: SchedulingTask[];
+  // Subject-teacher pairs served by each task, used for the report
+  taskPairs: SubjectTeacherPair[][];
+  // Periods filled by locked cells, keyed with slotKey
+  blockedSlots: Set<string>;
+}
+
+// Describe everything that has to be placed in a class timetable
+const buildGenerationProblem = (
+  formData: TimetableFormData,
+  seed: number,
+  lockedEntries: TimetableEntry[] = []
+): GenerationProblem => {
   const entries: TimetableEntry[] = [];
-  const timeSlots: TimeSlot[] = [
-    '9:30-10:20', 
-    '10:20-11:10', 
-    '11:20-12:10', 
-    '12:10-1:00', 
-    '2:00-2:50', 
-    '2:50-3:40', 
-    '3:40-4:30'
-  ];
-  
-  // Define break and lunch periods
-  const breakSlot: TimeSlot = '11:10-11:20';
-  const lunchSlot: TimeSlot = '1:00-2:00';
+  
+  // Periods, breaks and lab blocks come from the timetable's bell schedule
+  const schedule = getBellScheduleForTimetable(formData);
+  const timeSlots = getTeachingPeriods(schedule);
   
   // Define which days to use based on year and options
-  let days: Day[];
-  
-  if (formData.year === '4th Year') {
-    days = formData.dayOptions.useCustomDays 
-      ? formData.dayOptions.selectedDays
-      : formData.dayOptions.fourContinuousDays 
-        ? ['Monday', 'Tuesday', 'Wednesday', 'Thursday']
-        : ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  } else {
-    days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  }
+  const days = getTimetableDays(formData);
+  
+  const daySchedules = {} as Record<Day, BellSchedule>;
+  days.forEach(day => {
+    daySchedules[day] = getBellScheduleForDay(formData, day);
+  });
+  const periodsOfDay = (day: Day) => getTeachingPeriods(daySchedules[day]);
   
   // Add break and lunch slots for all days
   days.forEach(day => {
-    // Add break slot
-    entries.push({
-      day,
-      timeSlot: breakSlot,
-      isBreak: true
-    });
-    
-    // Add lunch slot
-    entries.push({
-      day,
-      timeSlot: lunchSlot,
-      isLunch: true
+    daySchedules[day].slots.forEach(slot => {
+      if (slot.kind === 'break') {
+        entries.push({ day, timeSlot: slot.timeSlot, isBreak: true });
+      } else if (slot.kind === 'lunch') {
+        entries.push({ day, timeSlot: slot.timeSlot, isLunch: true });
+      }
     });
   });
   
@@ -137,6 +274,43 @@ export const generateTimetable = (formData: TimetableFormData): Timetable => {
   const labSubjects = formData.subjectTeacherPairs.filter(pair => pair.isLab);
   const nonLabSubjects = formData.subjectTeacherPairs.filter(pair => !pair.isLab);
   
+  // Everything that has to be placed, handed to the solver
+  const tasks: SchedulingTask[] = [];
+  // Subject-teacher pairs served by each task, used for the report
+  const taskPairs: SubjectTeacherPair[][] = [];
+  const addTask = (task: SchedulingTask, pairs: SubjectTeacherPair[]) => {
+    tasks.push(task);
+    taskPairs.push(pairs);
+  };
+  
+  // Lab blocks of the bell schedule that can hold a lab session
+  const labBlocks = getLabBlocks(schedule);
+  
+  // Runs matching the duration of the labs, or every allowed block when none is set
+  const blocksForLabs = (pairs: SubjectTeacherPair[]) => {
+    const durations = [...new Set(pairs
+      .map(getLabDuration)
+      .filter(duration => duration !== undefined))];
+    
+    if (durations.length === 0) return labBlocks;
+    if (durations.length > 1) return [];
+    
+    return getLabRuns(schedule, durations[0]!);
+  };
+  
+  // Candidate placements for labs running in parallel in one block, within the periods of each day
+  const labSessionCandidates = (pairs: SubjectTeacherPair[]): Placement[] => {
+    const blocks = blocksForLabs(pairs);
+    return days.flatMap(day => blocks
+      .filter(block => block.periods.every(period => periodsOfDay(day).includes(period)))
+      .map(block => ({
+      day,
+      periods: block.periods,
+      teachers: pairs.flatMap(getTeacherNames),
+      entries: pairs.map(pair => createLabEntryForDay(day, block.timeSlot, pair))
+      })));
+  };
+  
   // Group lab subjects by batch for rotation
   const batchGroups: { [key: string]: SubjectTeacherPair[] } = {};
   
@@ -152,257 +326,467 @@ export const generateTimetable = (formData: TimetableFormData): Timetable => {
     });
   }
   
-  // Create arrays to track allocated slots
-  const allocatedSlots: { day: Day; timeSlot: TimeSlot }[] = [];
-  const allocatedTeacherSlots: { day: Day; timeSlot: TimeSlot; teacherName: string }[] = [];
-  
-  // Function to check if a slot is already allocated
-  const isSlotAllocated = (day: Day, timeSlot: TimeSlot): boolean => {
-    return allocatedSlots.some(slot => slot.day === day && slot.timeSlot === timeSlot);
-  };
-  
-  // Function to check if a teacher is already allocated for a specific day and timeslot
-  const isTeacherAllocated = (day: Day, timeSlot: TimeSlot, teacherName: string): boolean => {
-    return allocatedTeacherSlots.some(
-      slot => slot.day === day && slot.timeSlot === timeSlot && slot.teacherName === teacherName
-    );
-  };
-  
-  // Allocate lab subjects first (they need continuous blocks)
+  // Labs that are scheduled on their own rather than in a rotation
+  let individualLabs = labSubjects;
   
-  // Define lab time slots
-  const morningLabSlots: TimeSlot[] = ['9:30-10:20', '10:20-11:10', '11:20-12:10', '12:10-1:00'];
-  const afternoonLabSlots: TimeSlot[] = ['2:00-2:50', '2:50-3:40', '3:40-4:30'];
+  // Round-robin rotation of N batches over M labs: in session s batch b does
+  // lab (b + s) mod max(N, M), so every batch does every lab once a week, the
+  // labs run in parallel and no lab is used by two batches in one session
+  const batches = Object.keys(batchGroups).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
   
-  // Handle batch rotation for labs
-  if (formData.enableBatchRotation && Object.keys(batchGroups).length >= 2) {
-    // Get B1 and B2 groups
-    const b1Labs = batchGroups['B1'] || [];
-    const b2Labs = batchGroups['B2'] || [];
+  if (formData.enableBatchRotation && batches.length >= 2) {
+    const batchLabs = batches.flatMap(batch => batchGroups[batch]);
+    const labNames = [...new Set(batchLabs.map(lab => lab.subjectName))];
+    const sessionCount = Math.max(batches.length, labNames.length);
+    // The rotation repeats when labs need several sessions a week
+    const rounds = Math.max(...batchLabs.map(getLabSessionsPerWeek));
     
-    if (b1Labs.length > 0 && b2Labs.length > 0) {
-      // Create lab pairs for rotation
-      const labPairs: { b1: SubjectTeacherPair; b2: SubjectTeacherPair }[] = [];
+    // A batch without its own pair for a lab takes the lab from the batch that has it,
+    // as a pair of its own so the report counts each batch's hours apart
+    const labForBatch = (batch: string, labName: string): SubjectTeacherPair | undefined => {
+      const own = batchGroups[batch].find(lab => lab.subjectName === labName);
+      if (own) return own;
+      const other = batchLabs.find(lab => lab.subjectName === labName);
+      return other && { ...other, id: `${other.id}-${batch}`, batchNumber: batch };
+    };
+    
+    for (let session = 0; session < sessionCount; session++) {
+      const sessionLabs = batches
+        .map((batch, batchIndex) => {
+          const labIndex = (batchIndex + session) % sessionCount;
+          return labIndex < labNames.length ? labForBatch(batch, labNames[labIndex]) : undefined;
+        })
+        .filter((lab): lab is SubjectTeacherPair => !!lab);
+      const candidates = labSessionCandidates(sessionLabs);
       
-      for (let i = 0; i < Math.min(b1Labs.length, b2Labs.length); i++) {
-        labPairs.push({
-          b1: b1Labs[i],
-          b2: b2Labs[i]
-        });
-      }
-      
-      // Allocate lab pairs to different days
-      const labDays = [...days].sort(() => Math.random() - 0.5).slice(0, labPairs.length * 2);
-      
-      for (let i = 0; i < labPairs.length && i * 2 + 1 < labDays.length; i++) {
-        const pair = labPairs[i];
-        const day1 = labDays[i * 2];
-        const day2 = labDays[i * 2 + 1];
-        
-        // Day 1: B1 lab in morning, B2 lab in afternoon if possible
-        const labGroupId1 = uuidv4();
-        
-        // Add morning lab entry for B1 on day 1
-        entries.push(createLabEntryForDay(day1, '9:30-1:00', pair.b1));
-        
-        // Add morning lab entry for B2 on day 1
-        entries.push(createLabEntryForDay(day1, '9:30-1:00', pair.b2));
-        
-        // Mark all morning slots as allocated for day 1
-        morningLabSlots.forEach(slot => {
-          allocatedSlots.push({ day: day1, timeSlot: slot });
-          if (pair.b1.teacherName) {
-            allocatedTeacherSlots.push({ day: day1, timeSlot: slot, teacherName: pair.b1.teacherName });
-          }
-          if (pair.b2.teacherName) {
-            allocatedTeacherSlots.push({ day: day1, timeSlot: slot, teacherName: pair.b2.teacherName });
-          }
-          // Add teacherNames to allocated slots too
-          if (pair.b1.teacherNames) {
-            pair.b1.teacherNames.forEach(teacher => {
-              allocatedTeacherSlots.push({ day: day1, timeSlot: slot, teacherName: teacher });
-            });
-          }
-          if (pair.b2.teacherNames) {
-            pair.b2.teacherNames.forEach(teacher => {
-              allocatedTeacherSlots.push({ day: day1, timeSlot: slot, teacherName: teacher });
-            });
-          }
-        });
-        
-        // Day 2: B2 lab in morning, B1 lab in afternoon if available
-        const labGroupId2 = uuidv4();
-        
-        // FIXED: Swap the batch assignments for the second day to implement proper rotation
-        // Add morning lab entry for B2's lab with B1 batch on day 2
-        entries.push(createLabEntryForDay(day2, '9:30-1:00', {
-          ...pair.b2,
-          batchNumber: 'B1' // Swap batch number for rotation
-        }));
-        
-        // Add morning lab entry for B1's lab with B2 batch on day 2
-        entries.push(createLabEntryForDay(day2, '9:30-1:00', {
-          ...pair.b1,
-          batchNumber: 'B2' // Swap batch number for rotation
-        }));
-        
-        // Mark all morning slots as allocated for day 2
-        morningLabSlots.forEach(slot => {
-          allocatedSlots.push({ day: day2, timeSlot: slot });
-          if (pair.b1.teacherName) {
-            allocatedTeacherSlots.push({ day: day2, timeSlot: slot, teacherName: pair.b1.teacherName });
-          }
-          if (pair.b2.teacherName) {
-            allocatedTeacherSlots.push({ day: day2, timeSlot: slot, teacherName: pair.b2.teacherName });
-          }
-          // Add teacherNames to allocated slots too
-          if (pair.b1.teacherNames) {
-            pair.b1.teacherNames.forEach(teacher => {
-              allocatedTeacherSlots.push({ day: day2, timeSlot: slot, teacherName: teacher });
-            });
-          }
-          if (pair.b2.teacherNames) {
-            pair.b2.teacherNames.forEach(teacher => {
-              allocatedTeacherSlots.push({ day: day2, timeSlot: slot, teacherName: teacher });
-            });
-          }
-        });
+      for (let round = 0; round < rounds; round++) {
+        addTask({
+          id: `rotation-${session + 1}-${round + 1}`,
+          label: `Lab rotation ${session + 1} of ${sessionCount} (${sessionLabs.map(lab => `${lab.batchNumber} ${lab.subjectName}`).join(', ')})`,
+          group: rounds > 1 ? `rotation-${session + 1}` : undefined,
+          candidates
+        }, sessionLabs);
       }
     }
-  } else {
-    // Handle labs without batch rotation
-    labSubjects.forEach(lab => {
-      // Try to find a day where morning slots are free
-      const availableDays = days.filter(day => 
-        !morningLabSlots.some(slot => isSlotAllocated(day, slot) || 
-          isTeacherAllocated(day, slot, lab.teacherName))
-      );
-      
-      if (availableDays.length > 0) {
-        const labDay = availableDays[Math.floor(Math.random() * availableDays.length)];
-        
-        // Add lab entry spanning the morning slots
-        entries.push({
-          day: labDay,
-          timeSlot: '9:30-1:00',
-          subjectName: lab.subjectName,
-          teacherName: lab.teacherName,
-          isLab: true,
-          batchNumber: lab.batchNumber
-        });
-        
-        // Mark all morning slots as allocated
-        morningLabSlots.forEach(slot => {
-          allocatedSlots.push({ day: labDay, timeSlot: slot });
-          allocatedTeacherSlots.push({ day: labDay, timeSlot: slot, teacherName: lab.teacherName });
-        });
-      } else {
-        // Try afternoon slots if morning isn't available
-        const availableDaysAfternoon = days.filter(day => 
-          !afternoonLabSlots.some(slot => isSlotAllocated(day, slot) || 
-            isTeacherAllocated(day, slot, lab.teacherName))
-        );
-        
-        if (availableDaysAfternoon.length > 0) {
-          const labDay = availableDaysAfternoon[Math.floor(Math.random() * availableDaysAfternoon.length)];
-          
-          // Add lab entry spanning the afternoon slots
-          entries.push({
-            day: labDay,
-            timeSlot: '2:00-4:30',
-            subjectName: lab.subjectName,
-            teacherName: lab.teacherName,
-            isLab: true,
-            batchNumber: lab.batchNumber
-          });
-          
-          // Mark all afternoon slots as allocated
-          afternoonLabSlots.forEach(slot => {
-            allocatedSlots.push({ day: labDay, timeSlot: slot });
-            allocatedTeacherSlots.push({ day: labDay, timeSlot: slot, teacherName: lab.teacherName });
-          });
-        }
-      }
-    });
+    
+    individualLabs = labSubjects.filter(lab => !batchLabs.includes(lab));
   }
   
-  // Allocate non-lab subjects (4 periods per week)
+  // Labs without batch rotation take any allowed run, once per session of the week
+  individualLabs.forEach(lab => {
+    const sessions = getLabSessionsPerWeek(lab);
+    const candidates = labSessionCandidates([lab]);
+    for (let session = 0; session < sessions; session++) {
+      addTask({
+        id: sessions > 1 ? `${lab.id}-P${session}` : lab.id,
+        label: lab.subjectName,
+        group: sessions > 1 ? `${lab.id}-P` : undefined,
+        candidates
+      }, [lab]);
+    }
+  });
+  
+  // Soft preferences: heavy lectures before lunch, and classes early in the day
+  // so the free hours gather at the end of it
+  const settings = getSoftConstraintSettings();
+  const afternoonStart = getAfternoonStart(schedule);
+  const periodPreference = (timeSlot: TimeSlot, isHeavyLecture: boolean): number =>
+    (isHeavyLecture && parseTimeSlot(timeSlot).start >= afternoonStart ? settings.weights['heavy-afternoon'] : 0) +
+    settings.weights['scattered-free'] * timeSlots.indexOf(timeSlot) / timeSlots.length;
+  
+  // Non-lab subjects need their lecture and tutorial hours as single periods
   nonLabSubjects.forEach(subject => {
-    let allocatedPeriodsCount = 0;
+    const { lectureHours, tutorialHours } = getSubjectHours(subject);
+    const isHeavy = isHeavySubject(subject, settings);
     
-    // We need 4 periods per week for each subject
-    while (allocatedPeriodsCount < 4) {
-      // Get all available slots
-      const availableSlots = [];
-      
-      for (const day of days) {
-        for (const timeSlot of timeSlots) {
-          if (!isSlotAllocated(day, timeSlot) && 
-              !isTeacherAllocated(day, timeSlot, subject.teacherName)) {
-            availableSlots.push({ day, timeSlot });
-          }
-        }
-      }
-      
-      if (availableSlots.length === 0) {
-        // No more available slots
-        break;
-      }
-      
-      // Select a random available slot
-      const randomIndex = Math.floor(Math.random() * availableSlots.length);
-      const selectedSlot = availableSlots[randomIndex];
-      
-      // Add entry
-      entries.push({
-        day: selectedSlot.day,
-        timeSlot: selectedSlot.timeSlot,
+    const periodCandidates = (isTutorial: boolean): Placement[] => days.flatMap(day => periodsOfDay(day).map(timeSlot => ({
+      day,
+      periods: [timeSlot],
+      teachers: getTeacherNames(subject),
+      preference: periodPreference(timeSlot, isHeavy && !isTutorial),
+      entries: [{
+        day,
+        timeSlot,
         subjectName: subject.subjectName,
         teacherName: subject.teacherName,
-        isLab: false
-      });
-      
-      // Mark as allocated
-      allocatedSlots.push({ day: selectedSlot.day, timeSlot: selectedSlot.timeSlot });
-      allocatedTeacherSlots.push({ 
-        day: selectedSlot.day, 
-        timeSlot: selectedSlot.timeSlot, 
-        teacherName: subject.teacherName 
-      });
-      
-      allocatedPeriodsCount++;
+        teacherNames: getTeacherNames(subject),
+        isLab: false,
+        isTutorial: isTutorial || undefined
+      }]
+    })));
+    
+    const lectureCandidates = periodCandidates(false);
+    for (let period = 0; period < lectureHours; period++) {
+      addTask({
+        id: `${subject.id}-L${period}`,
+        label: subject.subjectName,
+        group: `${subject.id}-L`,
+        candidates: lectureCandidates
+      }, [subject]);
+    }
+    
+    const tutorialCandidates = periodCandidates(true);
+    for (let period = 0; period < tutorialHours; period++) {
+      addTask({
+        id: `${subject.id}-T${period}`,
+        label: `${subject.subjectName} (Tutorial)`,
+        group: `${subject.id}-T`,
+        candidates: tutorialCandidates
+      }, [subject]);
     }
   });
   
-  // Allocate free hours for remaining slots
-  days.forEach(day => {
-    timeSlots.forEach(timeSlot => {
-      if (!isSlotAllocated(day, timeSlot)) {
-        // Select a random free hour type
-        const randomFreeHourIndex = Math.floor(Math.random() * formData.freeHours.length);
-        const freeHour = formData.freeHours[randomFreeHourIndex];
+  // Locked cells pin the task they belong to; locked cells that belong to no
+  // task (free hours, removed subjects) are kept as they are and block their periods
+  const lockedCells = lockedEntries.filter(entry =>
+    days.includes(entry.day) && !entry.isBreak && !entry.isLunch
+  );
+  const pinnedEntries = new Set<TimetableEntry>();
+  
+  if (lockedCells.length > 0) {
+    tasks.forEach((task, taskIndex) => {
+      for (const candidate of task.candidates) {
+        const matches = candidate.entries.map(entry =>
+          lockedCells.find(locked => !pinnedEntries.has(locked) && isSameLesson(locked, entry))
+        );
+        if (!matches.some(Boolean)) continue;
         
-        entries.push({
-          day,
-          timeSlot,
-          isFree: true,
-          freeType: freeHour.type,
-          customFreeType: freeHour.type === 'Others' ? freeHour.customType : undefined,
-          mergeSlots: freeHour.mergeSlots
+        matches.forEach(locked => locked && pinnedEntries.add(locked));
+        // Pinned units leave their group so symmetry breaking does not apply to them
+        tasks[taskIndex] = {
+          ...task,
+          group: undefined,
+          candidates: [{
+            ...candidate,
+            entries: candidate.entries.map((entry, index) =>
+              matches[index] ? { ...matches[index]!, isLocked: true } : entry
+            )
+          }]
+        };
+        break;
+      }
+    });
+  }
+  
+  const blockedSlots = new Set<string>();
+  
+  lockedCells
+    .filter(entry => !pinnedEntries.has(entry))
+    .forEach(entry => {
+      timeSlots
+        .filter(period => timeSlotsOverlap(period, entry.timeSlot))
+        .forEach(period => blockedSlots.add(slotKey(entry.day, period)));
+      entries.push({ ...entry, isLocked: true });
+    });
+  
+  return { formData, seed, days, schedule, daySchedules, timeSlots, fixedEntries: entries, tasks, taskPairs, blockedSlots };
+};
+
+// Check the locked cells kept as they are against the other timetables
+const findLockedConflicts = (
+  problem: GenerationProblem,
+  busyTeacherSlots: Set<string>
+): SchedulingConflict[] => {
+  const conflicts: SchedulingConflict[] = [];
+  
+  problem.fixedEntries
+    .filter(entry => entry.isLocked && !entry.isFree)
+    .forEach(entry => {
+      const periods = problem.timeSlots.filter(period => timeSlotsOverlap(period, entry.timeSlot));
+      getTeacherNames(entry)
+        .filter(teacher => periods.some(period => busyTeacherSlots.has(teacherSlotKey(teacher, entry.day, period))))
+        .forEach(teacher => {
+          conflicts.push({
+            kind: 'teacher-busy',
+            taskLabel: entry.subjectName,
+            teacherName: teacher,
+            message: `Locked ${entry.subjectName} on ${entry.day} ${entry.timeSlot}: ${teacher} is unavailable or teaching another class at that time.`
+          });
         });
+    });
+  
+  return conflicts;
+};
+
+// Build the timetable and report of a class from the placements chosen for its tasks
+const assembleGenerationResult = (
+  problem: GenerationProblem,
+  placements: (Placement | undefined)[],
+  unplaced: UnplacedTask[],
+  random: () => number,
+  complete: boolean,
+  conflicts: SchedulingConflict[]
+): GenerationResult => {
+  const { formData, days, daySchedules, tasks, taskPairs } = problem;
+  const entries = [...problem.fixedEntries];
+  
+  const allocatedSlots = new Set<string>(problem.blockedSlots);
+  placements.forEach(placement => {
+    if (!placement) return;
+    entries.push(...placement.entries);
+    placement.periods.forEach(period => allocatedSlots.add(slotKey(placement.day, period)));
+  });
+  
+  // Requested vs. placed periods per subject-teacher pair, including the lab
+  // pairs a batch takes over from another batch in a rotation
+  const reportItems = new Map<string, GenerationReportItem>();
+  [...formData.subjectTeacherPairs, ...taskPairs.flat()].forEach(pair => {
+    if (reportItems.has(pair.id)) return;
+    reportItems.set(pair.id, {
+      pairId: pair.id,
+      subjectName: pair.subjectName,
+      teacherNames: getTeacherNames(pair),
+      batchNumber: pair.batchNumber,
+      isLab: pair.isLab,
+      requestedPeriods: 0,
+      placedPeriods: 0,
+      reasons: []
+    });
+  });
+  
+  tasks.forEach((task, taskIndex) => {
+    // Labs without practical hours accept any block, so a placed block is what they asked for
+    const placement = placements[taskIndex];
+    const requested = placement
+      ? placement.periods.length
+      : task.candidates.length > 0
+        ? Math.min(...task.candidates.map(candidate => candidate.periods.length))
+        : getLabDuration(taskPairs[taskIndex][0]) ?? 1;
+    
+    taskPairs[taskIndex].forEach(pair => {
+      const item = reportItems.get(pair.id);
+      if (!item) return;
+      item.requestedPeriods += requested;
+      item.placedPeriods += placement ? placement.periods.length : 0;
+    });
+  });
+  
+  unplaced.forEach(({ taskIndex, message }) => {
+    taskPairs[taskIndex].forEach(pair => {
+      const item = reportItems.get(pair.id);
+      if (item && !item.reasons.includes(message)) {
+        item.reasons.push(message);
       }
     });
   });
+  
+  // Fill the remaining periods with free hours, following their quotas and placement rules
+  entries.push(...allocateFreeHours(
+    days,
+    day => daySchedules[day],
+    (day, timeSlot) => !allocatedSlots.has(slotKey(day, timeSlot)),
+    formData.freeHours,
+    random
+  ));
 
   return {
-    id: uuidv4(),
-    formData,
-    entries,
-    createdAt: new Date().toISOString(),
-    facultyDetails: {} // Add the required facultyDetails property with an empty object
+    timetable: {
+      id: uuidv4(),
+      formData,
+      entries,
+      createdAt: new Date().toISOString(),
+      facultyDetails: {}, // Add the required facultyDetails property with an empty object
+      seed: problem.seed
+    },
+    report: {
+      complete,
+      items: [...reportItems.values()],
+      conflicts
+    }
   };
 };
 
+// Complete timetables the generator compares before keeping the best scoring one
+const GENERATION_ATTEMPTS = 5;
+
+// Run a solve several times on the same random stream and keep the attempt
+// that best meets the soft constraints. When the first attempt is incomplete
+// no complete timetable is expected, so it is returned as it is.
+const pickBestAttempt = <T>(
+  attempt: () => T,
+  isComplete: (result: T) => boolean,
+  score: (result: T) => number
+): T => {
+  let best = attempt();
+  if (!isComplete(best)) return best;
+  
+  let bestScore = score(best);
+  for (let index = 1; index < GENERATION_ATTEMPTS; index++) {
+    const result = attempt();
+    if (!isComplete(result)) continue;
+    
+    const resultScore = score(result);
+    if (resultScore > bestScore) {
+      best = result;
+      bestScore = resultScore;
+    }
+  }
+  
+  return best;
+};
+
+// Generate a timetable based on form data, throwing when no complete timetable is found
+export const generateTimetable = (
+  formData: TimetableFormData,
+  options: GenerateTimetableOptions = {}
+): Timetable => {
+  const { timetable, report } = generateTimetableWithReport(formData, options);
+  
+  if (!report.complete) {
+    throw new TimetableGenerationError(report.conflicts, report);
+  }
+  
+  return timetable;
+};
+
+// Generate the fullest timetable possible together with a report of the
+// periods every subject requested and received
+export const generateTimetableWithReport = (
+  formData: TimetableFormData,
+  options: GenerateTimetableOptions = {}
+): GenerationResult => {
+  // All random choices come from the seed so the result can be reproduced
+  const seed = formData.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  
+  const problem = buildGenerationProblem(formData, seed, options.lockedEntries);
+  const busyTeacherSlots = getBusyTeacherSlots(
+    problem.timeSlots,
+    options.excludeTimetableId ? [options.excludeTimetableId] : []
+  );
+  const lockedConflicts = findLockedConflicts(problem, busyTeacherSlots);
+  const settings = getSoftConstraintSettings();
+  
+  return pickBestAttempt(
+    () => {
+      const result = solveSchedule(problem.tasks, {
+        busyTeacherSlots,
+        blockedSlots: problem.blockedSlots,
+        random
+      });
+      
+      return assembleGenerationResult(
+        problem,
+        result.placements,
+        result.unplaced,
+        random,
+        result.success && lockedConflicts.length === 0,
+        [...lockedConflicts, ...result.conflicts]
+      );
+    },
+    generation => generation.report.complete,
+    generation => scoreTimetable(generation.timetable, settings).score
+  );
+};
+
+// Generate several candidate timetables for the same form data. Candidate i
+// uses the seed plus i, so each one can be reproduced on its own.
+export const generateCandidateTimetables = (
+  formData: TimetableFormData,
+  count: number,
+  options: GenerateTimetableOptions = {}
+): GenerationResult[] => {
+  const seed = formData.seed ?? generateSeed();
+  return Array.from({ length: count }, (_, index) =>
+    generateTimetableWithReport({ ...formData, seed: (seed + index) >>> 0 }, options)
+  );
+};
+
+export interface BatchGenerationOptions {
+  // Stored timetables replaced by the batch, ignored when checking faculty clashes
+  replaceTimetableIds?: string[];
+  seed?: number;
+}
+
+export interface BatchGenerationResult {
+  // One result per class, in the order the form data was given
+  results: GenerationResult[];
+  // True when every class received all its periods
+  complete: boolean;
+  conflicts: SchedulingConflict[];
+}
+
+// Label of the class a timetable belongs to, e.g. "2nd Year CSE (I)"
+export const getClassLabel = (formData: TimetableFormData): string => {
+  const branch = formData.branch === 'Other' && formData.customBranch ? formData.customBranch : formData.branch;
+  return `${formData.year} ${branch} (${formData.semester})`;
+};
+
+// Generate the timetables of several classes in one solver run, so classes
+// sharing faculty are fitted around each other instead of the first class
+// claiming the best slots
+export const generateTimetablesTogether = (
+  formDataList: TimetableFormData[],
+  options: BatchGenerationOptions = {}
+): BatchGenerationResult => {
+  const labels = formDataList.map(getClassLabel);
+  const duplicate = labels.find((label, index) => labels.indexOf(label) !== index);
+  if (duplicate) {
+    throw new Error(`${duplicate} is included more than once`);
+  }
+  
+  // One seed reproduces the whole batch
+  const seed = options.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  const problems = formDataList.map(formData => buildGenerationProblem({ ...formData, seed }, seed));
+  
+  // Teachers are compared in time segments common to all bell schedules of the batch
+  const segments = splitIntoTimeSegments(problems.map(problem => problem.timeSlots));
+  const toSegments = (period: TimeSlot) => segments.filter(segment => timeSlotsOverlap(segment, period));
+  
+  // All tasks go to one solver run; each class is a grid of its own
+  const tasks: SchedulingTask[] = [];
+  const offsets: number[] = [];
+  problems.forEach((problem, index) => {
+    const grid = labels[index];
+    offsets.push(tasks.length);
+    problem.tasks.forEach(task => {
+      tasks.push({
+        ...task,
+        id: `${grid}|${task.id}`,
+        label: `${grid}: ${task.label}`,
+        group: task.group && `${grid}|${task.group}`,
+        candidates: task.candidates.map(candidate => ({
+          ...candidate,
+          grid,
+          teacherPeriods: candidate.periods.flatMap(toSegments)
+        }))
+      });
+    });
+  });
+  
+  const busyTeacherSlots = getBusyTeacherSlots(segments, options.replaceTimetableIds);
+  const settings = getSoftConstraintSettings();
+  
+  // The batch with the best average score over its classes is kept
+  return pickBestAttempt(
+    (): BatchGenerationResult => {
+      const result = solveSchedule(tasks, { busyTeacherSlots, random });
+      
+      const results = problems.map((problem, index) => {
+        const offset = offsets[index];
+        const count = problem.tasks.length;
+        const unplaced = result.unplaced
+          .filter(({ taskIndex }) => taskIndex >= offset && taskIndex < offset + count)
+          .map(item => ({ ...item, taskIndex: item.taskIndex - offset }));
+        
+        return assembleGenerationResult(
+          problem,
+          result.placements.slice(offset, offset + count),
+          unplaced,
+          random,
+          unplaced.length === 0,
+          result.conflicts.filter(conflict => conflict.taskLabel?.startsWith(`${labels[index]}: `))
+        );
+      });
+      
+      return { results, complete: result.success, conflicts: result.conflicts };
+    },
+    batch => batch.complete,
+    batch => batch.results.reduce((sum, result) => sum + scoreTimetable(result.timetable, settings).score, 0) / batch.results.length
+  );
+};
+
 // Update the function that creates timetable entries for lab subjects to include multiple teachers
 export const createLabEntryForDay = (
   day: Day,
@@ -415,7 +799,7 @@ export const createLabEntryForDay = (
     timeSlot,
     subjectName: pair.subjectName,
     teacherName: pair.teacherName,
-    teacherNames: pair.teacherNames,
+    teacherNames: getTeacherNames(pair),
     isLab: true,
     batchNumber: pair.batchNumber,
     mergeSlots: true
@@ -427,7 +811,7 @@ export const countNonLabSubjectsForTeacher = (
   teacherName: string, 
   pairs: SubjectTeacherPair[]
 ): number => {
-  return pairs.filter(pair => pair.teacherName === teacherName && !pair.isLab).length;
+  return pairs.filter(pair => isTaughtBy(pair, teacherName) && !pair.isLab).length;
 };
 
 // Check if a timetable with the same year, branch, and semester already exists
@@ -445,34 +829,20 @@ export const doesTimetableExist = (
   );
 };
 
-// Get all timetables for a specific faculty
-export const getTimetablesForFaculty = (facultyName: string): Timetable[] => {
-  const timetables = getTimetables();
-  
-  return timetables.filter(timetable => 
-    timetable.entries.some(entry => 
-      entry.teacherName === facultyName && 
-      !entry.isBreak && 
-      !entry.isLunch
-    )
-  );
+// Get all timetables for a specific faculty, through the teacher index
+export const getTimetablesForFaculty = (facultyName: string): Promise<Timetable[]> => {
+  return getRepositories().timetables.findByTeacher(facultyName);
 };
 
-// Check if a teacher is available at a specific day and time slot
+// Check if a teacher is available at a specific day and time slot.
+// Slots are compared by time, so lab blocks and other bell schedules are covered.
 export const isTeacherAvailable = (
   teacherName: string, 
   day: Day, 
-  timeSlot: TimeSlot
+  timeSlot: TimeSlot,
+  excludeTimetableId?: string
 ): boolean => {
-  const timetables = getTimetables();
+  const timetables = getTimetables().filter(timetable => timetable.id !== excludeTimetableId);
   
-  return !timetables.some(timetable => 
-    timetable.entries.some(entry => 
-      entry.day === day && 
-      entry.timeSlot === timeSlot && 
-      entry.teacherName === teacherName &&
-      !entry.isBreak &&
-      !entry.isLunch
-    )
-  );
+  return timetables.every(timetable => isTeacherFreeIn(timetable.entries, teacherName, day, timeSlot));
 };
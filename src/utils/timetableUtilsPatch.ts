@@ -1,61 +0,0 @@
-
-import { TimetableEntry, SubjectTeacherPair, TimetableFormData, Day, TimeSlot } from "./types";
-import { v4 } from "uuid";
-
-// This file contains patches for the timetableUtils.ts file
-
-/*
-Integration Instructions:
-
-1. In the timetableUtils.ts file, update the generateTimetable function to handle multiple teachers:
-
-When creating lab entries, use the teacherNames field:
-
-const labEntry: TimetableEntry = {
-  id: v4(),
-  day,
-  timeSlot,
-  subjectName: lab.subjectName,
-  teacherName: lab.teacherName, // Keep for backward compatibility
-  teacherNames: lab.teacherNames || [lab.teacherName], // Add this line
-  isLab: true,
-  batchNumber: lab.batchNumber,
-  isLabGroup: true,
-  labGroupId: labGroupId
-};
-
-2. Update any functions that check for teacher conflicts to consider all teachers:
-
-// Example modification to isTeacherAvailable:
-export const isTeacherAvailable = (
-  teacherName: string,
-  day: Day,
-  timeSlot: TimeSlot,
-  existingEntries: TimetableEntry[]
-): boolean => {
-  return !existingEntries.some(
-    entry => 
-      entry.day === day && 
-      entry.timeSlot === timeSlot &&
-      ((entry.teacherName === teacherName) || 
-       (entry.teacherNames && entry.teacherNames.includes(teacherName)))
-  );
-};
-
-*/
-
-// Helper function to demonstrate how to modify the isTeacherAvailable function
-export const isTeacherAvailablePatched = (
-  teacherName: string,
-  day: Day,
-  timeSlot: TimeSlot,
-  existingEntries: TimetableEntry[]
-): boolean => {
-  return !existingEntries.some(
-    entry => 
-      entry.day === day && 
-      entry.timeSlot === timeSlot &&
-      ((entry.teacherName === teacherName) || 
-       (entry.teacherNames && entry.teacherNames.includes(teacherName)))
-  );
-};
@@ -1,18 +1,28 @@
-export type Day = "Mon" | "Tue" | "Wed" | "Thu" | "Fri" | "Sat" | "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday" | "Saturday";
-export type TimeSlot =
-  | "9:30-10:20"
-  | "10:20-11:10"
-  | "11:20-12:10"
-  | "12:10-1:00"
-  | "2:00-2:50"
-  | "2:50-3:40"
-  | "3:40-4:30"
-  | "4:30-5:20"
-  | "11:10-11:20"  // Break
-  | "1:00-2:00"    // Lunch
-  | "9:30-1:00"    // Morning lab block
-  | "2:00-4:30"    // Afternoon lab block
-  | "10:20-1:00";  // Another lab block
+// A day of the week, always the long name; stored short names ("Mon") are migrated on load
+export type Day = "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday" | "Saturday";
+// A time range such as "9:30-10:20"; the periods that exist come from the bell schedule.
+// Combined lab blocks such as "9:30-1:00" span several consecutive periods.
+export type TimeSlot = string;
+
+export type BellSlotKind = "period" | "break" | "lunch";
+
+export interface BellSlot {
+  timeSlot: TimeSlot;
+  kind: BellSlotKind;
+}
+
+// A contiguous run of teaching periods that may hold a lab, from start to end period
+export interface LabBlockDefinition {
+  start: TimeSlot;
+  end: TimeSlot;
+}
+
+export interface BellSchedule {
+  id: string;
+  name: string;
+  slots: BellSlot[]; // Ordered periods, breaks and lunch of a day
+  labBlocks: LabBlockDefinition[];
+}
 
 export interface TimetableEntry {
   id?: string;
@@ -22,6 +32,8 @@ export interface TimetableEntry {
   teacherName?: string; // We'll keep this for backward compatibility
   teacherNames?: string[]; // New field for multiple teachers
   isLab?: boolean;
+  isTutorial?: boolean; // Tutorial period of a subject, shown apart from lectures
+  isLocked?: boolean; // Kept as it is when the rest of the timetable is regenerated
   batchNumber?: string;
   isFree?: boolean;
   freeType?: string;
@@ -39,6 +51,7 @@ export interface Timetable {
   formData: TimetableFormData;
   entries: TimetableEntry[];
   createdAt: string;
+  seed?: number; // Seed used by the generator, reproduces an auto-generated timetable
 }
 
 export interface SubjectTeacherPair {
@@ -48,6 +61,11 @@ export interface SubjectTeacherPair {
   teacherNames?: string[]; // New field for multiple teachers
   isLab: boolean;
   batchNumber?: string;
+  // Weekly L-T-P hours, taken from the subject master or overridden per timetable
+  lectureHours?: number;
+  tutorialHours?: number;
+  practicalHours?: number;
+  labDuration?: number; // Periods of one lab session; the practical hours when omitted
 }
 
 export interface TimetableFormData {
@@ -79,6 +97,36 @@ export interface TimetableFormData {
   
   // Batch rotation
   enableBatchRotation: boolean;
+  
+  // Generator seed; a random one is drawn when omitted
+  seed?: number;
+  
+  // Bell schedule the timetable follows; the default schedule when omitted
+  bellScheduleId?: string;
+  
+  // Shorter days, e.g. { Saturday: 4 } for a Saturday of periods 1-4 only.
+  // Days not listed keep every period of the bell schedule.
+  dayPeriods?: Partial<Record<Day, number>>;
+}
+
+// Form data of a class saved for generating several timetables together
+export interface TimetableDraft {
+  id: string;
+  formData: TimetableFormData;
+  createdAt: string;
+}
+
+// Scheduling preferences that make a timetable better without making it invalid
+export type SoftConstraintKind =
+  | "subject-repeat" // A subject taught more than once on a day
+  | "teacher-consecutive" // A teacher with too many back-to-back periods
+  | "heavy-afternoon" // A heavy subject's lecture after lunch
+  | "scattered-free"; // Free hours split into several gaps on a day
+
+export interface SoftConstraintSettings {
+  weights: Record<SoftConstraintKind, number>; // 0 ignores a preference
+  maxConsecutivePeriods: number; // Longest back-to-back run a teacher should have
+  heavyLectureHours: number; // Subjects with at least this many weekly lectures are heavy
 }
 
 export type YearType = "1st Year" | "2nd Year" | "3rd Year" | "4th Year";
@@ -86,12 +134,31 @@ export type BranchType = "CSE" | "IT" | "ECE" | "EEE" | "CSD" | "AI & ML" | "Oth
 export type SemesterType = "I" | "II";
 export type UserRole = "admin" | "faculty" | "student" | "guest";
 
+// A login kept in storage, e.g. the admin credentials
+export interface StoredUser {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+// A copy of a timetable as it was saved, kept unchanged for the history of the timetable
+export interface TimetableRevision {
+  id: string;
+  timetableId: string;
+  createdAt: string;
+  author: string; // Username of whoever saved it
+  note?: string;
+  timetable: Timetable; // Stored with its schema version stamp, upgraded when read
+}
+
 export type FreeHourType = "Library" | "Sports" | "Project" | "Others";
 
 export interface FreeHourDefinition {
   type: FreeHourType;
   customType?: string;
-  mergeSlots?: boolean;
+  mergeSlots?: boolean; // Consecutive periods of this free hour are kept and shown as one block
+  weeklyQuota?: number; // Periods a week given to this free hour; unset takes the periods left over
+  preferEndOfDay?: boolean; // Placed in the last free periods of the day first
 }
 
 export interface FreeHour {
@@ -102,11 +169,18 @@ export interface FreeHour {
   mergeSlots?: boolean;
 }
 
+// A time a faculty member cannot teach; the whole day when no time slot is given
+export interface FacultyUnavailability {
+  day: Day;
+  timeSlot?: TimeSlot;
+}
+
 export interface Faculty {
   id: string;
   name: string;
   department: string;
   shortName?: string;
+  unavailableSlots?: FacultyUnavailability[];
 }
 
 export interface Subject {
@@ -117,4 +191,9 @@ export interface Subject {
   customBranch?: string;
   isLab: boolean;
   creditHours?: number;
+  // Weekly L-T-P structure from the syllabus
+  lectureHours?: number;
+  tutorialHours?: number;
+  practicalHours?: number;
+  labDuration?: number; // Periods of one lab session; the practical hours when omitted
 }
@@ -0,0 +1,24 @@
+import { StoredUser } from './types';
+import { deleteStoredRecord, getStoredRecords, putStoredRecords } from './storageUtils';
+
+// Get all stored logins
+export const getUsers = (): StoredUser[] => {
+  return getStoredRecords('users');
+};
+
+// Add a login or replace the stored one with the same username
+export const saveUser = (user: StoredUser): void => {
+  putStoredRecords('users', [user]);
+};
+
+// Delete a login, e.g. the old username of a renamed admin
+export const deleteUser = (username: string): void => {
+  deleteStoredRecord('users', username);
+};
+
+// Add the default admin login when no admin exists yet
+export const ensureDefaultAdmin = (): void => {
+  if (!getUsers().some(user => user.role === 'admin')) {
+    saveUser({ username: 'admin', password: 'admin123', role: 'admin' });
+  }
+};